@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isObject, isSerializedReport } from "@/lib/reportSchema";
+import { isAuthorized, writeRecord } from "@/lib/server/reportStore";
+import { PushRequest, PushResponse } from "@/lib/syncProtocol";
+
+interface RouteContext {
+  params: Promise<{ uid: string }>;
+}
+
+const isBaseRevision = (value: unknown): value is number | null =>
+  value === null || (typeof value === "number" && Number.isInteger(value));
+
+const write = async (
+  request: NextRequest,
+  { params }: RouteContext,
+  deleting: boolean
+) => {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ error: "Non autorisé" }, { status: 401 });
+  }
+  const { uid } = await params;
+
+  let body: PushRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Requête invalide" }, { status: 400 });
+  }
+  if (
+    !isObject(body) ||
+    !isBaseRevision(body.baseRevision) ||
+    (!deleting && !isSerializedReport(body.report))
+  ) {
+    return NextResponse.json({ error: "Requête invalide" }, { status: 400 });
+  }
+
+  try {
+    const result = await writeRecord(
+      uid,
+      body.baseRevision,
+      deleting ? null : (body.report ?? null)
+    );
+    const response: PushResponse = {
+      record: result.ok ? result.record : result.current,
+    };
+    return NextResponse.json(response, { status: result.ok ? 200 : 409 });
+  } catch (error) {
+    console.error("Error writing report:", error);
+    return NextResponse.json({ error: "Erreur du serveur" }, { status: 500 });
+  }
+};
+
+export const PUT = (request: NextRequest, context: RouteContext) =>
+  write(request, context, false);
+
+export const DELETE = (request: NextRequest, context: RouteContext) =>
+  write(request, context, true);
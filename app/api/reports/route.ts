@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getChangesSince, isAuthorized } from "@/lib/server/reportStore";
+import { PullResponse } from "@/lib/syncProtocol";
+
+export const dynamic = "force-dynamic";
+
+// Records written after the given revision, deletions included
+export const GET = async (request: NextRequest) => {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ error: "Non autorisé" }, { status: 401 });
+  }
+  const since = Number(request.nextUrl.searchParams.get("since") || 0);
+  if (!Number.isInteger(since) || since < 0) {
+    return NextResponse.json({ error: "Révision invalide" }, { status: 400 });
+  }
+
+  try {
+    const changes: PullResponse = await getChangesSince(since);
+    return NextResponse.json(changes);
+  } catch (error) {
+    console.error("Error reading reports:", error);
+    return NextResponse.json({ error: "Erreur du serveur" }, { status: 500 });
+  }
+};
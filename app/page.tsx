@@ -1,114 +1,183 @@
 "use client";
 
-import {
-  DatePicker,
-  LocalizationProvider,
-  TimePicker,
-} from "@mui/x-date-pickers";
-import { AdapterDayjs } from "@mui/x-date-pickers/AdapterDayjs";
+import { DatePicker, TimePicker } from "@mui/x-date-pickers";
 import dayjs, { Dayjs } from "dayjs";
-import jsPDF from "jspdf";
-import { useEffect, useState } from "react";
-interface Task {
-  startTime: Dayjs | null;
-  endTime: Dayjs | null;
-  description: string;
-  problems?: string;
-}
-
-interface Report {
-  date: Dayjs;
-  firstName: string;
-  lastName: string;
-  arrivalTime: Dayjs | null;
-  departureTime: Dayjs | null;
-  tasks: Task[];
-  plannedTasks: string;
-}
-
-// Add a new interface for serialized data
-interface SerializedTask {
-  startTime: string | null;
-  endTime: string | null;
-  description: string;
-  problems?: string;
-}
-
-interface SerializedReport {
-  id?: number;
-  date: string;
-  firstName: string;
-  lastName: string;
-  arrivalTime: string | null;
-  departureTime: string | null;
-  tasks: SerializedTask[];
-  plannedTasks: string;
-}
-
-const DB_NAME = "WorkReportsDB";
-const STORE_NAME = "reports";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+  createEmptyReport,
+  createEmptyTask,
+  deserializeReport,
+  duplicateTask,
+  formatPerson,
+  getDayKey,
+  isReportBlank,
+  moveTask,
+  Report,
+  SerializedReport,
+  serializeReport,
+  Task,
+} from "@/lib/report";
+import {
+  deleteReport,
+  getAllReports,
+  restoreReport,
+  saveReport,
+} from "@/lib/reportRepository";
+import { clearDraft, Draft, getDraft, saveDraft } from "@/lib/draftRepository";
+import { getReportPdfFileName, renderReportPdf } from "@/lib/pdf";
+import { ShortcutAction } from "@/lib/shortcuts";
+import { loadAnnex } from "@/lib/attachments";
+import PeriodReportPanel from "@/components/PeriodReportPanel";
+import BackupPanel from "@/components/BackupPanel";
+import ProfileSettings from "@/components/ProfileSettings";
+import CatalogueSettings from "@/components/CatalogueSettings";
+import ReportSearchPanel from "@/components/ReportSearchPanel";
+import IncidentLogPanel from "@/components/IncidentLogPanel";
+import StatisticsPanel from "@/components/StatisticsPanel";
+import TeamSettings from "@/components/TeamSettings";
+import TeamReviewPanel from "@/components/TeamReviewPanel";
+import SyncSettings from "@/components/SyncSettings";
+import UpdateBanner from "@/components/UpdateBanner";
+import PdfTemplateSettings from "@/components/PdfTemplateSettings";
+import LanguageSettings from "@/components/LanguageSettings";
+import TaskAttachments from "@/components/TaskAttachments";
+import ReportCalendar from "@/components/ReportCalendar";
+import WorkCalendarSettings from "@/components/WorkCalendarSettings";
+import ReminderSettings from "@/components/ReminderSettings";
+import FinalizePanel from "@/components/FinalizePanel";
+import VerifyPanel from "@/components/VerifyPanel";
+import ShortcutHelp from "@/components/ShortcutHelp";
+import { useI18n } from "@/components/I18nProvider";
+import { formatDate, formatDateTime, MessageKey } from "@/lib/i18n";
+import {
+  createDefaultPdfTemplate,
+  getPdfTemplate,
+  PdfTemplate,
+} from "@/lib/pdfTemplate";
+import { FinalizedReportError, isFinalized } from "@/lib/finalization";
+import { activateUpdate, registerServiceWorker } from "@/lib/serviceWorker";
+import { requestBackgroundSync, syncReports } from "@/lib/sync";
+import { getMembers, setActiveMember, TeamMember } from "@/lib/team";
+import PunchClock from "@/components/PunchClock";
+import CarryOverBanner from "@/components/CarryOverBanner";
+import { usePunchClockMode } from "@/hooks/usePunchClockMode";
+import { useAttachmentCleanup } from "@/hooks/useAttachmentCleanup";
+import { useWorkCalendar } from "@/hooks/useWorkCalendar";
+import { useReminder } from "@/hooks/useReminder";
+import { useFinalization } from "@/hooks/useFinalization";
+import { useShortcuts } from "@/hooks/useShortcuts";
+import { useTaskFocus } from "@/hooks/useTaskFocus";
+import { getSetting } from "@/lib/settingsRepository";
+import { clearClockTimes, PUNCH_CLOCK_SETTING } from "@/lib/punchClock";
+import {
+  applyTemplate,
+  CatalogueEntry,
+  Category,
+  createTemplateFromTasks,
+  DayTemplate,
+  findCatalogueEntry,
+  getCatalogue,
+  getCategories,
+  getDescriptionSuggestions,
+  getTemplates,
+  saveTemplate,
+} from "@/lib/catalogue";
+import { applyPlannedItems, postponeTask } from "@/lib/plannedTasks";
+import {
+  createEmptyProfile,
+  createReportFromProfile,
+  getProfile,
+  Profile,
+} from "@/lib/profile";
+import {
+  getFieldIssue,
+  hasBlockingErrors,
+  taskPath,
+  validateReport,
+} from "@/lib/validation";
 
-const initDB = () => {
-  return new Promise((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME, 1);
+const UNDO_DELAY = 8000;
 
-    request.onerror = () => reject(request.error);
-    request.onsuccess = () => resolve(request.result);
+type View =
+  | "report"
+  | "calendar"
+  | "team"
+  | "periods"
+  | "statistics"
+  | "incidents"
+  | "verify"
+  | "catalogue"
+  | "pdfTemplate"
+  | "settings";
 
-    request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        db.createObjectStore(STORE_NAME, {
-          keyPath: "id",
-          autoIncrement: true,
-        });
-      }
-    };
-  });
-};
+const VIEWS: { id: View; label: MessageKey }[] = [
+  { id: "report", label: "view.report" },
+  { id: "calendar", label: "view.calendar" },
+  { id: "team", label: "view.team" },
+  { id: "periods", label: "view.periods" },
+  { id: "statistics", label: "view.statistics" },
+  { id: "incidents", label: "view.incidents" },
+  { id: "verify", label: "view.verify" },
+  { id: "catalogue", label: "view.catalogue" },
+  { id: "pdfTemplate", label: "view.pdfTemplate" },
+  { id: "settings", label: "view.settings" },
+];
+const DRAFT_AUTOSAVE_DELAY = 1000;
 
-const serializeReport = (report: Report): SerializedReport => {
-  return {
-    ...report,
-    date: report.date.toISOString(),
-    arrivalTime: report.arrivalTime?.toISOString() || null,
-    departureTime: report.departureTime?.toISOString() || null,
-    tasks: report.tasks.map((task) => ({
-      ...task,
-      startTime: task.startTime?.toISOString() || null,
-      endTime: task.endTime?.toISOString() || null,
-    })),
-  };
-};
-
-const deserializeReport = (report: SerializedReport): Report => {
-  return {
-    ...report,
-    date: dayjs(report.date),
-    arrivalTime: report.arrivalTime ? dayjs(report.arrivalTime) : null,
-    departureTime: report.departureTime ? dayjs(report.departureTime) : null,
-    tasks: report.tasks.map((task: SerializedTask) => ({
-      ...task,
-      startTime: task.startTime ? dayjs(task.startTime) : null,
-      endTime: task.endTime ? dayjs(task.endTime) : null,
-    })),
-  };
+// In punch clock mode the times are stamped live, not taken from the profile
+const createNewReport = (profile: Profile | null, punchClock: boolean) => {
+  const fresh = createReportFromProfile(profile);
+  return punchClock ? clearClockTimes(fresh) : fresh;
 };
 
 export default function Home() {
-  const [report, setReport] = useState<Report>({
-    date: dayjs(),
-    firstName: "",
-    lastName: "",
-    arrivalTime: null,
-    departureTime: null,
-    tasks: [{ startTime: null, endTime: null, description: "", problems: "" }],
-    plannedTasks: "",
-  });
+  const { locale, reportLocale, t } = useI18n();
+  const [report, setReport] = useState<Report>(createEmptyReport);
+  const [view, setView] = useState<View>("report");
+  const [profile, setProfile] = useState<TeamMember | null>(null);
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [catalogue, setCatalogue] = useState<CatalogueEntry[]>([]);
+  const [templates, setTemplates] = useState<DayTemplate[]>([]);
+  const [selectedTemplateId, setSelectedTemplateId] = useState("");
+  const [lastSyncAt, setLastSyncAt] = useState<string | null>(null);
+  const [pdfTemplate, setPdfTemplate] = useState<PdfTemplate>(
+    createDefaultPdfTemplate
+  );
+  // New version of the app installed and waiting for the user's go-ahead
+  const [waitingWorker, setWaitingWorker] = useState<ServiceWorker | null>(
+    null
+  );
 
   const [error, setError] = useState<string | null>(null);
+  const [punchClockMode, setPunchClockMode] = usePunchClockMode(setError);
+  // Field errors are only shown once the user has tried to save
+  const [showValidation, setShowValidation] = useState(false);
+  const issues = useMemo(() => validateReport(report, t), [report, t]);
   const [pastReports, setPastReports] = useState<Report[]>([]);
-  const [searchDate, setSearchDate] = useState<Dayjs | null>(null);
+  const [workCalendar, setWorkCalendar] = useWorkCalendar();
+  const [reminder, setReminder] = useReminder(
+    workCalendar,
+    pastReports,
+    profile
+  );
+  // Read out by screen readers after actions that only move things around
+  const [announcement, setAnnouncement] = useState("");
+  const { addTaskButtonRef, focusTask, focusTaskAfterUpdate } = useTaskFocus(
+    report.tasks
+  );
+  const draggedTask = useRef<number | null>(null);
+  const [deletedReport, setDeletedReport] = useState<SerializedReport | null>(
+    null
+  );
+  const undoTimeout = useRef<ReturnType<typeof setTimeout>>();
+  const [pendingDraft, setPendingDraft] = useState<Draft | null>(null);
+  const [draftChecked, setDraftChecked] = useState(false);
+  const reportRef = useRef(report);
+  reportRef.current = report;
+  // Serialized copy of the report as last stored or pre-filled, to skip
+  // drafting it again
+  const savedSnapshot = useRef<string | null>(null);
   const [isDarkMode, setIsDarkMode] = useState(() => {
     if (typeof window !== "undefined") {
       return window.matchMedia("(prefers-color-scheme: dark)").matches;
@@ -117,87 +186,209 @@ export default function Home() {
   });
 
   useEffect(() => {
-    if (typeof window !== "undefined" && "serviceWorker" in navigator) {
-      window.addEventListener("load", async () => {
-        try {
-          // Get the current hostname
-          const hostname = window.location.hostname;
-          // Determine the correct protocol (http or https)
-          const protocol = window.location.protocol;
-          // Construct the full URL for the service worker
-          const swUrl = `${protocol}//${hostname}${
-            window.location.port ? `:${window.location.port}` : ""
-          }/service-worker.js`;
-
-          const registration = await navigator.serviceWorker.register(swUrl, {
-            scope: "/",
-          });
-
-          // Check for updates immediately
-          registration.update();
-
-          // Handle updates
-          registration.addEventListener("updatefound", () => {
-            const newWorker = registration.installing;
-            if (newWorker) {
-              newWorker.addEventListener("statechange", () => {
-                if (
-                  newWorker.state === "installed" &&
-                  navigator.serviceWorker.controller
-                ) {
-                  // New service worker is installed and ready to take over
-                  if (
-                    window.confirm(
-                      "New version available! Would you like to update?"
-                    )
-                  ) {
-                    newWorker.postMessage({ type: "SKIP_WAITING" });
-                    window.location.reload();
-                  }
-                }
-              });
-            }
-          });
-
-          console.log(
-            "ServiceWorker registration successful with scope:",
-            registration.scope
-          );
-        } catch (err) {
-          console.error("ServiceWorker registration failed:", err);
+    registerServiceWorker(setWaitingWorker).catch((error) =>
+      console.error("ServiceWorker registration failed:", error)
+    );
+  }, []);
+
+  const loadReports = useCallback(async () => {
+    try {
+      const reports = await getAllReports();
+      setPastReports(reports.map(deserializeReport));
+    } catch (error) {
+      console.error("Error loading reports:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadReports();
+  }, [loadReports]);
+
+  useAttachmentCleanup();
+
+  // Pushes queued changes and pulls the team's reports. Failures are only
+  // logged: the queue is kept and replayed once the connection is back.
+  const runSync = useCallback(async () => {
+    try {
+      const result = await syncReports();
+      setLastSyncAt(new Date().toISOString());
+      if (!result.pushed && !result.pulled) return true;
+
+      const reports = await getAllReports();
+      setPastReports(reports.map(deserializeReport));
+      // The open report takes the revision it was just pushed as, unless it
+      // was changed elsewhere meanwhile, in which case saving raises a conflict
+      const current = reportRef.current;
+      const stored = reports.find((r) => current.uid && r.uid === current.uid);
+      if (
+        stored &&
+        stored.revision !== current.revision &&
+        stored.updatedAt === current.updatedAt
+      ) {
+        const adopted = { ...current, revision: stored.revision };
+        if (
+          savedSnapshot.current === JSON.stringify(serializeReport(current))
+        ) {
+          savedSnapshot.current = JSON.stringify(serializeReport(adopted));
         }
-      });
+        setReport(adopted);
+      }
+      return true;
+    } catch (error) {
+      console.error("Error syncing reports:", error);
+      requestBackgroundSync().catch((err) =>
+        console.error("Error registering background sync:", err)
+      );
+      return false;
+    }
+  }, []);
+
+  useEffect(() => {
+    runSync();
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type === "SYNC_REPORTS") runSync();
+    };
+    window.addEventListener("online", runSync);
+    navigator.serviceWorker?.addEventListener("message", handleMessage);
+    return () => {
+      window.removeEventListener("online", runSync);
+      navigator.serviceWorker?.removeEventListener("message", handleMessage);
+    };
+  }, [runSync]);
+
+  const syncNow = async () => {
+    if (!(await runSync())) {
+      setError(t("app.syncFailed"));
+    }
+  };
 
-      // Handle controller change
-      navigator.serviceWorker.addEventListener("controllerchange", () => {
-        console.log("New service worker activated");
+  const loadCatalogue = useCallback(async () => {
+    try {
+      const [storedCategories, storedCatalogue, storedTemplates] =
+        await Promise.all([getCategories(), getCatalogue(), getTemplates()]);
+      setCategories(
+        storedCategories.sort((a, b) => a.name.localeCompare(b.name))
+      );
+      setCatalogue(
+        storedCatalogue.sort((a, b) =>
+          a.description.localeCompare(b.description)
+        )
+      );
+      setTemplates(storedTemplates);
+    } catch (error) {
+      console.error("Error loading catalogue:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadCatalogue();
+  }, [loadCatalogue]);
+
+  useEffect(() => {
+    getPdfTemplate()
+      .then(setPdfTemplate)
+      .catch((error) => console.error("Error loading PDF template:", error));
+  }, []);
+
+  const descriptionSuggestions = useMemo(
+    () => getDescriptionSuggestions(catalogue, pastReports),
+    [catalogue, pastReports]
+  );
+
+  const loadProfile = useCallback(async () => {
+    try {
+      const [stored = null, punchClock] = await Promise.all([
+        getProfile(),
+        getSetting<boolean>(PUNCH_CLOCK_SETTING),
+      ]);
+      setProfile(stored);
+      // Pre-fill the form unless the user already started typing
+      setReport((prev) => {
+        if (!stored || prev.id !== undefined || !isReportBlank(prev)) {
+          return prev;
+        }
+        const prefilled = createNewReport(stored, !!punchClock);
+        savedSnapshot.current = JSON.stringify(serializeReport(prefilled));
+        return prefilled;
       });
+    } catch (error) {
+      console.error("Error loading profile:", error);
     }
   }, []);
 
   useEffect(() => {
-    const loadReports = async () => {
-      try {
-        const db = await initDB();
-        const transaction = (db as IDBDatabase).transaction(
-          STORE_NAME,
-          "readonly"
-        );
-        const store = transaction.objectStore(STORE_NAME);
-        const request = store.getAll();
+    loadProfile();
+  }, [loadProfile]);
 
-        request.onsuccess = () => {
-          const reports = request.result.map(deserializeReport);
-          setPastReports(reports);
-        };
+  const loadMembers = useCallback(async () => {
+    try {
+      setMembers(await getMembers());
+    } catch (error) {
+      console.error("Error loading team:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadMembers();
+  }, [loadMembers]);
+
+  const isDraftWorthy = (current: Report) =>
+    !isReportBlank(current) &&
+    JSON.stringify(serializeReport(current)) !== savedSnapshot.current;
+
+  useEffect(() => {
+    const loadDraft = async () => {
+      try {
+        const [draft, punchClock] = await Promise.all([
+          getDraft(),
+          getSetting<boolean>(PUNCH_CLOCK_SETTING),
+        ]);
+        // A day being clocked resumes as is, the timer must keep running
+        if (draft && punchClock) {
+          setReport(deserializeReport(draft.report));
+        } else if (draft) {
+          setPendingDraft(draft);
+        }
       } catch (error) {
-        console.error("Error loading reports:", error);
+        console.error("Error loading draft:", error);
+      } finally {
+        setDraftChecked(true);
       }
     };
 
-    loadReports();
+    loadDraft();
   }, []);
 
+  useEffect(() => {
+    // Don't overwrite a stored draft before the user has decided about it
+    if (!draftChecked || pendingDraft || !isDraftWorthy(report)) return;
+
+    const timeout = setTimeout(() => {
+      saveDraft(serializeReport(report)).catch((error) =>
+        console.error("Error saving draft:", error)
+      );
+    }, DRAFT_AUTOSAVE_DELAY);
+    return () => clearTimeout(timeout);
+  }, [report, draftChecked, pendingDraft]);
+
+  useEffect(() => {
+    if (!draftChecked) return;
+
+    const handleVisibilityChange = () => {
+      if (
+        document.visibilityState === "hidden" &&
+        isDraftWorthy(reportRef.current)
+      ) {
+        saveDraft(serializeReport(reportRef.current)).catch((error) =>
+          console.error("Error saving draft:", error)
+        );
+      }
+    };
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    return () =>
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+  }, [draftChecked]);
+
   useEffect(() => {
     const mediaQuery = window.matchMedia("(prefers-color-scheme: dark)");
     const handleChange = (e: MediaQueryListEvent) => setIsDarkMode(e.matches);
@@ -205,27 +396,133 @@ export default function Home() {
     return () => mediaQuery.removeEventListener("change", handleChange);
   }, []);
 
+  useEffect(() => () => clearTimeout(undoTimeout.current), []);
+
+  const applyUpdate = async () => {
+    if (!waitingWorker) return;
+    // Keep the form content across the reload
+    if (isDraftWorthy(reportRef.current)) {
+      try {
+        await saveDraft(serializeReport(reportRef.current));
+      } catch (error) {
+        console.error("Error saving draft:", error);
+      }
+    }
+    activateUpdate(waitingWorker);
+  };
+
+  // The new task starts when the previous one ended, which saves typing the
+  // time again
   const addTask = () => {
+    const index = report.tasks.length;
     setReport((prev) => ({
       ...prev,
       tasks: [
         ...prev.tasks,
-        { startTime: null, endTime: null, description: "", problems: "" },
+        {
+          ...createEmptyTask(),
+          startTime: prev.tasks[prev.tasks.length - 1]?.endTime ?? null,
+        },
       ],
     }));
+    focusTaskAfterUpdate(index);
+    setAnnouncement(t("report.taskAdded", { index: index + 1 }));
+  };
+
+  const copyTask = (index: number) => {
+    if (!report.tasks[index]) return;
+    setReport((prev) => duplicateTask(prev, index));
+    focusTaskAfterUpdate(index + 1);
+    setAnnouncement(t("report.taskDuplicated", { index: index + 1 }));
+  };
+
+  const reorderTask = (from: number, to: number, control?: string) => {
+    if (from === to || to < 0 || to >= report.tasks.length) return;
+    setReport((prev) => moveTask(prev, from, to));
+    focusTaskAfterUpdate(to, control);
+    setAnnouncement(t("report.taskMoved", { from: from + 1, to: to + 1 }));
+  };
+
+  // Picking a catalogue activity also fills in its category
+  const updateDescription = (index: number, description: string) => {
+    const entry = findCatalogueEntry(catalogue, description);
+    setReport((prev) => ({
+      ...prev,
+      tasks: prev.tasks.map((task, i) =>
+        i === index
+          ? {
+              ...task,
+              description,
+              category: task.category || entry?.category,
+            }
+          : task
+      ),
+    }));
+  };
+
+  const togglePunchClock = () => {
+    const enabled = !punchClockMode;
+    // Drop the usual times pre-filled from the profile on an untouched report
+    if (enabled && report.id === undefined && !isDraftWorthy(report)) {
+      const cleared = clearClockTimes(report);
+      savedSnapshot.current = JSON.stringify(serializeReport(cleared));
+      setReport(cleared);
+    }
+    setPunchClockMode(enabled);
+  };
+
+  // Each stamp is stored right away so a reload or a closed tab keeps the
+  // timer running
+  const punch = (update: (current: Report) => Report) => {
+    const next = update(reportRef.current);
+    reportRef.current = next;
+    setReport(next);
+    saveDraft(serializeReport(next)).catch((error) =>
+      console.error("Error saving draft:", error)
+    );
+  };
+
+  const insertTemplate = () => {
+    const template = templates.find((t) => String(t.id) === selectedTemplateId);
+    if (!template) return;
+    setReport((prev) => applyTemplate(prev, template));
   };
 
+  const saveTasksAsTemplate = async () => {
+    const name = window.prompt(t("app.templateName"));
+    if (!name?.trim()) return;
+
+    const template = createTemplateFromTasks(name.trim(), report.tasks);
+    if (!template.tasks.length) {
+      setError(t("app.templateEmpty"));
+      return;
+    }
+
+    try {
+      const saved = await saveTemplate(template);
+      setTemplates((prev) => [...prev, saved]);
+      setSelectedTemplateId(String(saved.id));
+    } catch (error) {
+      console.error("Error saving template:", error);
+      setError(t("app.templateFailed"));
+    }
+  };
+
+  // Focus goes to the task taking its place, or to the add button when no
+  // task is left
   const removeTask = (index: number) => {
     setReport((prev) => ({
       ...prev,
       tasks: prev.tasks.filter((_, i) => i !== index),
     }));
+    focusTaskAfterUpdate(Math.min(index, report.tasks.length - 2));
+    setAnnouncement(t("report.taskRemoved", { index: index + 1 }));
   };
 
   const updateTask = (
     index: number,
     field: keyof Task,
-    value: string | Dayjs | null
+    value: string | string[] | Dayjs | null | undefined
   ) => {
     setReport((prev) => ({
       ...prev,
@@ -235,178 +532,323 @@ export default function Home() {
     }));
   };
 
-  const validateReport = (): boolean => {
-    if (!report.firstName || !report.lastName) {
-      setError("Veuillez remplir votre nom et prénom");
+  const checkReport = (): boolean => {
+    setShowValidation(true);
+    if (hasBlockingErrors(issues)) {
+      setError(t("app.reportInvalid"));
       return false;
     }
 
-    if (!report.arrivalTime || !report.departureTime) {
-      setError("Veuillez remplir les heures d'arrivée et de départ");
-      return false;
+    setError(null);
+    return true;
+  };
+
+  const fieldIssue = (path: string) =>
+    showValidation ? getFieldIssue(issues, path) : undefined;
+
+  const pickerSlotProps = (path: string) => {
+    const issue = fieldIssue(path);
+    return {
+      textField: {
+        error: issue?.severity === "error",
+        helperText: issue?.message,
+      },
+    };
+  };
+
+  const inputClassName = (path: string) =>
+    fieldIssue(path)?.severity === "error"
+      ? "border-red-500 dark:border-red-500"
+      : "dark:border-gray-600";
+
+  // Ids may not hold the brackets and dots of a field path
+  const messageId = (path: string) =>
+    `${path.replace(/[^\w-]+/g, "-")}-message`;
+
+  // Ties a plain input to the message rendered under it
+  const fieldAria = (path: string) => {
+    const issue = fieldIssue(path);
+    return {
+      "aria-invalid": issue?.severity === "error" || undefined,
+      "aria-describedby": issue ? messageId(path) : undefined,
+    };
+  };
+
+  const renderFieldMessage = (path: string) => {
+    const issue = fieldIssue(path);
+    if (!issue) return null;
+    return (
+      <p
+        id={messageId(path)}
+        className={`mt-1 text-sm ${
+          issue.severity === "error"
+            ? "text-red-600 dark:text-red-400"
+            : "text-yellow-700 dark:text-yellow-300"
+        }`}
+      >
+        {issue.message}
+      </p>
+    );
+  };
+
+  const handleSave = async () => {
+    if (report.finalization || !checkReport()) return;
+
+    try {
+      // Any change made after a review calls for a new one
+      const saved = deserializeReport(
+        await saveReport(serializeReport({ ...report, review: undefined }))
+      );
+      savedSnapshot.current = JSON.stringify(serializeReport(saved));
+      setReport(saved);
+      setAnnouncement(t("report.savedAnnouncement"));
+      // Saving the detached form stored the deleted report again
+      if (deletedReport && deletedReport.uid === saved.uid) {
+        clearTimeout(undoTimeout.current);
+        setDeletedReport(null);
+      }
+      await clearDraft();
+      setPastReports((prev) =>
+        prev.some((r) => r.id === saved.id)
+          ? prev.map((r) => (r.id === saved.id ? saved : r))
+          : [...prev, saved]
+      );
+      runSync();
+    } catch (error) {
+      console.error("Error saving report:", error);
+      setError(
+        error instanceof FinalizedReportError
+          ? t("app.reportFinalized")
+          : t("app.saveFailed")
+      );
     }
+  };
 
-    if (
-      report.tasks.some(
-        (task) => !task.startTime || !task.endTime || !task.description
-      )
-    ) {
-      setError("Veuillez remplir toutes les informations de la tâche");
-      return false;
+  const finalization = useFinalization(report, {
+    isStored: () =>
+      JSON.stringify(serializeReport(report)) === savedSnapshot.current,
+    check: checkReport,
+    onFinalized: (finalized) => {
+      savedSnapshot.current = JSON.stringify(serializeReport(finalized));
+      setReport(finalized);
+      setPastReports((prev) =>
+        prev.map((r) => (r.id === finalized.id ? finalized : r))
+      );
+      runSync();
+    },
+    onError: setError,
+  });
+
+  const downloadPdf = async (target: Report) => {
+    try {
+      renderReportPdf(
+        target,
+        profile,
+        pdfTemplate,
+        reportLocale,
+        await loadAnnex(target)
+      ).save(getReportPdfFileName(target));
+    } catch (error) {
+      console.error("Error generating PDF:", error);
+      setError(t("app.pdfFailed"));
     }
+  };
+
+  const handleDownload = () => {
+    if (!checkReport()) return;
+    downloadPdf(report);
+  };
+
+  const runShortcut = (action: ShortcutAction) => {
+    const focused = document.activeElement?.closest("[data-task-index]");
+    const current = focused
+      ? Number(focused.getAttribute("data-task-index"))
+      : -1;
+    const last = report.tasks.length - 1;
 
+    if (action === "save") {
+      handleSave();
+    } else if (action === "nextTask") {
+      focusTask(Math.min(current + 1, last));
+    } else if (action === "previousTask") {
+      focusTask(current === -1 ? last : Math.max(current - 1, 0));
+    } else if (report.finalization || finalization.signing) {
+      // The other shortcuts change the tasks of a report that is read-only
+    } else if (action === "newTask") {
+      addTask();
+    } else if (action === "duplicateTask") {
+      copyTask(current === -1 ? last : current);
+    } else if (current !== -1) {
+      reorderTask(current, action === "moveTaskUp" ? current - 1 : current + 1);
+    }
+  };
+  useShortcuts(view === "report", runShortcut);
+
+  const loadReport = (target: Report) => {
+    savedSnapshot.current = JSON.stringify(serializeReport(target));
+    setReport(target);
     setError(null);
-    return true;
+    setShowValidation(false);
   };
 
-  const generatePDF = async () => {
-    if (!validateReport()) return;
-
-    // Créer le PDF en mode paysage
-    const doc = new jsPDF({
-      orientation: "landscape",
-      unit: "mm",
-      format: "a4",
-    });
-
-    // Initialiser la position de départ
-    let yPos = 20;
-
-    // Ajouter les informations d'en-tête
-    doc.setFontSize(16);
-    doc.text("Rapport de travail journalier", 20, yPos);
-    yPos += 10;
-
-    doc.setFontSize(12);
-    doc.text(`Nom: ${report.lastName} ${report.firstName}`, 20, yPos);
-    yPos += 7;
-    doc.text(`Date: ${report.date.format("DD/MM/YYYY")}`, 20, yPos);
-    yPos += 15;
-
-    // Définir la structure du tableau
-    const tableStartY = yPos;
-    const pageWidth = doc.internal.pageSize.getWidth();
-    const leftMargin = 20; // Marge à gauche
-    const rightMargin = 20; // Marge à droite
-    const usableWidth = pageWidth - leftMargin - rightMargin; // Largeur utilisable sans les marges
-
-    // Définir les largeurs des colonnes (en pourcentage de la largeur totale)
-    const col1Width = usableWidth * 0.15; // Première colonne 15%
-    const col2Width = usableWidth * 0.15; // Deuxième colonne 20%
-    const col3Width = usableWidth * 0.4; // Troisième colonne 32.5%
-    const col4Width = usableWidth * 0.3; // Quatrième colonne 32.5%
-
-    // Dessiner les en-têtes du tableau
-    doc.setFillColor(240, 240, 240);
-    doc.rect(leftMargin, yPos, pageWidth - leftMargin - rightMargin, 10, "F");
-    doc.setFont(undefined, "bold");
-
-    doc.text("Heure d'arrivée", leftMargin + 5, yPos + 7); // Première colonne
-    doc.text("Heure de départ", leftMargin + col1Width + 5, yPos + 7); // Deuxième colonne
-    doc.text(
-      "Tâches effectuées",
-      leftMargin + col1Width + col2Width + 5,
-      yPos + 7
-    ); // Troisième colonne
-    doc.text(
-      "Travaux prévus",
-      leftMargin + col1Width + col2Width + col3Width + 5,
-      yPos + 7
-    ); // Quatrième colonne
-
-    // Réinitialiser la police
-    doc.setFont(undefined, "normal");
-    yPos += 10;
-
-    // Calculer la hauteur du contenu
-    const tasksText = report.tasks
-      .map(
-        (task) =>
-          `${task.startTime?.format("HH:mm")} - ${task.endTime?.format(
-            "HH:mm"
-          )}: ${task.description}` +
-          (task.problems ? `\nProblèmes: ${task.problems}` : "")
-      )
-      .join("\n\n");
+  const handleImported = () => {
+    loadReports();
+    runSync();
+    loadProfile();
+    loadMembers();
+  };
 
-    // Séparer le texte pour qu'il tienne dans les colonnes
-    const splitTasks = doc.splitTextToSize(tasksText, col3Width - 10);
-    const splitPlannedTasks = doc.splitTextToSize(
-      report.plannedTasks,
-      col4Width - 10
-    );
+  const handleProfileSaved = () => {
+    loadProfile();
+    loadMembers();
+  };
 
-    // Calculer la hauteur maximale nécessaire pour le contenu
-    const contentHeight = Math.max(
-      doc.getTextDimensions(splitTasks).h,
-      doc.getTextDimensions(splitPlannedTasks).h
-    );
+  // Keeps the current work as the previous member's draft, then opens the
+  // next member's own draft if there is one
+  const switchMember = async (member: TeamMember) => {
+    if (member.id === undefined || member.id === profile?.id) return;
 
-    // Dessiner les cellules du tableau
-    doc.rect(
-      leftMargin,
-      tableStartY,
-      pageWidth - leftMargin - rightMargin,
-      contentHeight + 20
-    );
-    doc.line(
-      leftMargin + col1Width,
-      tableStartY,
-      leftMargin + col1Width,
-      tableStartY + contentHeight + 20
-    );
-    doc.line(
-      leftMargin + col1Width + col2Width,
-      tableStartY,
-      leftMargin + col1Width + col2Width,
-      tableStartY + contentHeight + 20
+    try {
+      if (isDraftWorthy(reportRef.current)) {
+        await saveDraft(serializeReport(reportRef.current));
+      }
+      await setActiveMember(member.id);
+      const fresh = createNewReport(member, punchClockMode);
+      savedSnapshot.current = JSON.stringify(serializeReport(fresh));
+      setProfile(member);
+      setReport(fresh);
+      setError(null);
+      setShowValidation(false);
+      setPendingDraft((await getDraft()) || null);
+      if (!member.manager && view === "team") setView("report");
+    } catch (error) {
+      console.error("Error switching member:", error);
+      setError(t("app.switchFailed"));
+    }
+  };
+
+  const handleReviewed = (reviewed: Report) => {
+    setPastReports((prev) =>
+      prev.map((r) => (r.id === reviewed.id ? reviewed : r))
     );
-    doc.line(
-      leftMargin + col1Width + col2Width + col3Width,
-      tableStartY,
-      leftMargin + col1Width + col2Width + col3Width,
-      tableStartY + contentHeight + 20
+    runSync();
+  };
+
+  // From the calendar: a day without a report gets a new one, unless the
+  // unsaved report or the pending draft is already for that day
+  const startReportOn = (date: Dayjs) => {
+    if (pendingDraft && dayjs(pendingDraft.report.date).isSame(date, "day")) {
+      resumeDraft();
+    } else if (report.id !== undefined || !report.date.isSame(date, "day")) {
+      if (
+        isDraftWorthy(report) &&
+        !window.confirm(t("calendar.confirmReplace"))
+      ) {
+        return;
+      }
+      const fresh = { ...createNewReport(profile, punchClockMode), date };
+      savedSnapshot.current = JSON.stringify(serializeReport(fresh));
+      setReport(fresh);
+      setError(null);
+      setShowValidation(false);
+    }
+    setView("report");
+  };
+
+  const startNewReport = () => {
+    const fresh = createNewReport(profile, punchClockMode);
+    savedSnapshot.current = JSON.stringify(serializeReport(fresh));
+    setReport(fresh);
+    setError(null);
+    setShowValidation(false);
+    clearDraft().catch((error) =>
+      console.error("Error clearing draft:", error)
     );
+  };
+
+  const resumeDraft = () => {
+    if (!pendingDraft) return;
+    setReport(deserializeReport(pendingDraft.report));
+    setPendingDraft(null);
+  };
+
+  const discardDraft = async () => {
+    setPendingDraft(null);
+    try {
+      await clearDraft();
+    } catch (error) {
+      console.error("Error clearing draft:", error);
+    }
+  };
 
-    // Ajouter le contenu dans les cellules du tableau
-    doc.text(
-      report.arrivalTime?.format("HH:mm") || "",
-      leftMargin + 5,
-      yPos + 7
-    ); // Heure d'arrivée
-    doc.text(
-      report.departureTime?.format("HH:mm") || "",
-      leftMargin + col1Width + 5,
-      yPos + 7
-    ); // Heure de départ
-    doc.text(splitTasks, leftMargin + col1Width + col2Width + 5, yPos + 7); // Tâches effectuées
-    doc.text(
-      splitPlannedTasks,
-      leftMargin + col1Width + col2Width + col3Width + 5,
-      yPos + 7
-    ); // Travaux prévus
+  const removeReport = async (target: Report) => {
+    if (target.id === undefined) return;
+    if (isFinalized(target)) {
+      setError(t("app.reportFinalized"));
+      return;
+    }
+    if (
+      !window.confirm(
+        t("app.confirmDelete", { date: formatDate(target.date, locale) })
+      )
+    ) {
+      return;
+    }
 
     try {
-      const db = await initDB();
-      const transaction = (db as IDBDatabase).transaction(
-        STORE_NAME,
-        "readwrite"
+      await deleteReport(target.id);
+      setPastReports((prev) => prev.filter((r) => r.id !== target.id));
+      if (report.id === target.id) {
+        setReport((prev) => ({ ...prev, id: undefined }));
+      }
+      clearTimeout(undoTimeout.current);
+      setDeletedReport(serializeReport(target));
+      undoTimeout.current = setTimeout(
+        () => setDeletedReport(null),
+        UNDO_DELAY
       );
-      const store = transaction.objectStore(STORE_NAME);
-      const reportToSave = { ...report, id: Date.now() };
-      const serializedReport = serializeReport(reportToSave);
-      await store.add(serializedReport);
-      setPastReports((prev) => [...prev, deserializeReport(serializedReport)]);
+      runSync();
     } catch (error) {
-      console.error("Error saving report:", error);
-      setError("Failed to save report offline");
+      console.error("Error deleting report:", error);
+      setError(
+        error instanceof FinalizedReportError
+          ? t("app.reportFinalized")
+          : t("app.deleteFailed")
+      );
     }
+  };
 
-    doc.save(`report-${report.date.format("YYYY-MM-DD")}.pdf`);
+  const undoDelete = async () => {
+    if (!deletedReport) return;
+    clearTimeout(undoTimeout.current);
+
+    try {
+      await restoreReport(deletedReport);
+      const restored = deserializeReport(deletedReport);
+      setPastReports((prev) => [...prev, restored]);
+      // The form was detached from the record when it was deleted; give it
+      // its id back so that the next save updates the record again
+      if (
+        deletedReport.uid !== undefined &&
+        report.id === undefined &&
+        report.uid === deletedReport.uid
+      ) {
+        setReport((prev) => ({
+          ...prev,
+          id: deletedReport.id,
+          createdAt: deletedReport.createdAt,
+        }));
+      }
+      setDeletedReport(null);
+      runSync();
+    } catch (error) {
+      console.error("Error restoring report:", error);
+      setError(t("app.restoreFailed"));
+    }
   };
 
   return (
-    <LocalizationProvider dateAdapter={AdapterDayjs}>
+    <>
       <div
         className={`min-h-screen ${
           isDarkMode ? "dark bg-gray-900" : "bg-gray-50"
@@ -415,189 +857,796 @@ export default function Home() {
         <div className="container mx-auto max-w-2xl px-4 py-8">
           <div className="flex justify-between items-center mb-6">
             <h1 className="text-2xl font-bold text-black dark:text-white">
-              Rapport de travail journalier
+              {t("app.title")}
             </h1>
-            <button
-              onClick={() => setIsDarkMode(!isDarkMode)}
-              className="p-2 rounded-lg bg-gray-50 dark:bg-gray-700 dark:text-white"
-            >
-              {isDarkMode ? "☀️" : "🌙"}
-            </button>
+            <div className="flex items-center gap-2">
+              {members.length > 1 && (
+                <select
+                  aria-label={t("app.activeMember")}
+                  value={profile?.id ?? ""}
+                  onChange={(e) => {
+                    const member = members.find(
+                      (m) => String(m.id) === e.target.value
+                    );
+                    if (member) switchMember(member);
+                  }}
+                  className="p-2 border rounded dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                >
+                  {profile?.id === undefined && (
+                    <option value="">{t("app.whoAmI")}</option>
+                  )}
+                  {members.map((member) => (
+                    <option key={member.id} value={member.id}>
+                      {formatPerson(member)}
+                    </option>
+                  ))}
+                </select>
+              )}
+              <button
+                onClick={() => setIsDarkMode(!isDarkMode)}
+                aria-label={t("app.toggleDarkMode")}
+                className="p-2 rounded-lg bg-gray-50 dark:bg-gray-700 dark:text-white"
+              >
+                {isDarkMode ? "☀️" : "🌙"}
+              </button>
+            </div>
           </div>
 
-          {error && (
-            <div className="bg-red-100 dark:bg-red-900 border border-red-400 dark:border-red-700 text-red-700 dark:text-red-100 px-4 py-3 rounded mb-4">
-              {error}
-            </div>
+          <nav className="flex flex-wrap gap-2 mb-6">
+            {VIEWS.filter(({ id }) => id !== "team" || profile?.manager).map(
+              ({ id, label }) => (
+                <button
+                  key={id}
+                  onClick={() => setView(id)}
+                  aria-current={view === id ? "page" : undefined}
+                  className={`px-3 py-1 rounded ${
+                    view === id
+                      ? "bg-blue-600 text-white dark:bg-blue-700"
+                      : "text-blue-600 hover:bg-blue-50 dark:text-blue-400 dark:hover:bg-gray-700"
+                  }`}
+                >
+                  {t(label)}
+                </button>
+              )
+            )}
+          </nav>
+
+          {/* Live regions stay mounted so that screen readers notice what
+              gets written into them */}
+          <div aria-live="assertive" aria-atomic="true">
+            {error && (
+              <div
+                role="alert"
+                className="bg-red-100 dark:bg-red-900 border border-red-400 dark:border-red-700 text-red-700 dark:text-red-100 px-4 py-3 rounded mb-4"
+              >
+                {error}
+              </div>
+            )}
+          </div>
+          <div role="status" aria-live="polite" className="sr-only">
+            {announcement}
+          </div>
+
+          {waitingWorker && (
+            <UpdateBanner
+              onUpdate={applyUpdate}
+              onDismiss={() => setWaitingWorker(null)}
+            />
           )}
 
-          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 mb-6">
-            <div className="grid grid-cols-2 gap-4 mb-6">
-              <input
-                type="text"
-                placeholder="Prénom"
-                value={report.firstName}
-                onChange={(e) =>
-                  setReport((prev) => ({ ...prev, firstName: e.target.value }))
-                }
-                className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600 dark:text-white"
-              />
-              <input
-                type="text"
-                placeholder="Nom"
-                value={report.lastName}
-                onChange={(e) =>
-                  setReport((prev) => ({ ...prev, lastName: e.target.value }))
-                }
-                className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600 dark:text-white"
-              />
+          {pendingDraft && (
+            <div className="flex justify-between items-center gap-4 bg-yellow-100 dark:bg-yellow-900 border border-yellow-400 dark:border-yellow-700 text-yellow-800 dark:text-yellow-100 px-4 py-3 rounded mb-4">
+              <span>
+                {t("app.draftFound", {
+                  date: formatDate(dayjs(pendingDraft.report.date), locale),
+                  time: dayjs(pendingDraft.savedAt).format("HH:mm"),
+                })}
+              </span>
+              <div className="flex gap-4 shrink-0">
+                <button
+                  onClick={resumeDraft}
+                  className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+                >
+                  {t("app.resume")}
+                </button>
+                <button
+                  onClick={discardDraft}
+                  className="text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300"
+                >
+                  {t("app.ignore")}
+                </button>
+              </div>
             </div>
+          )}
 
-            <div className="mb-6">
-              <DatePicker
-                label="Date du rapport"
-                value={report.date}
-                onChange={(newValue) =>
-                  setReport((prev) => ({ ...prev, date: newValue || dayjs() }))
-                }
-                className="w-full"
-              />
+          {report.review && view === "report" && (
+            <div
+              className={`px-4 py-3 rounded mb-4 border ${
+                report.review.status === "validated"
+                  ? "bg-green-50 border-green-300 text-green-800 dark:bg-gray-800 dark:border-green-700 dark:text-green-200"
+                  : "bg-orange-50 border-orange-300 text-orange-800 dark:bg-gray-800 dark:border-orange-700 dark:text-orange-200"
+              }`}
+            >
+              <p>
+                {t("app.reviewedBy", {
+                  status: t(`reviewStatus.${report.review.status}`),
+                  reviewer: report.review.reviewer,
+                  date: formatDate(dayjs(report.review.reviewedAt), locale),
+                })}
+              </p>
+              {report.review.comment && (
+                <p className="whitespace-pre-line">{report.review.comment}</p>
+              )}
             </div>
+          )}
 
-            <div className="grid grid-cols-2 gap-4 mb-6">
-              <TimePicker
-                label="Heure d'arrivée"
-                value={report.arrivalTime}
-                onChange={(newValue) =>
-                  setReport((prev) => ({ ...prev, arrivalTime: newValue }))
-                }
-                ampm={false}
-                format="HH:mm"
-              />
-              <TimePicker
-                label="Heure de départ"
-                value={report.departureTime}
-                onChange={(newValue) =>
-                  setReport((prev) => ({ ...prev, departureTime: newValue }))
-                }
-                ampm={false}
-                format="HH:mm"
-              />
+          <CarryOverBanner
+            report={report}
+            hidden={view !== "report"}
+            onAccept={(items) =>
+              setReport((prev) => applyPlannedItems(prev, items))
+            }
+          />
+
+          {deletedReport && (
+            <div className="flex justify-between items-center bg-gray-100 dark:bg-gray-700 dark:text-white px-4 py-3 rounded mb-4">
+              <span>
+                {t("app.reportDeleted", {
+                  date: formatDate(dayjs(deletedReport.date), locale),
+                })}
+              </span>
+              <button
+                onClick={undoDelete}
+                className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+              >
+                {t("common.cancel")}
+              </button>
             </div>
+          )}
+
+          {view === "report" && (
+            <>
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 mb-6">
+                <div className="flex justify-between items-center mb-6">
+                  <span className="text-sm text-gray-600 dark:text-gray-300">
+                    {report.id !== undefined
+                      ? t("report.editing", {
+                          date: formatDate(report.date, locale),
+                        })
+                      : t("report.new")}
+                  </span>
+                  <div className="flex gap-4 items-center">
+                    <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+                      <input
+                        type="checkbox"
+                        checked={punchClockMode}
+                        onChange={togglePunchClock}
+                      />
+                      {t("report.punchClock")}
+                    </label>
+                    {report.id !== undefined && (
+                      <button
+                        onClick={startNewReport}
+                        className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+                      >
+                        {t("report.startNew")}
+                      </button>
+                    )}
+                  </div>
+                </div>
 
-            <h2 className="text-xl font-semibold mb-4 text-gray-900 dark:text-white">
-              Tâches effectuées
-            </h2>
+                {report.finalization && (
+                  <p className="mb-6 px-4 py-3 rounded border bg-green-50 border-green-300 text-green-800 dark:bg-gray-800 dark:border-green-700 dark:text-green-200 break-all">
+                    {t("finalize.locked", {
+                      date: formatDateTime(
+                        dayjs(report.finalization.finalizedAt),
+                        locale
+                      ),
+                      hash: report.finalization.hash,
+                    })}
+                  </p>
+                )}
 
-            <div className="space-y-6">
-              {report.tasks.map((task, index) => (
-                <div key={index} className="p-4 border rounded-lg">
-                  <div className="grid grid-cols-2 gap-4 mb-4">
+                {/* A finalized report is read-only, and so is one being signed */}
+                <fieldset
+                  disabled={!!report.finalization || finalization.signing}
+                  className="min-w-0"
+                >
+                  <div className="grid grid-cols-2 gap-4 mb-6">
+                    <div>
+                      <label
+                        htmlFor="firstName"
+                        className="block mb-1 text-sm text-gray-700 dark:text-gray-300"
+                      >
+                        {t("common.firstName")}
+                      </label>
+                      <input
+                        id="firstName"
+                        type="text"
+                        value={report.firstName}
+                        {...fieldAria("firstName")}
+                        onChange={(e) =>
+                          setReport((prev) => ({
+                            ...prev,
+                            firstName: e.target.value,
+                          }))
+                        }
+                        className={`w-full p-2 border rounded dark:bg-gray-700 dark:text-white ${inputClassName(
+                          "firstName"
+                        )}`}
+                      />
+                      {renderFieldMessage("firstName")}
+                    </div>
+                    <div>
+                      <label
+                        htmlFor="lastName"
+                        className="block mb-1 text-sm text-gray-700 dark:text-gray-300"
+                      >
+                        {t("common.lastName")}
+                      </label>
+                      <input
+                        id="lastName"
+                        type="text"
+                        value={report.lastName}
+                        {...fieldAria("lastName")}
+                        onChange={(e) =>
+                          setReport((prev) => ({
+                            ...prev,
+                            lastName: e.target.value,
+                          }))
+                        }
+                        className={`w-full p-2 border rounded dark:bg-gray-700 dark:text-white ${inputClassName(
+                          "lastName"
+                        )}`}
+                      />
+                      {renderFieldMessage("lastName")}
+                    </div>
+                  </div>
+
+                  <div className="mb-6">
+                    <DatePicker
+                      label={t("report.date")}
+                      value={report.date}
+                      onChange={(newValue) =>
+                        setReport((prev) => ({
+                          ...prev,
+                          date: newValue || dayjs(),
+                        }))
+                      }
+                      className="w-full"
+                    />
+                  </div>
+
+                  {punchClockMode && (
+                    <PunchClock
+                      report={report}
+                      suggestionsListId="task-suggestions"
+                      onPunch={punch}
+                    />
+                  )}
+
+                  <div className="grid grid-cols-2 gap-4 mb-6">
                     <TimePicker
-                      label="Heure de début"
-                      value={task.startTime}
+                      label={t("report.arrival")}
+                      value={report.arrivalTime}
                       onChange={(newValue) =>
-                        updateTask(index, "startTime", newValue)
+                        setReport((prev) => ({
+                          ...prev,
+                          arrivalTime: newValue,
+                        }))
                       }
                       ampm={false}
                       format="HH:mm"
+                      slotProps={pickerSlotProps("arrivalTime")}
                     />
                     <TimePicker
-                      label="Heure de fin"
-                      value={task.endTime}
+                      label={t("report.departure")}
+                      value={report.departureTime}
                       onChange={(newValue) =>
-                        updateTask(index, "endTime", newValue)
+                        setReport((prev) => ({
+                          ...prev,
+                          departureTime: newValue,
+                        }))
                       }
                       ampm={false}
                       format="HH:mm"
+                      slotProps={pickerSlotProps("departureTime")}
                     />
                   </div>
-                  <input
-                    type="text"
-                    placeholder="Description de la tâche"
-                    value={task.description}
-                    onChange={(e) =>
-                      updateTask(index, "description", e.target.value)
-                    }
-                    className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600 dark:text-white dark:placeholder-gray-400"
-                  />
-                  <input
-                    type="text"
-                    placeholder="Problèmes (optionnel)"
-                    value={task.problems}
-                    onChange={(e) =>
-                      updateTask(index, "problems", e.target.value)
-                    }
-                    className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600 dark:text-white dark:placeholder-gray-400"
-                  />
+
+                  <h2 className="text-xl font-semibold mb-4 text-gray-900 dark:text-white">
+                    {t("report.tasks")}
+                  </h2>
+
+                  <div className="flex flex-wrap items-center gap-4 mb-4">
+                    <label htmlFor="day-template" className="sr-only">
+                      {t("report.dayTemplateLabel")}
+                    </label>
+                    <select
+                      id="day-template"
+                      value={selectedTemplateId}
+                      onChange={(e) => setSelectedTemplateId(e.target.value)}
+                      className="p-2 border rounded dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                    >
+                      <option value="">{t("report.dayTemplate")}</option>
+                      {templates.map((template) => (
+                        <option key={template.id} value={template.id}>
+                          {template.name}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={insertTemplate}
+                      disabled={!selectedTemplateId}
+                      className="text-blue-600 hover:text-blue-800 disabled:opacity-50 dark:text-blue-400 dark:hover:text-blue-300"
+                    >
+                      {t("report.insert")}
+                    </button>
+                    <button
+                      onClick={saveTasksAsTemplate}
+                      className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+                    >
+                      {t("report.saveAsTemplate")}
+                    </button>
+                  </div>
+
+                  <datalist id="task-suggestions">
+                    {descriptionSuggestions.map((suggestion) => (
+                      <option key={suggestion} value={suggestion} />
+                    ))}
+                  </datalist>
+
+                  <div className="space-y-6">
+                    {report.tasks.map((task, index) => (
+                      <fieldset
+                        key={task.id}
+                        data-task-index={index}
+                        onDragOver={(e) => {
+                          if (draggedTask.current !== null) e.preventDefault();
+                        }}
+                        onDrop={(e) => {
+                          e.preventDefault();
+                          if (draggedTask.current !== null) {
+                            reorderTask(draggedTask.current, index, "handle");
+                          }
+                          draggedTask.current = null;
+                        }}
+                        className="p-4 border rounded-lg min-w-0"
+                      >
+                        <legend className="px-1 text-sm text-gray-600 dark:text-gray-300">
+                          {t("report.taskLegend", { index: index + 1 })}
+                        </legend>
+                        <div className="flex flex-wrap items-center gap-2 mb-2">
+                          {task.plannedItem !== undefined && (
+                            <span className="px-2 py-0.5 text-xs rounded bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-100">
+                              {t("report.planned")}
+                            </span>
+                          )}
+                          <div className="flex gap-1 ml-auto text-gray-600 dark:text-gray-300">
+                            <button
+                              type="button"
+                              draggable
+                              data-task-control="handle"
+                              onDragStart={(e) => {
+                                draggedTask.current = index;
+                                e.dataTransfer.effectAllowed = "move";
+                                e.dataTransfer.setData(
+                                  "text/plain",
+                                  String(index)
+                                );
+                              }}
+                              onDragEnd={() => (draggedTask.current = null)}
+                              onKeyDown={(e) => {
+                                if (e.altKey || e.ctrlKey || e.metaKey) return;
+                                if (
+                                  e.key !== "ArrowUp" &&
+                                  e.key !== "ArrowDown"
+                                ) {
+                                  return;
+                                }
+                                e.preventDefault();
+                                reorderTask(
+                                  index,
+                                  e.key === "ArrowUp" ? index - 1 : index + 1,
+                                  "handle"
+                                );
+                              }}
+                              aria-label={t("report.dragHandle", {
+                                index: index + 1,
+                              })}
+                              className="px-2 cursor-move"
+                            >
+                              ⠿
+                            </button>
+                            <button
+                              type="button"
+                              data-task-control="moveUp"
+                              onClick={() =>
+                                reorderTask(index, index - 1, "moveUp")
+                              }
+                              disabled={index === 0}
+                              aria-label={t("report.moveUp", {
+                                index: index + 1,
+                              })}
+                              className="px-2 disabled:opacity-30"
+                            >
+                              ↑
+                            </button>
+                            <button
+                              type="button"
+                              data-task-control="moveDown"
+                              onClick={() =>
+                                reorderTask(index, index + 1, "moveDown")
+                              }
+                              disabled={index === report.tasks.length - 1}
+                              aria-label={t("report.moveDown", {
+                                index: index + 1,
+                              })}
+                              className="px-2 disabled:opacity-30"
+                            >
+                              ↓
+                            </button>
+                          </div>
+                        </div>
+                        <div className="grid grid-cols-2 gap-4 mb-4">
+                          <TimePicker
+                            label={t("report.taskStart")}
+                            value={task.startTime}
+                            onChange={(newValue) =>
+                              updateTask(index, "startTime", newValue)
+                            }
+                            ampm={false}
+                            format="HH:mm"
+                            slotProps={pickerSlotProps(
+                              taskPath(index, "startTime")
+                            )}
+                          />
+                          <TimePicker
+                            label={t("report.taskEnd")}
+                            value={task.endTime}
+                            onChange={(newValue) =>
+                              updateTask(index, "endTime", newValue)
+                            }
+                            ampm={false}
+                            format="HH:mm"
+                            slotProps={pickerSlotProps(
+                              taskPath(index, "endTime")
+                            )}
+                          />
+                        </div>
+                        <label
+                          htmlFor={`task-${index}-description`}
+                          className="sr-only"
+                        >
+                          {t("report.taskDescription")}
+                        </label>
+                        <input
+                          id={`task-${index}-description`}
+                          type="text"
+                          placeholder={t("report.taskDescription")}
+                          list="task-suggestions"
+                          value={task.description}
+                          {...fieldAria(taskPath(index, "description"))}
+                          onChange={(e) =>
+                            updateDescription(index, e.target.value)
+                          }
+                          className={`w-full p-2 border rounded dark:bg-gray-700 dark:text-white dark:placeholder-gray-400 ${inputClassName(
+                            taskPath(index, "description")
+                          )}`}
+                        />
+                        {renderFieldMessage(taskPath(index, "description"))}
+                        <label
+                          htmlFor={`task-${index}-category`}
+                          className="sr-only"
+                        >
+                          {t("report.taskCategory")}
+                        </label>
+                        <select
+                          id={`task-${index}-category`}
+                          value={task.category || ""}
+                          onChange={(e) =>
+                            updateTask(
+                              index,
+                              "category",
+                              e.target.value || undefined
+                            )
+                          }
+                          className="w-full mt-2 p-2 border rounded dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                        >
+                          <option value="">
+                            {t("category.uncategorized")}
+                          </option>
+                          {categories.map((category) => (
+                            <option key={category.id} value={category.name}>
+                              {category.name}
+                            </option>
+                          ))}
+                          {task.category &&
+                            !categories.some(
+                              (c) => c.name === task.category
+                            ) && (
+                              <option value={task.category}>
+                                {task.category}
+                              </option>
+                            )}
+                        </select>
+                        <label
+                          htmlFor={`task-${index}-problems`}
+                          className="sr-only"
+                        >
+                          {t("report.taskProblems")}
+                        </label>
+                        <input
+                          id={`task-${index}-problems`}
+                          type="text"
+                          placeholder={t("report.taskProblems")}
+                          value={task.problems}
+                          onChange={(e) =>
+                            updateTask(index, "problems", e.target.value)
+                          }
+                          className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600 dark:text-white dark:placeholder-gray-400"
+                        />
+                        <TaskAttachments
+                          ids={task.attachments || []}
+                          onChange={(ids) =>
+                            updateTask(
+                              index,
+                              "attachments",
+                              ids.length ? ids : undefined
+                            )
+                          }
+                          onError={setError}
+                        />
+                        <div className="flex gap-4">
+                          <button
+                            onClick={() => removeTask(index)}
+                            aria-label={t("report.removeTaskNumber", {
+                              index: index + 1,
+                            })}
+                            className="mt-2 text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300"
+                          >
+                            {t("report.removeTask")}
+                          </button>
+                          <button
+                            onClick={() => copyTask(index)}
+                            aria-label={t("report.duplicateTaskNumber", {
+                              index: index + 1,
+                            })}
+                            className="mt-2 text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+                          >
+                            {t("report.duplicateTask")}
+                          </button>
+                          {task.plannedItem !== undefined && (
+                            <button
+                              onClick={() =>
+                                setReport((prev) => postponeTask(prev, index))
+                              }
+                              className="mt-2 text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+                            >
+                              {t("report.postpone")}
+                            </button>
+                          )}
+                        </div>
+                      </fieldset>
+                    ))}
+                  </div>
+
+                  <button
+                    ref={addTaskButtonRef}
+                    onClick={addTask}
+                    className="mt-4 text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+                  >
+                    {t("report.addTask")}
+                  </button>
+
+                  <div className="mt-6 p-4 border rounded-lg">
+                    <h2
+                      id="planned-tasks-title"
+                      className="text-xl font-semibold mb-4 text-gray-900 dark:text-white"
+                    >
+                      {t("report.plannedTitle")}
+                    </h2>
+                    <textarea
+                      aria-labelledby="planned-tasks-title"
+                      placeholder={t("report.plannedPlaceholder")}
+                      value={report.plannedTasks}
+                      onChange={(e) =>
+                        setReport((prev) => ({
+                          ...prev,
+                          plannedTasks: e.target.value,
+                        }))
+                      }
+                      className="w-full p-2 border rounded min-h-[100px] dark:bg-gray-700 dark:border-gray-600 dark:text-white dark:placeholder-gray-400"
+                    />
+                  </div>
+                </fieldset>
+
+                {showValidation &&
+                  issues.some(
+                    (issue) =>
+                      issue.severity === "warning" || issue.path === "tasks"
+                  ) && (
+                    <ul className="mt-6 bg-yellow-50 dark:bg-yellow-900 border border-yellow-400 dark:border-yellow-700 text-yellow-800 dark:text-yellow-100 px-4 py-3 rounded list-disc list-inside">
+                      {issues
+                        .filter(
+                          (issue) =>
+                            issue.severity === "warning" ||
+                            issue.path === "tasks"
+                        )
+                        .map((issue, index) => (
+                          <li key={index}>{issue.message}</li>
+                        ))}
+                    </ul>
+                  )}
+
+                <ShortcutHelp />
+
+                <div className="grid grid-cols-2 gap-4 mt-6">
+                  <button
+                    onClick={handleSave}
+                    disabled={!!report.finalization}
+                    className="w-full bg-blue-600 text-white py-2 px-4 rounded hover:bg-blue-700 disabled:opacity-50 dark:bg-blue-700 dark:hover:bg-blue-800"
+                  >
+                    {report.id !== undefined
+                      ? t("report.update")
+                      : t("common.save")}
+                  </button>
                   <button
-                    onClick={() => removeTask(index)}
-                    className="mt-2 text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300"
+                    onClick={handleDownload}
+                    className="w-full border border-blue-600 text-blue-600 py-2 px-4 rounded hover:bg-blue-50 dark:border-blue-400 dark:text-blue-400 dark:hover:bg-gray-700"
                   >
-                    Supprimer la tâche
+                    {t("report.downloadPdf")}
                   </button>
                 </div>
-              ))}
-            </div>
 
-            <button
-              onClick={addTask}
-              className="mt-4 text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
-            >
-              + Ajouter une tâche
-            </button>
-
-            <div className="mt-6 p-4 border rounded-lg">
-              <h2 className="text-xl font-semibold mb-4 text-gray-900 dark:text-white">
-                Travaux prévus pour le jour ouvrable suivant
-              </h2>
-              <textarea
-                placeholder="Décrivez les travaux prévus pour le jour suivant"
-                value={report.plannedTasks}
-                onChange={(e) =>
-                  setReport((prev) => ({
-                    ...prev,
-                    plannedTasks: e.target.value,
-                  }))
+                {report.id !== undefined &&
+                  !report.finalization &&
+                  (finalization.signing ? (
+                    <FinalizePanel
+                      report={report}
+                      onFinalized={finalization.finish}
+                      onCancel={finalization.cancel}
+                      onError={setError}
+                    />
+                  ) : (
+                    <button
+                      onClick={finalization.start}
+                      className="w-full mt-4 border border-green-600 text-green-700 py-2 px-4 rounded hover:bg-green-50 dark:border-green-400 dark:text-green-400 dark:hover:bg-gray-700"
+                    >
+                      {t("finalize.start")}
+                    </button>
+                  ))}
+              </div>
+
+              <ReportSearchPanel
+                key={profile?.id}
+                reports={pastReports}
+                defaultAuthor={profile}
+                currentReportId={report.id}
+                onOpen={loadReport}
+                onDownload={downloadPdf}
+                onRemove={removeReport}
+              />
+            </>
+          )}
+
+          {view === "calendar" && (
+            <>
+              <ReportCalendar
+                reports={pastReports}
+                person={profile}
+                calendar={workCalendar}
+                draftDay={
+                  pendingDraft
+                    ? getDayKey(pendingDraft.report.date)
+                    : isDraftWorthy(report) && report.id === undefined
+                      ? getDayKey(report.date)
+                      : null
                 }
-                className="w-full p-2 border rounded min-h-[100px] dark:bg-gray-700 dark:border-gray-600 dark:text-white dark:placeholder-gray-400"
+                onOpenReport={(target) => {
+                  loadReport(target);
+                  setView("report");
+                }}
+                onStartReport={startReportOn}
               />
-            </div>
+              <WorkCalendarSettings
+                calendar={workCalendar}
+                onSaved={setWorkCalendar}
+                onError={setError}
+              />
+            </>
+          )}
 
-            <button
-              onClick={generatePDF}
-              className="w-full mt-6 bg-blue-600 text-white py-2 px-4 rounded hover:bg-blue-700 dark:bg-blue-700 dark:hover:bg-blue-800"
-            >
-              Générer le PDF
-            </button>
-          </div>
+          {view === "periods" && (
+            <PeriodReportPanel reports={pastReports} onError={setError} />
+          )}
+
+          {view === "team" && profile?.manager && (
+            <TeamReviewPanel
+              reports={pastReports}
+              members={members}
+              reviewer={profile}
+              calendar={workCalendar}
+              onReviewed={handleReviewed}
+              onOpenReport={(target) => {
+                loadReport(target);
+                setView("report");
+              }}
+              onError={setError}
+            />
+          )}
 
-          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
-            <h2 className="text-xl font-semibold mb-4 dark:text-white">
-              Rapports passés
-            </h2>
-            <div className="mb-6">
-              <DatePicker
-                label="Rechercher par date"
-                value={searchDate}
-                onChange={setSearchDate}
-                className="w-full"
+          {view === "statistics" && (
+            <StatisticsPanel
+              reports={pastReports}
+              calendar={workCalendar}
+              isDarkMode={isDarkMode}
+            />
+          )}
+
+          {view === "incidents" && (
+            <IncidentLogPanel
+              reports={pastReports}
+              onOpenReport={(target) => {
+                loadReport(target);
+                setView("report");
+              }}
+              onError={setError}
+            />
+          )}
+
+          {view === "verify" && <VerifyPanel onError={setError} />}
+
+          {view === "catalogue" && (
+            <CatalogueSettings
+              categories={categories}
+              catalogue={catalogue}
+              templates={templates}
+              onChanged={loadCatalogue}
+              onError={setError}
+            />
+          )}
+
+          {view === "pdfTemplate" && (
+            <PdfTemplateSettings
+              template={pdfTemplate}
+              report={report}
+              profile={profile}
+              onSaved={setPdfTemplate}
+              onError={setError}
+            />
+          )}
+
+          {view === "settings" && (
+            <>
+              <LanguageSettings />
+              <ProfileSettings
+                key={profile?.id}
+                profile={profile || createEmptyProfile()}
+                onSaved={handleProfileSaved}
+                onError={setError}
               />
-            </div>
-            <div className="space-y-2">
-              {pastReports
-                .filter((r) => !searchDate || r.date.isSame(searchDate, "day"))
-                .map((r, index) => (
-                  <button
-                    key={index}
-                    onClick={() => setReport(r)}
-                    className="w-full text-left p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded dark:text-white"
-                  >
-                    {r.date.format("YYYY-MM-DD")}
-                  </button>
-                ))}
-            </div>
-          </div>
+              <TeamSettings
+                members={members}
+                activeMemberId={profile?.id}
+                onSwitch={switchMember}
+                onChanged={loadMembers}
+                onError={setError}
+              />
+              <ReminderSettings
+                reminder={reminder}
+                onSaved={setReminder}
+                onError={setError}
+              />
+              <SyncSettings
+                lastSyncAt={lastSyncAt}
+                onSyncNow={syncNow}
+                onResolved={loadReports}
+                onError={setError}
+              />
+              <BackupPanel onImported={handleImported} onError={setError} />
+            </>
+          )}
         </div>
       </div>
       <style jsx global>{`
@@ -614,6 +1663,6 @@ export default function Home() {
           color: ${isDarkMode ? "#9ca3af" : "#6b7280"} !important;
         }
       `}</style>
-    </LocalizationProvider>
+    </>
   );
 }
@@ -0,0 +1,306 @@
+"use client";
+
+import dayjs from "dayjs";
+import { ChangeEvent, useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import {
+  deserializeAttachment,
+  getAttachmentIds,
+  getAttachments,
+  putAttachments,
+  SerializedAttachment,
+  serializeAttachment,
+} from "@/lib/attachments";
+import {
+  BackupError,
+  ConflictResolution,
+  createBackup,
+  getBackupFileName,
+  ImportItem,
+  parseBackup,
+  planImport,
+  reportsToCsv,
+  resolveImport,
+} from "@/lib/backup";
+import { downloadFile } from "@/lib/download";
+import { isFinalized } from "@/lib/finalization";
+import { formatDate } from "@/lib/i18n";
+import {
+  getIncidentFollowUps,
+  IncidentFollowUp,
+  putIncidentFollowUps,
+} from "@/lib/incidents";
+import { formatPerson } from "@/lib/report";
+import { getAllReports, putReports } from "@/lib/reportRepository";
+import {
+  findNewMembers,
+  getMembers,
+  restoreMembers,
+  TeamMember,
+} from "@/lib/team";
+
+interface BackupPanelProps {
+  onImported: () => void;
+  onError: (message: string) => void;
+}
+
+const RESOLUTIONS: ConflictResolution[] = ["skip", "overwrite", "keepBoth"];
+
+export default function BackupPanel({ onImported, onError }: BackupPanelProps) {
+  const { locale, reportLocale, t } = useI18n();
+  const [plan, setPlan] = useState<ImportItem[] | null>(null);
+  const [resolutions, setResolutions] = useState<
+    Record<number, ConflictResolution>
+  >({});
+  const [message, setMessage] = useState<string | null>(null);
+  // Members of the backup that this device doesn't know yet
+  const [newMembers, setNewMembers] = useState<TeamMember[]>([]);
+  const [addMembers, setAddMembers] = useState(true);
+  const [importedAttachments, setImportedAttachments] = useState<
+    SerializedAttachment[]
+  >([]);
+  const [importedIncidents, setImportedIncidents] = useState<
+    IncidentFollowUp[]
+  >([]);
+
+  const exportJson = async () => {
+    try {
+      const reports = await getAllReports();
+      const attachments = await getAttachments(getAttachmentIds(reports));
+      const backup = createBackup({
+        reports,
+        members: await getMembers(),
+        attachments: await Promise.all(attachments.map(serializeAttachment)),
+        incidents: await getIncidentFollowUps(),
+      });
+      downloadFile(
+        JSON.stringify(backup, null, 2),
+        getBackupFileName("json"),
+        "application/json"
+      );
+    } catch (error) {
+      console.error("Error exporting reports:", error);
+      onError(t("backup.exportFailed"));
+    }
+  };
+
+  const exportCsv = async () => {
+    try {
+      downloadFile(
+        reportsToCsv(await getAllReports(), reportLocale),
+        getBackupFileName("csv"),
+        "text/csv;charset=utf-8"
+      );
+    } catch (error) {
+      console.error("Error exporting reports:", error);
+      onError(t("backup.exportFailed"));
+    }
+  };
+
+  const selectFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    setMessage(null);
+    try {
+      const {
+        reports: incoming,
+        members,
+        attachments,
+        incidents,
+      } = parseBackup(await file.text());
+      setPlan(planImport(await getAllReports(), incoming));
+      setResolutions({});
+      setNewMembers(findNewMembers(await getMembers(), members ?? []));
+      setAddMembers(true);
+      setImportedAttachments(attachments ?? []);
+      setImportedIncidents(incidents ?? []);
+    } catch (error) {
+      console.error("Error reading backup:", error);
+      onError(
+        error instanceof BackupError
+          ? t(`backup.error.${error.code}`, error.params)
+          : t("backup.unreadable")
+      );
+    }
+  };
+
+  const setAllResolutions = (resolution: ConflictResolution) => {
+    if (!plan) return;
+    setResolutions(
+      Object.fromEntries(
+        plan
+          .map((item, index) => [index, item.kind] as const)
+          .filter(([, kind]) => kind === "conflict")
+          .map(([index]) => [index, resolution])
+      )
+    );
+  };
+
+  const confirmImport = async () => {
+    if (!plan) return;
+
+    try {
+      const records = resolveImport(plan, resolutions);
+      // Only the files of the reports actually written are restored
+      const used = new Set(getAttachmentIds(records));
+      await putAttachments(
+        await Promise.all(
+          importedAttachments
+            .filter((attachment) => used.has(attachment.id))
+            .map(deserializeAttachment)
+        )
+      );
+      await putReports(records);
+      await putIncidentFollowUps(importedIncidents);
+      // Members already on the device are left as they are
+      if (newMembers.length && addMembers) {
+        await restoreMembers(newMembers);
+      }
+      setPlan(null);
+      setMessage(t("backup.imported", { count: records.length }));
+      onImported();
+    } catch (error) {
+      console.error("Error importing reports:", error);
+      onError(t("backup.importFailed"));
+    }
+  };
+
+  const count = (kind: ImportItem["kind"]) =>
+    plan?.filter((item) => item.kind === kind).length ?? 0;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 mb-6">
+      <h2 className="text-xl font-semibold mb-4 dark:text-white">
+        {t("backup.title")}
+      </h2>
+
+      <div className="flex flex-wrap gap-4 mb-4">
+        <button
+          onClick={exportJson}
+          className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+        >
+          {t("backup.exportJson")}
+        </button>
+        <button
+          onClick={exportCsv}
+          className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+        >
+          {t("backup.exportCsv")}
+        </button>
+        <label className="cursor-pointer text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300">
+          {t("backup.import")}
+          <input
+            type="file"
+            accept="application/json,.json"
+            onChange={selectFile}
+            className="hidden"
+          />
+        </label>
+      </div>
+
+      {message && (
+        <p className="text-sm text-green-700 dark:text-green-300">{message}</p>
+      )}
+
+      {plan && (
+        <div className="p-4 border rounded-lg dark:border-gray-600 dark:text-white">
+          <p className="mb-2">
+            {t("backup.summary", {
+              new: count("new"),
+              identical: count("identical"),
+              conflict: count("conflict"),
+            })}
+          </p>
+
+          {count("conflict") > 0 && (
+            <>
+              <div className="flex flex-wrap gap-4 mb-2 text-sm">
+                <span>{t("backup.allConflicts")}</span>
+                {RESOLUTIONS.map((resolution) => (
+                  <button
+                    key={resolution}
+                    onClick={() => setAllResolutions(resolution)}
+                    className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+                  >
+                    {t(`backup.resolution.${resolution}`)}
+                  </button>
+                ))}
+              </div>
+              <ul className="space-y-2 mb-4 max-h-64 overflow-y-auto">
+                {plan.map((item, index) =>
+                  item.kind !== "conflict" ? null : (
+                    <li
+                      key={index}
+                      className="flex justify-between items-center gap-2"
+                    >
+                      <span>
+                        {t("backup.conflict", {
+                          date: formatDate(dayjs(item.report.date), locale),
+                          person: `${item.report.lastName} ${item.report.firstName}`,
+                          count: item.report.tasks.length,
+                          existing: item.existing?.tasks.length ?? 0,
+                        })}
+                      </span>
+                      {item.existing && isFinalized(item.existing) ? (
+                        <span className="text-sm text-gray-600 dark:text-gray-300">
+                          {t("backup.finalizedConflict")}
+                        </span>
+                      ) : (
+                        <select
+                          value={resolutions[index] ?? "skip"}
+                          onChange={(e) =>
+                            setResolutions((prev) => ({
+                              ...prev,
+                              [index]: e.target.value as ConflictResolution,
+                            }))
+                          }
+                          className="p-1 border rounded dark:bg-gray-700 dark:border-gray-600"
+                        >
+                          {RESOLUTIONS.map((resolution) => (
+                            <option key={resolution} value={resolution}>
+                              {t(`backup.resolution.${resolution}`)}
+                            </option>
+                          ))}
+                        </select>
+                      )}
+                    </li>
+                  )
+                )}
+              </ul>
+            </>
+          )}
+
+          {newMembers.length > 0 && (
+            <label className="flex items-center gap-2 mb-4">
+              <input
+                type="checkbox"
+                checked={addMembers}
+                onChange={(e) => setAddMembers(e.target.checked)}
+              />
+              {t("backup.restoreMembers", {
+                names: newMembers.map(formatPerson).join(", "),
+              })}
+            </label>
+          )}
+
+          <div className="flex gap-4">
+            <button
+              onClick={confirmImport}
+              className="bg-blue-600 text-white py-2 px-4 rounded hover:bg-blue-700 dark:bg-blue-700 dark:hover:bg-blue-800"
+            >
+              {t("common.import")}
+            </button>
+            <button
+              onClick={() => setPlan(null)}
+              className="text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300"
+            >
+              {t("common.cancel")}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+"use client";
+
+import { useI18n } from "@/components/I18nProvider";
+import { ChartPoint } from "@/lib/statistics";
+
+interface BarChartProps {
+  points: ChartPoint[];
+  isDarkMode: boolean;
+  formatValue: (value: number) => string;
+  // Horizontal bars suit long labels such as categories
+  horizontal?: boolean;
+  // Optional reference line, e.g. the daily target
+  reference?: number;
+}
+
+const WIDTH = 600;
+const HEIGHT = 200;
+const AXIS_HEIGHT = 20;
+const ROW_HEIGHT = 24;
+const LABEL_WIDTH = 200;
+// Above this many bars only every n-th label is drawn
+const MAX_LABELS = 15;
+
+const getColors = (isDarkMode: boolean) => ({
+  bar: isDarkMode ? "#60a5fa" : "#2563eb",
+  text: isDarkMode ? "#e5e7eb" : "#374151",
+  grid: isDarkMode ? "#4b5563" : "#d1d5db",
+  reference: isDarkMode ? "#f87171" : "#dc2626",
+});
+
+export default function BarChart({
+  points,
+  isDarkMode,
+  formatValue,
+  horizontal = false,
+  reference,
+}: BarChartProps) {
+  const { t } = useI18n();
+  const colors = getColors(isDarkMode);
+  const max = Math.max(reference || 0, ...points.map((point) => point.value));
+
+  if (!points.length || !max) {
+    return (
+      <p className="text-sm text-gray-600 dark:text-gray-300">
+        {t("statistics.noData")}
+      </p>
+    );
+  }
+
+  if (horizontal) {
+    const barSpace = WIDTH - LABEL_WIDTH - 60;
+    return (
+      <svg
+        viewBox={`0 0 ${WIDTH} ${points.length * ROW_HEIGHT}`}
+        className="w-full h-auto"
+        role="img"
+      >
+        {points.map((point, i) => (
+          <g key={point.label} transform={`translate(0, ${i * ROW_HEIGHT})`}>
+            <text
+              x={LABEL_WIDTH - 8}
+              y={ROW_HEIGHT / 2 + 4}
+              textAnchor="end"
+              fontSize={12}
+              fill={colors.text}
+            >
+              {point.label.length > 28
+                ? `${point.label.slice(0, 27)}…`
+                : point.label}
+            </text>
+            <rect
+              x={LABEL_WIDTH}
+              y={4}
+              width={(point.value / max) * barSpace}
+              height={ROW_HEIGHT - 8}
+              fill={colors.bar}
+              rx={2}
+            />
+            <text
+              x={LABEL_WIDTH + (point.value / max) * barSpace + 6}
+              y={ROW_HEIGHT / 2 + 4}
+              fontSize={12}
+              fill={colors.text}
+            >
+              {formatValue(point.value)}
+            </text>
+          </g>
+        ))}
+      </svg>
+    );
+  }
+
+  const slot = WIDTH / points.length;
+  const labelStep = Math.ceil(points.length / MAX_LABELS);
+  const plotHeight = HEIGHT - AXIS_HEIGHT;
+  const y = (value: number) => plotHeight - (value / max) * (plotHeight - 10);
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      className="w-full h-auto"
+      role="img"
+    >
+      <line
+        x1={0}
+        x2={WIDTH}
+        y1={plotHeight}
+        y2={plotHeight}
+        stroke={colors.grid}
+      />
+      {points.map((point, i) => (
+        <g key={`${point.label}-${i}`}>
+          <rect
+            x={i * slot + slot * 0.15}
+            y={y(point.value)}
+            width={slot * 0.7}
+            height={plotHeight - y(point.value)}
+            fill={colors.bar}
+            rx={1}
+          >
+            <title>
+              {t("statistics.barValue", {
+                label: point.label,
+                value: formatValue(point.value),
+              })}
+            </title>
+          </rect>
+          {i % labelStep === 0 && (
+            <text
+              x={i * slot + slot / 2}
+              y={HEIGHT - 5}
+              textAnchor="middle"
+              fontSize={11}
+              fill={colors.text}
+            >
+              {point.label}
+            </text>
+          )}
+        </g>
+      ))}
+      {reference !== undefined && (
+        <line
+          x1={0}
+          x2={WIDTH}
+          y1={y(reference)}
+          y2={y(reference)}
+          stroke={colors.reference}
+          strokeDasharray="4 4"
+        />
+      )}
+    </svg>
+  );
+}
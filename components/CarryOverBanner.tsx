@@ -0,0 +1,104 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import { formatDate, formatWeekday } from "@/lib/i18n";
+import { findPreviousReport, parsePlannedItems } from "@/lib/plannedTasks";
+import { getDayKey, getPersonKey, Report } from "@/lib/report";
+
+interface CarryOverBannerProps {
+  report: Report;
+  // Kept mounted while another view is shown, so that a dismissal holds
+  hidden: boolean;
+  onAccept: (items: string[]) => void;
+}
+
+// Offers the previous working day's plan when starting a new report
+export default function CarryOverBanner({
+  report,
+  hidden,
+  onAccept,
+}: CarryOverBannerProps) {
+  const { locale, t } = useI18n();
+  const [carryOver, setCarryOver] = useState<{
+    from: Report;
+    items: string[];
+  } | null>(null);
+  const dismissed = useRef(new Set<string>());
+  const reportRef = useRef(report);
+  reportRef.current = report;
+
+  const dayKey = getDayKey(report.date);
+  const authorKey = getPersonKey(report);
+  const isNewReport =
+    report.id === undefined && report.carriedOverItems === undefined;
+
+  useEffect(() => {
+    if (
+      !isNewReport ||
+      !authorKey.trim() ||
+      dismissed.current.has(`${authorKey}|${dayKey}`)
+    ) {
+      setCarryOver(null);
+      return;
+    }
+
+    let cancelled = false;
+    const { date, firstName, lastName } = reportRef.current;
+    findPreviousReport({ firstName, lastName }, date)
+      .then((previous) => {
+        if (cancelled) return;
+        const items = previous ? parsePlannedItems(previous.plannedTasks) : [];
+        setCarryOver(
+          previous && items.length ? { from: previous, items } : null
+        );
+      })
+      .catch((error) => console.error("Error loading previous report:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [isNewReport, authorKey, dayKey]);
+
+  const accept = () => {
+    if (!carryOver) return;
+    onAccept(carryOver.items);
+    setCarryOver(null);
+  };
+
+  const dismiss = () => {
+    dismissed.current.add(`${authorKey}|${dayKey}`);
+    setCarryOver(null);
+  };
+
+  if (!carryOver || hidden) return null;
+
+  return (
+    <div className="bg-blue-50 dark:bg-gray-800 border border-blue-300 dark:border-blue-700 dark:text-white px-4 py-3 rounded mb-4">
+      <p className="mb-2">
+        {t("app.carryOver", {
+          weekday: formatWeekday(carryOver.from.date, locale),
+          date: formatDate(carryOver.from.date, locale),
+        })}
+      </p>
+      <ul className="list-disc list-inside mb-2">
+        {carryOver.items.map((item, index) => (
+          <li key={index}>{item}</li>
+        ))}
+      </ul>
+      <div className="flex gap-4">
+        <button
+          onClick={accept}
+          className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+        >
+          {t("app.addAsTasks")}
+        </button>
+        <button
+          onClick={dismiss}
+          className="text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300"
+        >
+          {t("app.ignore")}
+        </button>
+      </div>
+    </div>
+  );
+}
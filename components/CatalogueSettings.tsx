@@ -0,0 +1,202 @@
+"use client";
+
+import { useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import {
+  CatalogueEntry,
+  Category,
+  DayTemplate,
+  deleteCatalogueEntry,
+  deleteCategory,
+  deleteTemplate,
+  saveCatalogueEntry,
+  saveCategory,
+} from "@/lib/catalogue";
+
+interface CatalogueSettingsProps {
+  categories: Category[];
+  catalogue: CatalogueEntry[];
+  templates: DayTemplate[];
+  onChanged: () => void;
+  onError: (message: string) => void;
+}
+
+const inputClassName =
+  "w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600 dark:text-white";
+const deleteClassName =
+  "text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300";
+const addClassName =
+  "shrink-0 text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300";
+
+export default function CatalogueSettings({
+  categories,
+  catalogue,
+  templates,
+  onChanged,
+  onError,
+}: CatalogueSettingsProps) {
+  const { t } = useI18n();
+  const [categoryName, setCategoryName] = useState("");
+  const [description, setDescription] = useState("");
+  const [entryCategory, setEntryCategory] = useState("");
+
+  const run = async (action: () => Promise<unknown>, message: string) => {
+    try {
+      await action();
+      onChanged();
+    } catch (error) {
+      console.error("Error updating catalogue:", error);
+      onError(message);
+    }
+  };
+
+  const addCategory = () => {
+    const name = categoryName.trim();
+    if (!name) return;
+    if (categories.some((c) => c.name.toLowerCase() === name.toLowerCase())) {
+      onError(t("catalogue.duplicateCategory"));
+      return;
+    }
+    setCategoryName("");
+    run(() => saveCategory({ name }), t("catalogue.addCategoryFailed"));
+  };
+
+  const addEntry = () => {
+    const text = description.trim();
+    if (!text) return;
+    setDescription("");
+    run(
+      () =>
+        saveCatalogueEntry({
+          description: text,
+          category: entryCategory || undefined,
+        }),
+      t("catalogue.addActivityFailed")
+    );
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 mb-6 dark:text-white">
+      <h2 className="text-xl font-semibold mb-4">
+        {t("catalogue.categories")}
+      </h2>
+      <div className="flex gap-4 mb-2">
+        <input
+          type="text"
+          placeholder={t("catalogue.newCategory")}
+          value={categoryName}
+          onChange={(e) => setCategoryName(e.target.value)}
+          className={inputClassName}
+        />
+        <button onClick={addCategory} className={addClassName}>
+          {t("common.add")}
+        </button>
+      </div>
+      <ul className="mb-6 space-y-1">
+        {categories.map((category) => (
+          <li key={category.id} className="flex justify-between">
+            <span>{category.name}</span>
+            <button
+              onClick={() =>
+                category.id !== undefined &&
+                run(
+                  () => deleteCategory(category.id as number),
+                  t("catalogue.deleteCategoryFailed")
+                )
+              }
+              className={deleteClassName}
+            >
+              {t("common.delete")}
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <h2 className="text-xl font-semibold mb-4">
+        {t("catalogue.activities")}
+      </h2>
+      <div className="grid grid-cols-[1fr_auto_auto] gap-4 mb-2">
+        <input
+          type="text"
+          placeholder={t("catalogue.activityDescription")}
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          className={inputClassName}
+        />
+        <select
+          value={entryCategory}
+          onChange={(e) => setEntryCategory(e.target.value)}
+          className="p-2 border rounded dark:bg-gray-700 dark:border-gray-600"
+        >
+          <option value="">{t("category.uncategorized")}</option>
+          {categories.map((category) => (
+            <option key={category.id} value={category.name}>
+              {category.name}
+            </option>
+          ))}
+        </select>
+        <button onClick={addEntry} className={addClassName}>
+          {t("common.add")}
+        </button>
+      </div>
+      <ul className="mb-6 space-y-1">
+        {catalogue.map((entry) => (
+          <li key={entry.id} className="flex justify-between gap-4">
+            <span>
+              {entry.description}
+              {entry.category && (
+                <span className="ml-2 text-sm text-gray-500 dark:text-gray-400">
+                  {entry.category}
+                </span>
+              )}
+            </span>
+            <button
+              onClick={() =>
+                entry.id !== undefined &&
+                run(
+                  () => deleteCatalogueEntry(entry.id as number),
+                  t("catalogue.deleteActivityFailed")
+                )
+              }
+              className={deleteClassName}
+            >
+              {t("common.delete")}
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <h2 className="text-xl font-semibold mb-2">{t("catalogue.templates")}</h2>
+      <p className="mb-2 text-sm text-gray-600 dark:text-gray-300">
+        {t("catalogue.templatesHint")}
+      </p>
+      <ul className="space-y-1">
+        {templates.map((template) => (
+          <li key={template.id} className="flex justify-between gap-4">
+            <span>
+              {template.name}
+              <span className="ml-2 text-sm text-gray-500 dark:text-gray-400">
+                {t("catalogue.taskCount", { count: template.tasks.length })}
+              </span>
+            </span>
+            <button
+              onClick={() =>
+                template.id !== undefined &&
+                window.confirm(
+                  t("catalogue.confirmDeleteTemplate", { name: template.name })
+                ) &&
+                run(
+                  () => deleteTemplate(template.id as number),
+                  t("catalogue.deleteTemplateFailed")
+                )
+              }
+              className={deleteClassName}
+            >
+              {t("common.delete")}
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
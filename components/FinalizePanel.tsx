@@ -0,0 +1,77 @@
+"use client";
+
+import { useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import SignaturePad from "@/components/SignaturePad";
+import { finalizeReport, isFinalizationSupported } from "@/lib/finalization";
+import { Report, SerializedReport, serializeReport } from "@/lib/report";
+import { saveReport } from "@/lib/reportRepository";
+
+interface FinalizePanelProps {
+  // Saved report without pending changes
+  report: Report;
+  onFinalized: (report: SerializedReport) => void;
+  onCancel: () => void;
+  onError: (message: string) => void;
+}
+
+export default function FinalizePanel({
+  report,
+  onFinalized,
+  onCancel,
+  onError,
+}: FinalizePanelProps) {
+  const { t } = useI18n();
+  const [signature, setSignature] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const confirm = async () => {
+    if (!signature) {
+      onError(t("finalize.signatureRequired"));
+      return;
+    }
+    if (!isFinalizationSupported()) {
+      onError(t("finalize.unsupported"));
+      return;
+    }
+
+    setSaving(true);
+    try {
+      onFinalized(
+        await saveReport(
+          await finalizeReport(serializeReport(report), signature)
+        )
+      );
+    } catch (error) {
+      console.error("Error finalizing report:", error);
+      onError(t("finalize.failed"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="mt-6 p-4 border rounded-lg dark:border-gray-600 dark:text-white">
+      <h3 className="font-semibold mb-2">{t("finalize.title")}</h3>
+      <p className="mb-4 text-sm text-gray-600 dark:text-gray-300">
+        {t("finalize.hint")}
+      </p>
+      <SignaturePad onChange={setSignature} />
+      <div className="grid grid-cols-2 gap-4 mt-4">
+        <button
+          onClick={onCancel}
+          className="py-2 px-4 rounded border border-gray-400 text-gray-700 dark:border-gray-500 dark:text-gray-200"
+        >
+          {t("common.cancel")}
+        </button>
+        <button
+          onClick={confirm}
+          disabled={saving || !signature}
+          className="py-2 px-4 rounded text-white disabled:opacity-50 bg-green-600 hover:bg-green-700 dark:bg-green-700 dark:hover:bg-green-800"
+        >
+          {t("finalize.confirm")}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+"use client";
+
+import { LocalizationProvider } from "@mui/x-date-pickers";
+import { AdapterDayjs } from "@mui/x-date-pickers/AdapterDayjs";
+import { enUS, frFR } from "@mui/x-date-pickers/locales";
+import {
+  createContext,
+  ReactNode,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+} from "react";
+import {
+  createTranslator,
+  DEFAULT_LOCALE,
+  detectLocale,
+  isLocale,
+  Locale,
+  REPORT_LOCALE_SETTING,
+  Translate,
+  UI_LOCALE_SETTING,
+} from "@/lib/i18n";
+import { getSetting, saveSetting } from "@/lib/settingsRepository";
+
+const PICKER_TEXTS = {
+  fr: frFR.components.MuiLocalizationProvider.defaultProps.localeText,
+  en: enUS.components.MuiLocalizationProvider.defaultProps.localeText,
+} satisfies Record<Locale, unknown>;
+
+interface I18nContextValue {
+  // Language of the interface
+  locale: Locale;
+  // Language of the generated documents (PDF), chosen separately
+  reportLocale: Locale;
+  t: Translate;
+  setLocale: (locale: Locale) => void;
+  setReportLocale: (locale: Locale) => void;
+}
+
+const I18nContext = createContext<I18nContextValue>({
+  locale: DEFAULT_LOCALE,
+  reportLocale: DEFAULT_LOCALE,
+  t: createTranslator(DEFAULT_LOCALE),
+  setLocale: () => undefined,
+  setReportLocale: () => undefined,
+});
+
+export const useI18n = () => useContext(I18nContext);
+
+export default function I18nProvider({ children }: { children: ReactNode }) {
+  const [locale, setLocaleState] = useState<Locale>(DEFAULT_LOCALE);
+  const [reportLocale, setReportLocaleState] = useState<Locale>(DEFAULT_LOCALE);
+
+  useEffect(() => {
+    Promise.all([
+      getSetting<string>(UI_LOCALE_SETTING),
+      getSetting<string>(REPORT_LOCALE_SETTING),
+    ])
+      .then(([ui, report]) => {
+        const uiLocale = isLocale(ui) ? ui : detectLocale();
+        setLocaleState(uiLocale);
+        setReportLocaleState(isLocale(report) ? report : uiLocale);
+      })
+      .catch((error) => console.error("Error loading language:", error));
+  }, []);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const setLocale = useCallback((next: Locale) => {
+    setLocaleState(next);
+    saveSetting(UI_LOCALE_SETTING, next).catch((error) =>
+      console.error("Error saving language:", error)
+    );
+  }, []);
+
+  const setReportLocale = useCallback((next: Locale) => {
+    setReportLocaleState(next);
+    saveSetting(REPORT_LOCALE_SETTING, next).catch((error) =>
+      console.error("Error saving language:", error)
+    );
+  }, []);
+
+  const value = useMemo(
+    () => ({
+      locale,
+      reportLocale,
+      t: createTranslator(locale),
+      setLocale,
+      setReportLocale,
+    }),
+    [locale, reportLocale, setLocale, setReportLocale]
+  );
+
+  return (
+    <I18nContext.Provider value={value}>
+      <LocalizationProvider
+        dateAdapter={AdapterDayjs}
+        adapterLocale={locale}
+        localeText={PICKER_TEXTS[locale]}
+      >
+        {children}
+      </LocalizationProvider>
+    </I18nContext.Provider>
+  );
+}
@@ -0,0 +1,277 @@
+"use client";
+
+import { DatePicker } from "@mui/x-date-pickers";
+import dayjs from "dayjs";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import { formatDate } from "@/lib/i18n";
+import {
+  countIncidents,
+  createEmptyIncidentFilters,
+  extractIncidents,
+  filterIncidents,
+  getIncidentFollowUps,
+  Incident,
+  IncidentFilters,
+  IncidentFollowUp,
+  INCIDENT_STATUSES,
+  IncidentStatus,
+  saveIncidentFollowUp,
+} from "@/lib/incidents";
+import { getIncidentPdfFileName, renderIncidentPdf } from "@/lib/pdf";
+import { listPeople } from "@/lib/periodReport";
+import { formatPerson, getPersonKey, Report } from "@/lib/report";
+
+interface IncidentLogPanelProps {
+  // All stored reports, the incidents are extracted from their tasks
+  reports: Report[];
+  onOpenReport: (report: Report) => void;
+  onError: (message: string) => void;
+}
+
+const fieldClassName =
+  "p-2 border rounded dark:bg-gray-700 dark:border-gray-600 dark:text-white";
+
+export default function IncidentLogPanel({
+  reports,
+  onOpenReport,
+  onError,
+}: IncidentLogPanelProps) {
+  const { locale, reportLocale, t } = useI18n();
+  const people = useMemo(() => listPeople(reports), [reports]);
+  const [followUps, setFollowUps] = useState<IncidentFollowUp[]>([]);
+  const [filters, setFilters] = useState<IncidentFilters>(
+    createEmptyIncidentFilters
+  );
+  // Resolution notes being typed, saved with the button
+  const [notes, setNotes] = useState<Record<string, string>>({});
+
+  const loadFollowUps = useCallback(async () => {
+    try {
+      setFollowUps(await getIncidentFollowUps());
+    } catch (error) {
+      console.error("Error loading incidents:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadFollowUps();
+  }, [loadFollowUps]);
+
+  const incidents = useMemo(
+    () => extractIncidents(reports, followUps),
+    [reports, followUps]
+  );
+  const visible = useMemo(
+    () => filterIncidents(incidents, filters),
+    [incidents, filters]
+  );
+  const counts = countIncidents(visible);
+
+  const updateFilter = <K extends keyof IncidentFilters>(
+    field: K,
+    value: IncidentFilters[K]
+  ) => setFilters((prev) => ({ ...prev, [field]: value }));
+
+  const saveFollowUp = async (
+    incident: Incident,
+    status: IncidentStatus,
+    resolution: string
+  ) => {
+    try {
+      const saved = await saveIncidentFollowUp({
+        key: incident.key,
+        status,
+        resolution: resolution.trim(),
+        updatedAt: new Date().toISOString(),
+      });
+      setFollowUps((prev) => [
+        ...prev.filter((followUp) => followUp.key !== saved.key),
+        saved,
+      ]);
+      setNotes((prev) => {
+        const next = { ...prev };
+        delete next[incident.key];
+        return next;
+      });
+    } catch (error) {
+      console.error("Error saving incident:", error);
+      onError(t("incidents.saveFailed"));
+    }
+  };
+
+  const downloadIncidentPdf = () => {
+    try {
+      renderIncidentPdf(visible, filters, reportLocale).save(
+        getIncidentPdfFileName(dayjs())
+      );
+    } catch (error) {
+      console.error("Error generating incident PDF:", error);
+      onError(t("incidents.pdfFailed"));
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 mb-6 dark:text-white">
+      <h2 className="text-xl font-semibold mb-4">{t("incidents.title")}</h2>
+
+      <div className="grid grid-cols-3 gap-4 mb-4">
+        <select
+          value={filters.status}
+          onChange={(e) =>
+            updateFilter("status", e.target.value as IncidentFilters["status"])
+          }
+          className={fieldClassName}
+        >
+          <option value="all">{t("incidents.allStatuses")}</option>
+          {INCIDENT_STATUSES.map((status) => (
+            <option key={status} value={status}>
+              {t(`incidentStatus.${status}`)}
+            </option>
+          ))}
+        </select>
+        <select
+          value={filters.authorKey}
+          onChange={(e) => updateFilter("authorKey", e.target.value)}
+          className={fieldClassName}
+        >
+          <option value="">{t("incidents.allAuthors")}</option>
+          {people.map((person) => (
+            <option key={getPersonKey(person)} value={getPersonKey(person)}>
+              {formatPerson(person)}
+            </option>
+          ))}
+        </select>
+        <input
+          type="search"
+          placeholder={t("common.search")}
+          value={filters.query}
+          onChange={(e) => updateFilter("query", e.target.value)}
+          className={fieldClassName}
+        />
+      </div>
+      <div className="grid grid-cols-2 gap-4 mb-4">
+        <DatePicker
+          label={t("common.from")}
+          value={filters.start}
+          onChange={(value) =>
+            updateFilter("start", value?.isValid() ? value : null)
+          }
+        />
+        <DatePicker
+          label={t("common.to")}
+          value={filters.end}
+          onChange={(value) =>
+            updateFilter("end", value?.isValid() ? value : null)
+          }
+        />
+      </div>
+
+      <div className="flex justify-between items-center mb-4 text-sm text-gray-600 dark:text-gray-300">
+        <span>
+          {t("incidents.count", {
+            count: visible.length,
+            open: counts.open,
+            resolved: counts.resolved,
+          })}
+        </span>
+        <button
+          onClick={() => setFilters(createEmptyIncidentFilters())}
+          className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+        >
+          {t("incidents.resetFilters")}
+        </button>
+      </div>
+
+      {!visible.length && (
+        <p className="mb-4 text-gray-600 dark:text-gray-300">
+          {t("incidents.none")}
+        </p>
+      )}
+
+      <div className="space-y-4 mb-6">
+        {visible.map((incident) => {
+          const note = notes[incident.key] ?? incident.resolution;
+          const report = reports.find((r) => r.id === incident.reportId);
+          return (
+            <div
+              key={incident.key}
+              className="p-4 border rounded-lg dark:border-gray-600"
+            >
+              <div className="flex justify-between items-start gap-4 mb-2">
+                <div>
+                  <p className="text-sm text-gray-600 dark:text-gray-300">
+                    {formatDate(incident.date, locale)} —{" "}
+                    {formatPerson(incident.author)}
+                    {incident.taskDescription &&
+                      ` — ${incident.taskDescription}`}
+                  </p>
+                  <p className="whitespace-pre-line">{incident.problem}</p>
+                </div>
+                <select
+                  value={incident.status}
+                  onChange={(e) =>
+                    saveFollowUp(
+                      incident,
+                      e.target.value as IncidentStatus,
+                      note
+                    )
+                  }
+                  className={`shrink-0 ${fieldClassName} ${
+                    incident.status === "open"
+                      ? "text-red-600 dark:text-red-400"
+                      : "text-green-700 dark:text-green-300"
+                  }`}
+                >
+                  {INCIDENT_STATUSES.map((status) => (
+                    <option key={status} value={status}>
+                      {t(`incidentStatus.${status}`)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <textarea
+                placeholder={t("incidents.resolutionNote")}
+                value={note}
+                onChange={(e) =>
+                  setNotes((prev) => ({
+                    ...prev,
+                    [incident.key]: e.target.value,
+                  }))
+                }
+                className={`w-full h-16 ${fieldClassName}`}
+              />
+              <div className="flex gap-4 mt-2">
+                {notes[incident.key] !== undefined && (
+                  <button
+                    onClick={() =>
+                      saveFollowUp(incident, incident.status, note)
+                    }
+                    className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+                  >
+                    {t("incidents.saveNote")}
+                  </button>
+                )}
+                {report && (
+                  <button
+                    onClick={() => onOpenReport(report)}
+                    className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+                  >
+                    {t("common.openReport")}
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <button
+        onClick={downloadIncidentPdf}
+        className="w-full bg-blue-600 text-white py-2 px-4 rounded hover:bg-blue-700 dark:bg-blue-700 dark:hover:bg-blue-800"
+      >
+        {t("incidents.downloadPdf")}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+"use client";
+
+import { useI18n } from "@/components/I18nProvider";
+import { isLocale, LOCALE_NAMES, LOCALES } from "@/lib/i18n";
+
+const selectClassName =
+  "w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600 dark:text-white";
+
+// Both choices are saved as soon as they change, like the punch clock mode
+export default function LanguageSettings() {
+  const { locale, reportLocale, t, setLocale, setReportLocale } = useI18n();
+
+  const options = LOCALES.map((value) => (
+    <option key={value} value={value}>
+      {LOCALE_NAMES[value]}
+    </option>
+  ));
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 mb-6 dark:text-white">
+      <h2 className="text-xl font-semibold mb-4">{t("language.title")}</h2>
+      <p className="mb-4 text-sm text-gray-600 dark:text-gray-300">
+        {t("language.hint")}
+      </p>
+      <div className="grid grid-cols-2 gap-4">
+        <label className="text-sm">
+          {t("language.interface")}
+          <select
+            value={locale}
+            onChange={(e) =>
+              isLocale(e.target.value) && setLocale(e.target.value)
+            }
+            className={`mt-1 ${selectClassName}`}
+          >
+            {options}
+          </select>
+        </label>
+        <label className="text-sm">
+          {t("language.report")}
+          <select
+            value={reportLocale}
+            onChange={(e) =>
+              isLocale(e.target.value) && setReportLocale(e.target.value)
+            }
+            className={`mt-1 ${selectClassName}`}
+          >
+            {options}
+          </select>
+        </label>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,493 @@
+"use client";
+
+import dayjs from "dayjs";
+import { ChangeEvent, useEffect, useMemo, useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import { createTranslator, Locale } from "@/lib/i18n";
+import { renderReportPdf } from "@/lib/pdf";
+import {
+  createDefaultPdfTemplate,
+  loadLogo,
+  PDF_FONTS,
+  PdfFont,
+  PdfOrientation,
+  PdfTemplate,
+  savePdfTemplate,
+  SignatureDate,
+} from "@/lib/pdfTemplate";
+import { Profile } from "@/lib/profile";
+import { createEmptyTask, isReportBlank, Report } from "@/lib/report";
+
+// The uploaded image is scaled down anyway, this only guards the reading
+const MAX_LOGO_SIZE = 2 * 1024 * 1024;
+const PREVIEW_DELAY = 300;
+const APP_LOGO_URL = "/logo.svg";
+
+interface PdfTemplateSettingsProps {
+  template: PdfTemplate;
+  // Report being edited, previewed unless it is still empty
+  report: Report;
+  profile: Profile | null;
+  onSaved: (template: PdfTemplate) => void;
+  onError: (message: string) => void;
+}
+
+const inputClassName =
+  "w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600 dark:text-white";
+const linkClassName =
+  "text-blue-600 hover:text-blue-800 disabled:opacity-50 dark:text-blue-400 dark:hover:text-blue-300";
+
+// Written in the report language, like the document around it
+const createSampleReport = (
+  profile: Profile | null,
+  locale: Locale
+): Report => {
+  const t = createTranslator(locale);
+  const at = (time: string) => dayjs(`${dayjs().format("YYYY-MM-DD")}T${time}`);
+  return {
+    date: dayjs().startOf("day"),
+    firstName: profile?.firstName || "Camille",
+    lastName: profile?.lastName || "Martin",
+    arrivalTime: at("08:00"),
+    departureTime: at("17:00"),
+    tasks: [
+      {
+        ...createEmptyTask(),
+        startTime: at("08:00"),
+        endTime: at("12:00"),
+        category: t("pdfTemplate.sample.category1"),
+        description: t("pdfTemplate.sample.task1"),
+      },
+      {
+        ...createEmptyTask(),
+        startTime: at("13:00"),
+        endTime: at("17:00"),
+        category: t("pdfTemplate.sample.category2"),
+        description: t("pdfTemplate.sample.task2"),
+        problems: t("pdfTemplate.sample.problems"),
+      },
+    ],
+    plannedTasks: t("pdfTemplate.sample.planned"),
+  };
+};
+
+export default function PdfTemplateSettings({
+  template: savedTemplate,
+  report,
+  profile,
+  onSaved,
+  onError,
+}: PdfTemplateSettingsProps) {
+  const { reportLocale, t } = useI18n();
+  const [template, setTemplate] = useState<PdfTemplate>(savedTemplate);
+  const [saved, setSaved] = useState(false);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+
+  const previewReport = useMemo(
+    () =>
+      isReportBlank(report)
+        ? createSampleReport(profile, reportLocale)
+        : report,
+    [report, profile, reportLocale]
+  );
+
+  // The preview is rebuilt shortly after the last change
+  useEffect(() => {
+    let url: string | null = null;
+    const timeout = setTimeout(() => {
+      try {
+        url = renderReportPdf(
+          previewReport,
+          profile,
+          template,
+          reportLocale
+        ).output("bloburl") as string;
+        setPreviewUrl(url);
+      } catch (error) {
+        console.error("Error generating PDF preview:", error);
+        setPreviewUrl(null);
+      }
+    }, PREVIEW_DELAY);
+    return () => {
+      clearTimeout(timeout);
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [previewReport, profile, template, reportLocale]);
+
+  const update = <K extends keyof PdfTemplate>(
+    field: K,
+    value: PdfTemplate[K]
+  ) => {
+    setTemplate((prev) => ({ ...prev, [field]: value }));
+    setSaved(false);
+  };
+
+  const applyLogo = async (url: string) => {
+    try {
+      update("logo", await loadLogo(url));
+    } catch (error) {
+      console.error("Error loading logo:", error);
+      onError(t("pdfTemplate.logoUnreadable"));
+    }
+  };
+
+  const selectLogo = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    if (!["image/png", "image/jpeg", "image/svg+xml"].includes(file.type)) {
+      onError(t("pdfTemplate.logoType"));
+      return;
+    }
+    if (file.size > MAX_LOGO_SIZE) {
+      onError(t("pdfTemplate.logoSize"));
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = () => applyLogo(reader.result as string);
+    reader.onerror = () => onError(t("pdfTemplate.logoUnreadable"));
+    reader.readAsDataURL(file);
+  };
+
+  const moveColumn = (index: number, offset: number) => {
+    const columns = [...template.columns];
+    const [column] = columns.splice(index, 1);
+    columns.splice(index + offset, 0, column);
+    update("columns", columns);
+  };
+
+  const updateColumn = (
+    index: number,
+    changes: Partial<PdfTemplate["columns"][number]>
+  ) =>
+    update(
+      "columns",
+      template.columns.map((column, i) =>
+        i === index ? { ...column, ...changes } : column
+      )
+    );
+
+  const updateSignatory = (
+    index: number,
+    changes: Partial<PdfTemplate["signatories"][number]>
+  ) =>
+    update(
+      "signatories",
+      template.signatories.map((signatory, i) =>
+        i === index ? { ...signatory, ...changes } : signatory
+      )
+    );
+
+  const handleSave = async () => {
+    try {
+      await savePdfTemplate(template);
+      setSaved(true);
+      onSaved(template);
+    } catch (error) {
+      console.error("Error saving PDF template:", error);
+      onError(t("pdfTemplate.saveFailed"));
+    }
+  };
+
+  const resetTemplate = () => {
+    if (window.confirm(t("pdfTemplate.confirmReset"))) {
+      setTemplate(createDefaultPdfTemplate());
+      setSaved(false);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 mb-6 dark:text-white">
+      <h2 className="text-xl font-semibold mb-4">{t("pdfTemplate.title")}</h2>
+
+      <h3 className="font-semibold mb-2">{t("pdfTemplate.header")}</h3>
+      <div className="grid grid-cols-2 gap-4 mb-4">
+        <input
+          type="text"
+          placeholder={t("pdfTemplate.documentTitle", {
+            default: createTranslator(reportLocale)("pdf.reportTitle"),
+          })}
+          value={template.title}
+          onChange={(e) => update("title", e.target.value)}
+          className={inputClassName}
+        />
+        <input
+          type="text"
+          placeholder={t("pdfTemplate.companyName")}
+          value={template.companyName}
+          onChange={(e) => update("companyName", e.target.value)}
+          className={inputClassName}
+        />
+        <textarea
+          placeholder={t("pdfTemplate.companyAddress")}
+          value={template.companyAddress}
+          onChange={(e) => update("companyAddress", e.target.value)}
+          className={`${inputClassName} h-20`}
+        />
+        <textarea
+          placeholder={t("pdfTemplate.headerText")}
+          value={template.headerText}
+          onChange={(e) => update("headerText", e.target.value)}
+          className={`${inputClassName} h-20`}
+        />
+      </div>
+      <input
+        type="text"
+        placeholder={t("pdfTemplate.footerText")}
+        value={template.footerText}
+        onChange={(e) => update("footerText", e.target.value)}
+        className={`${inputClassName} mb-4`}
+      />
+
+      <div className="flex items-center gap-4 mb-6">
+        {template.logo ? (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img
+            src={template.logo.data}
+            alt="Logo"
+            className="h-12 border rounded bg-white"
+          />
+        ) : (
+          <span className="text-sm text-gray-500 dark:text-gray-400">
+            {t("pdfTemplate.noLogo")}
+          </span>
+        )}
+        <button
+          onClick={() => applyLogo(APP_LOGO_URL)}
+          className={linkClassName}
+        >
+          {t("pdfTemplate.appLogo")}
+        </button>
+        <label className={`cursor-pointer ${linkClassName}`}>
+          {t("pdfTemplate.importImage")}
+          <input
+            type="file"
+            accept="image/png,image/jpeg,image/svg+xml"
+            onChange={selectLogo}
+            className="hidden"
+          />
+        </label>
+        {template.logo && (
+          <button
+            onClick={() => update("logo", null)}
+            className="text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300"
+          >
+            {t("team.remove")}
+          </button>
+        )}
+      </div>
+
+      <h3 className="font-semibold mb-2">{t("pdfTemplate.layout")}</h3>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        <select
+          value={template.orientation}
+          onChange={(e) =>
+            update("orientation", e.target.value as PdfOrientation)
+          }
+          className={inputClassName}
+        >
+          <option value="landscape">{t("pdfTemplate.landscape")}</option>
+          <option value="portrait">{t("pdfTemplate.portrait")}</option>
+        </select>
+        <select
+          value={template.font}
+          onChange={(e) => update("font", e.target.value as PdfFont)}
+          className={inputClassName}
+        >
+          {PDF_FONTS.map((font) => (
+            <option key={font} value={font}>
+              {t(`pdfFont.${font}`)}
+            </option>
+          ))}
+        </select>
+        <label className="flex items-center gap-2 text-sm">
+          {t("pdfTemplate.fontSize")}
+          <input
+            type="number"
+            min={8}
+            max={14}
+            value={template.fontSize}
+            onChange={(e) =>
+              update(
+                "fontSize",
+                Math.min(14, Math.max(8, Number(e.target.value) || 11))
+              )
+            }
+            className={inputClassName}
+          />
+        </label>
+        <label className="flex items-center gap-2 text-sm">
+          {t("pdfTemplate.headerFill")}
+          <input
+            type="color"
+            value={template.headerFill}
+            onChange={(e) => update("headerFill", e.target.value)}
+          />
+        </label>
+      </div>
+
+      <h3 className="font-semibold mb-2">{t("pdfTemplate.columns")}</h3>
+      <ul className="mb-6 space-y-2">
+        {template.columns.map((column, i) => (
+          <li key={column.id} className="flex items-center gap-4">
+            <label className="flex-1 flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={column.enabled}
+                onChange={(e) => updateColumn(i, { enabled: e.target.checked })}
+              />
+              {t(`pdfColumn.${column.id}`)}
+            </label>
+            <label className="flex items-center gap-2 text-sm">
+              {t("pdfTemplate.width")}
+              <input
+                type="number"
+                min={1}
+                max={100}
+                value={column.width}
+                disabled={!column.enabled}
+                onChange={(e) =>
+                  updateColumn(i, {
+                    width: Math.max(1, Number(e.target.value) || 1),
+                  })
+                }
+                className="w-20 p-1 border rounded dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+              />
+            </label>
+            <button
+              onClick={() => moveColumn(i, -1)}
+              disabled={i === 0}
+              className={linkClassName}
+              title={t("pdfTemplate.moveUp")}
+            >
+              ↑
+            </button>
+            <button
+              onClick={() => moveColumn(i, 1)}
+              disabled={i === template.columns.length - 1}
+              className={linkClassName}
+              title={t("pdfTemplate.moveDown")}
+            >
+              ↓
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <h3 className="font-semibold mb-2">{t("pdfTemplate.signatures")}</h3>
+      <label className="flex items-center gap-2 mb-2">
+        <input
+          type="checkbox"
+          checked={template.signatureBlock}
+          onChange={(e) => update("signatureBlock", e.target.checked)}
+        />
+        {t("pdfTemplate.signatureBlock")}
+      </label>
+      {template.signatureBlock && (
+        <>
+          <ul className="mb-2 space-y-2">
+            {template.signatories.map((signatory, i) => (
+              <li
+                key={i}
+                className="grid grid-cols-[1fr_1fr_auto] gap-4 items-center"
+              >
+                <input
+                  type="text"
+                  placeholder={t("pdfTemplate.signatoryLabel", {
+                    default: createTranslator(reportLocale)(
+                      i === 0
+                        ? "pdf.signatory.employee"
+                        : "pdf.signatory.manager"
+                    ),
+                  })}
+                  value={signatory.label}
+                  onChange={(e) =>
+                    updateSignatory(i, { label: e.target.value })
+                  }
+                  className={inputClassName}
+                />
+                <input
+                  type="text"
+                  placeholder={
+                    i === 0
+                      ? t("pdfTemplate.reportAuthor")
+                      : t("common.lastName")
+                  }
+                  value={signatory.name}
+                  onChange={(e) => updateSignatory(i, { name: e.target.value })}
+                  className={inputClassName}
+                />
+                <button
+                  onClick={() =>
+                    update(
+                      "signatories",
+                      template.signatories.filter((_, j) => j !== i)
+                    )
+                  }
+                  className="text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300"
+                >
+                  {t("team.remove")}
+                </button>
+              </li>
+            ))}
+          </ul>
+          <div className="flex items-center gap-4 mb-6">
+            <button
+              onClick={() =>
+                update("signatories", [
+                  ...template.signatories,
+                  { label: "", name: "" },
+                ])
+              }
+              className={linkClassName}
+            >
+              {t("pdfTemplate.addSignatory")}
+            </button>
+            <select
+              value={template.signatureDate}
+              onChange={(e) =>
+                update("signatureDate", e.target.value as SignatureDate)
+              }
+              className="p-2 border rounded dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+            >
+              <option value="report">{t("pdfTemplate.reportDate")}</option>
+              <option value="blank">{t("pdfTemplate.blankDate")}</option>
+            </select>
+          </div>
+        </>
+      )}
+
+      <div className="flex items-center gap-4 mb-6">
+        <button
+          onClick={handleSave}
+          className="py-2 px-4 rounded text-white bg-blue-600 hover:bg-blue-700 dark:bg-blue-700 dark:hover:bg-blue-800"
+        >
+          {t("pdfTemplate.save")}
+        </button>
+        <button onClick={resetTemplate} className={linkClassName}>
+          {t("pdfTemplate.reset")}
+        </button>
+        {saved && (
+          <span className="text-sm text-green-700 dark:text-green-300">
+            {t("pdfTemplate.saved")}
+          </span>
+        )}
+      </div>
+
+      <h3 className="font-semibold mb-2">{t("pdfTemplate.preview")}</h3>
+      {previewUrl ? (
+        <iframe
+          src={previewUrl}
+          title={t("pdfTemplate.previewTitle")}
+          className="w-full h-[600px] border rounded dark:border-gray-600"
+        />
+      ) : (
+        <p className="text-sm text-gray-600 dark:text-gray-300">
+          {t("pdfTemplate.previewUnavailable")}
+        </p>
+      )}
+    </div>
+  );
+}
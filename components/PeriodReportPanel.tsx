@@ -0,0 +1,187 @@
+"use client";
+
+import { DatePicker } from "@mui/x-date-pickers";
+import dayjs, { Dayjs } from "dayjs";
+import { useEffect, useMemo, useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import { getPeriodPdfFileName, renderPeriodPdf } from "@/lib/pdf";
+import {
+  buildPeriodSummary,
+  DEFAULT_DAILY_TARGET_MINUTES,
+  listPeople,
+} from "@/lib/periodReport";
+import {
+  deserializeReport,
+  formatPerson,
+  getPersonKey,
+  Report,
+} from "@/lib/report";
+import { getReportsByAuthor } from "@/lib/reportRepository";
+import { formatDuration, startOfWeek } from "@/lib/time";
+
+interface PeriodReportPanelProps {
+  // All stored reports, used to list people and to refresh after changes
+  reports: Report[];
+  onError: (message: string) => void;
+}
+
+export default function PeriodReportPanel({
+  reports,
+  onError,
+}: PeriodReportPanelProps) {
+  const { reportLocale, t } = useI18n();
+  const people = useMemo(() => listPeople(reports), [reports]);
+  const [personKey, setPersonKey] = useState("");
+  const [start, setStart] = useState<Dayjs | null>(() => startOfWeek(dayjs()));
+  const [end, setEnd] = useState<Dayjs | null>(() =>
+    startOfWeek(dayjs()).add(6, "day")
+  );
+  const [dailyTargetHours, setDailyTargetHours] = useState(
+    DEFAULT_DAILY_TARGET_MINUTES / 60
+  );
+
+  const [periodReports, setPeriodReports] = useState<Report[]>([]);
+
+  const person =
+    people.find((p) => getPersonKey(p) === personKey) || people[0] || null;
+
+  useEffect(() => {
+    if (!person || !start || !end) return;
+
+    let cancelled = false;
+    getReportsByAuthor(person, start, end)
+      .then((records) => {
+        if (!cancelled) setPeriodReports(records.map(deserializeReport));
+      })
+      .catch((error) => console.error("Error loading reports:", error));
+    return () => {
+      cancelled = true;
+    };
+    // `reports` changes whenever a report is saved, deleted or imported
+  }, [person, start, end, reports]);
+
+  const summary = useMemo(
+    () =>
+      person && start && end
+        ? buildPeriodSummary(
+            periodReports,
+            person,
+            start,
+            end,
+            Math.round(dailyTargetHours * 60)
+          )
+        : null,
+    [periodReports, person, start, end, dailyTargetHours]
+  );
+
+  const selectWeek = () => {
+    setStart(startOfWeek(dayjs()));
+    setEnd(startOfWeek(dayjs()).add(6, "day"));
+  };
+
+  const selectMonth = () => {
+    setStart(dayjs().startOf("month"));
+    setEnd(dayjs().endOf("month").startOf("day"));
+  };
+
+  const downloadPeriodPdf = () => {
+    if (!summary) return;
+    if (start && end && end.isBefore(start, "day")) {
+      onError(t("period.endBeforeStart"));
+      return;
+    }
+
+    try {
+      renderPeriodPdf(summary, reportLocale).save(
+        getPeriodPdfFileName(summary)
+      );
+    } catch (error) {
+      console.error("Error generating period PDF:", error);
+      onError(t("period.pdfFailed"));
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 mb-6">
+      <h2 className="text-xl font-semibold mb-4 dark:text-white">
+        {t("period.title")}
+      </h2>
+
+      {!people.length ? (
+        <p className="text-gray-600 dark:text-gray-300">
+          {t("common.noReports")}
+        </p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-4 mb-4">
+            <select
+              value={person ? getPersonKey(person) : ""}
+              onChange={(e) => setPersonKey(e.target.value)}
+              className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+            >
+              {people.map((p) => (
+                <option key={getPersonKey(p)} value={getPersonKey(p)}>
+                  {formatPerson(p)}
+                </option>
+              ))}
+            </select>
+            <label className="flex items-center gap-2 dark:text-white">
+              {t("period.dailyTarget")}
+              <input
+                type="number"
+                min={0}
+                max={24}
+                step={0.25}
+                value={dailyTargetHours}
+                onChange={(e) => setDailyTargetHours(Number(e.target.value))}
+                className="w-24 p-2 border rounded dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+              />
+            </label>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4 mb-4">
+            <DatePicker
+              label={t("common.from")}
+              value={start}
+              onChange={setStart}
+            />
+            <DatePicker label={t("common.to")} value={end} onChange={setEnd} />
+          </div>
+
+          <div className="flex gap-4 mb-4">
+            <button
+              onClick={selectWeek}
+              className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+            >
+              {t("common.thisWeek")}
+            </button>
+            <button
+              onClick={selectMonth}
+              className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+            >
+              {t("common.thisMonth")}
+            </button>
+          </div>
+
+          {summary && (
+            <p className="text-sm text-gray-600 dark:text-gray-300 mb-4">
+              {t("period.summary", {
+                days: summary.days.length,
+                worked: formatDuration(summary.totals.workedMinutes),
+                tasks: formatDuration(summary.totals.taskMinutes),
+                overtime: formatDuration(summary.totals.overtimeMinutes),
+              })}
+            </p>
+          )}
+
+          <button
+            onClick={downloadPeriodPdf}
+            className="w-full bg-blue-600 text-white py-2 px-4 rounded hover:bg-blue-700 dark:bg-blue-700 dark:hover:bg-blue-800"
+          >
+            {t("period.download")}
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+"use client";
+
+import { TimePicker } from "@mui/x-date-pickers";
+import { ChangeEvent, useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import { parseTimeOfDay, Profile, saveProfile } from "@/lib/profile";
+
+// Larger signatures needlessly bloat the database and every PDF
+const MAX_SIGNATURE_SIZE = 500 * 1024;
+
+interface ProfileSettingsProps {
+  profile: Profile;
+  onSaved: (profile: Profile) => void;
+  onError: (message: string) => void;
+}
+
+const inputClassName =
+  "w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600 dark:text-white";
+
+export default function ProfileSettings({
+  profile: initialProfile,
+  onSaved,
+  onError,
+}: ProfileSettingsProps) {
+  const { t } = useI18n();
+  const [profile, setProfile] = useState<Profile>(initialProfile);
+  const [saved, setSaved] = useState(false);
+
+  const update = <K extends keyof Profile>(field: K, value: Profile[K]) => {
+    setProfile((prev) => ({ ...prev, [field]: value }));
+    setSaved(false);
+  };
+
+  const selectSignature = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    if (!["image/png", "image/jpeg"].includes(file.type)) {
+      onError(t("profile.signatureType"));
+      return;
+    }
+    if (file.size > MAX_SIGNATURE_SIZE) {
+      onError(t("profile.signatureSize"));
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = () => update("signature", reader.result as string);
+    reader.onerror = () => onError(t("profile.signatureUnreadable"));
+    reader.readAsDataURL(file);
+  };
+
+  const handleSave = async () => {
+    if (!profile.firstName.trim() || !profile.lastName.trim()) {
+      onError(t("profile.nameRequired"));
+      return;
+    }
+
+    try {
+      await saveProfile(profile);
+      setSaved(true);
+      onSaved(profile);
+    } catch (error) {
+      console.error("Error saving profile:", error);
+      onError(t("profile.saveFailed"));
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 mb-6">
+      <h2 className="text-xl font-semibold mb-4 dark:text-white">
+        {t("profile.title")}
+      </h2>
+
+      <div className="grid grid-cols-2 gap-4 mb-4">
+        <input
+          type="text"
+          placeholder={t("common.firstName")}
+          value={profile.firstName}
+          onChange={(e) => update("firstName", e.target.value)}
+          className={inputClassName}
+        />
+        <input
+          type="text"
+          placeholder={t("common.lastName")}
+          value={profile.lastName}
+          onChange={(e) => update("lastName", e.target.value)}
+          className={inputClassName}
+        />
+        <input
+          type="text"
+          placeholder={t("profile.jobTitle")}
+          value={profile.jobTitle}
+          onChange={(e) => update("jobTitle", e.target.value)}
+          className={inputClassName}
+        />
+        <input
+          type="text"
+          placeholder={t("profile.department")}
+          value={profile.department}
+          onChange={(e) => update("department", e.target.value)}
+          className={inputClassName}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 mb-4">
+        <TimePicker
+          label={t("profile.usualArrival")}
+          value={parseTimeOfDay(profile.usualArrival)}
+          onChange={(newValue) =>
+            update("usualArrival", newValue?.format("HH:mm") || null)
+          }
+          ampm={false}
+          format="HH:mm"
+        />
+        <TimePicker
+          label={t("profile.usualDeparture")}
+          value={parseTimeOfDay(profile.usualDeparture)}
+          onChange={(newValue) =>
+            update("usualDeparture", newValue?.format("HH:mm") || null)
+          }
+          ampm={false}
+          format="HH:mm"
+        />
+      </div>
+
+      <div className="p-4 border rounded-lg mb-4 dark:border-gray-600">
+        <p className="mb-2 text-gray-900 dark:text-white">
+          {t("profile.signature")}
+        </p>
+        {profile.signature && (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img
+            src={profile.signature}
+            alt={t("profile.signature")}
+            className="max-h-24 mb-2 bg-white rounded"
+          />
+        )}
+        <div className="flex gap-4">
+          <label className="cursor-pointer text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300">
+            {profile.signature
+              ? t("profile.replaceImage")
+              : t("profile.addImage")}
+            <input
+              type="file"
+              accept="image/png,image/jpeg"
+              onChange={selectSignature}
+              className="hidden"
+            />
+          </label>
+          {profile.signature && (
+            <button
+              onClick={() => update("signature", null)}
+              className="text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300"
+            >
+              {t("common.delete")}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {saved && (
+        <p className="mb-4 text-sm text-green-700 dark:text-green-300">
+          {t("profile.saved")}
+        </p>
+      )}
+
+      <button
+        onClick={handleSave}
+        className="w-full bg-blue-600 text-white py-2 px-4 rounded hover:bg-blue-700 dark:bg-blue-700 dark:hover:bg-blue-800"
+      >
+        {t("profile.save")}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+"use client";
+
+import dayjs from "dayjs";
+import { useEffect, useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import {
+  formatElapsed,
+  getRunningTaskIndex,
+  isDayClosed,
+  isDayStarted,
+  punchIn,
+  punchOut,
+  startTask,
+  stopRunningTask,
+} from "@/lib/punchClock";
+import { Report } from "@/lib/report";
+
+interface PunchClockProps {
+  report: Report;
+  suggestionsListId: string;
+  onPunch: (update: (report: Report) => Report) => void;
+}
+
+const buttonClassName =
+  "py-2 px-4 rounded text-white disabled:opacity-50 bg-blue-600 hover:bg-blue-700 dark:bg-blue-700 dark:hover:bg-blue-800";
+
+export default function PunchClock({
+  report,
+  suggestionsListId,
+  onPunch,
+}: PunchClockProps) {
+  const { t } = useI18n();
+  const [now, setNow] = useState(dayjs);
+  const [description, setDescription] = useState("");
+
+  const runningIndex = getRunningTaskIndex(report);
+  const runningTask = runningIndex === -1 ? null : report.tasks[runningIndex];
+  const started = isDayStarted(report);
+  const closed = isDayClosed(report);
+
+  useEffect(() => {
+    if (!started || closed) return;
+    const interval = setInterval(() => setNow(dayjs()), 1000);
+    return () => clearInterval(interval);
+  }, [started, closed]);
+
+  const handleStartTask = () => {
+    const text = description.trim();
+    if (!text) return;
+    onPunch((current) => startTask(current, text));
+    setDescription("");
+  };
+
+  return (
+    <div className="mb-6 p-4 border rounded-lg dark:border-gray-600 dark:text-white">
+      <div className="flex justify-between items-baseline mb-4">
+        <span>
+          {started
+            ? t("punch.arrivedAt", {
+                time: report.arrivalTime?.format("HH:mm") || "",
+              })
+            : t("punch.notStarted")}
+          {closed &&
+            t("punch.leftAt", {
+              time: report.departureTime?.format("HH:mm") || "",
+            })}
+        </span>
+        {started && report.arrivalTime && (
+          <span className="font-mono text-lg">
+            {formatElapsed(
+              report.arrivalTime,
+              closed ? report.departureTime! : now
+            )}
+          </span>
+        )}
+      </div>
+
+      {runningTask?.startTime && (
+        <div className="flex justify-between items-baseline mb-4 p-2 rounded bg-green-50 dark:bg-green-900">
+          <span>{t("punch.running", { task: runningTask.description })}</span>
+          <span className="font-mono">
+            {formatElapsed(runningTask.startTime, now)}
+          </span>
+        </div>
+      )}
+
+      {!started && (
+        <button
+          onClick={() => onPunch((current) => punchIn(current))}
+          className={`w-full ${buttonClassName}`}
+        >
+          {t("punch.in")}
+        </button>
+      )}
+
+      {started && !closed && (
+        <>
+          <div className="flex gap-2 mb-4">
+            <label htmlFor="punch-task" className="sr-only">
+              {t("punch.taskLabel")}
+            </label>
+            <input
+              id="punch-task"
+              type="text"
+              placeholder={t("punch.taskPlaceholder")}
+              list={suggestionsListId}
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleStartTask()}
+              className="flex-1 p-2 border rounded dark:bg-gray-700 dark:border-gray-600 dark:text-white dark:placeholder-gray-400"
+            />
+            <button
+              onClick={handleStartTask}
+              disabled={!description.trim()}
+              className={buttonClassName}
+            >
+              {t("punch.start")}
+            </button>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <button
+              onClick={() => onPunch((current) => stopRunningTask(current))}
+              disabled={!runningTask}
+              className="py-2 px-4 rounded border border-blue-600 text-blue-600 disabled:opacity-50 dark:border-blue-400 dark:text-blue-400"
+            >
+              {t("punch.stopTask")}
+            </button>
+            <button
+              onClick={() => onPunch((current) => punchOut(current))}
+              className={buttonClassName}
+            >
+              {t("punch.out")}
+            </button>
+          </div>
+        </>
+      )}
+
+      {closed && (
+        <button
+          onClick={() =>
+            onPunch((current) => ({ ...current, departureTime: null }))
+          }
+          className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+        >
+          {t("punch.resume")}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import {
+  isReminderSupported,
+  Reminder,
+  requestReminderPermission,
+  saveReminder,
+} from "@/lib/reminder";
+
+interface ReminderSettingsProps {
+  reminder: Reminder;
+  onSaved: (reminder: Reminder) => void;
+  onError: (message: string) => void;
+}
+
+const inputClassName =
+  "p-2 border rounded dark:bg-gray-700 dark:border-gray-600 dark:text-white";
+
+export default function ReminderSettings({
+  reminder,
+  onSaved,
+  onError,
+}: ReminderSettingsProps) {
+  const { t } = useI18n();
+  // Only known in the browser, after the first render
+  const [supported, setSupported] = useState(false);
+
+  useEffect(() => {
+    setSupported(isReminderSupported());
+  }, []);
+
+  const save = async (next: Reminder) => {
+    try {
+      await saveReminder(next);
+      onSaved(next);
+    } catch (error) {
+      console.error("Error saving reminder:", error);
+      onError(t("reminder.saveFailed"));
+    }
+  };
+
+  const toggle = async (enabled: boolean) => {
+    // The browser only asks once; a refusal has to be lifted in its settings
+    if (enabled && !(await requestReminderPermission())) {
+      onError(t("reminder.permissionDenied"));
+      return;
+    }
+    save({ ...reminder, enabled });
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 mb-6 dark:text-white">
+      <h2 className="text-xl font-semibold mb-4">{t("reminder.title")}</h2>
+      <p className="mb-4 text-sm text-gray-600 dark:text-gray-300">
+        {supported ? t("reminder.hint") : t("reminder.unsupported")}
+      </p>
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={reminder.enabled}
+            disabled={!supported}
+            onChange={(e) => toggle(e.target.checked)}
+          />
+          {t("reminder.enabled")}
+        </label>
+        <label className="flex items-center gap-2">
+          {t("reminder.time")}
+          <input
+            type="time"
+            value={reminder.time}
+            disabled={!supported || !reminder.enabled}
+            onChange={(e) =>
+              e.target.value && save({ ...reminder, time: e.target.value })
+            }
+            className={inputClassName}
+          />
+        </label>
+      </div>
+    </div>
+  );
+}
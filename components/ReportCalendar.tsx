@@ -0,0 +1,149 @@
+"use client";
+
+import dayjs, { Dayjs } from "dayjs";
+import { useMemo, useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import { formatDate, formatMonth, formatShortWeekday } from "@/lib/i18n";
+import { getDayKey, getPersonKey, Person, Report } from "@/lib/report";
+import { DayState, getMonthDays, WorkCalendar } from "@/lib/workCalendar";
+
+interface ReportCalendarProps {
+  reports: Report[];
+  // Only this person's reports count, or everyone's before a profile is set
+  person: Person | null;
+  calendar: WorkCalendar;
+  // Day of the report being written but not saved yet
+  draftDay: string | null;
+  onOpenReport: (report: Report) => void;
+  onStartReport: (date: Dayjs) => void;
+}
+
+const STATE_CLASSNAMES: Record<DayState, string> = {
+  report: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100",
+  draft: "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-100",
+  missing: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-100",
+  weekend: "bg-gray-100 text-gray-500 dark:bg-gray-700 dark:text-gray-400",
+  holiday:
+    "bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-100",
+  future: "dark:text-gray-300",
+};
+
+// Future days are left plain and need no legend
+const LEGEND: DayState[] = ["report", "draft", "missing", "weekend", "holiday"];
+
+const linkClassName =
+  "text-blue-600 hover:text-blue-800 disabled:opacity-50 dark:text-blue-400 dark:hover:text-blue-300";
+
+export default function ReportCalendar({
+  reports,
+  person,
+  calendar,
+  draftDay,
+  onOpenReport,
+  onStartReport,
+}: ReportCalendarProps) {
+  const { locale, t } = useI18n();
+  const [month, setMonth] = useState<Dayjs>(() => dayjs().startOf("month"));
+
+  const ownReports = useMemo(() => {
+    if (!person) return reports;
+    const key = getPersonKey(person);
+    return reports.filter((report) => getPersonKey(report) === key);
+  }, [reports, person]);
+
+  const days = useMemo(
+    () =>
+      getMonthDays(
+        month,
+        calendar,
+        new Set(ownReports.map((report) => getDayKey(report.date))),
+        draftDay
+      ),
+    [month, calendar, ownReports, draftDay]
+  );
+
+  const missingCount = days.filter(
+    (day) => !day.outside && day.state === "missing"
+  ).length;
+
+  const openDay = (date: Dayjs) => {
+    const found = ownReports.find((report) => report.date.isSame(date, "day"));
+    if (found) {
+      onOpenReport(found);
+    } else {
+      onStartReport(date);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 mb-6 dark:text-white">
+      <h2 className="text-xl font-semibold mb-4">{t("calendar.title")}</h2>
+
+      <div className="flex items-center justify-between mb-4">
+        <button
+          onClick={() => setMonth(month.subtract(1, "month"))}
+          className={linkClassName}
+        >
+          {t("common.previous")}
+        </button>
+        <span className="font-semibold">{formatMonth(month, locale)}</span>
+        <button
+          onClick={() => setMonth(month.add(1, "month"))}
+          className={linkClassName}
+        >
+          {t("common.next")}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-7 gap-1 text-center text-sm">
+        {days.slice(0, 7).map(({ date }) => (
+          <span
+            key={date.day()}
+            className="p-1 font-semibold text-gray-600 dark:text-gray-300"
+          >
+            {formatShortWeekday(date, locale)}
+          </span>
+        ))}
+        {days.map(({ date, state, holiday, outside }) => (
+          <button
+            key={date.valueOf()}
+            onClick={() => openDay(date)}
+            title={[formatDate(date, locale), t(`dayState.${state}`), holiday]
+              .filter(Boolean)
+              .join(" · ")}
+            className={`p-2 rounded ${STATE_CLASSNAMES[state]} ${
+              outside ? "opacity-40" : ""
+            } ${
+              date.isSame(dayjs(), "day") ? "ring-2 ring-blue-500" : ""
+            } hover:opacity-75`}
+          >
+            {date.date()}
+          </button>
+        ))}
+      </div>
+
+      <p
+        className={`mt-4 text-sm ${
+          missingCount
+            ? "text-red-600 dark:text-red-400"
+            : "text-green-700 dark:text-green-300"
+        }`}
+      >
+        {missingCount
+          ? t("calendar.missing", { count: missingCount })
+          : t("calendar.complete")}
+      </p>
+
+      <ul className="flex flex-wrap gap-2 mt-4 text-xs">
+        {LEGEND.map((state) => (
+          <li
+            key={state}
+            className={`px-2 py-1 rounded ${STATE_CLASSNAMES[state]}`}
+          >
+            {t(`dayState.${state}`)}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
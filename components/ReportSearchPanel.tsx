@@ -0,0 +1,243 @@
+"use client";
+
+import { DatePicker } from "@mui/x-date-pickers";
+import { Dayjs } from "dayjs";
+import { useEffect, useMemo, useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import { formatDate } from "@/lib/i18n";
+import { listPeople } from "@/lib/periodReport";
+import { formatPerson, getPersonKey, Person, Report } from "@/lib/report";
+import { getReportState } from "@/lib/reportRepository";
+import {
+  SEARCH_SORTS,
+  SearchResult,
+  SearchSort,
+  searchReports,
+  sortResults,
+} from "@/lib/reportSearch";
+import { formatDuration } from "@/lib/time";
+
+const PAGE_SIZE = 10;
+
+interface ReportSearchPanelProps {
+  // All stored reports, used to list people and to refresh after changes
+  reports: Report[];
+  currentReportId?: number;
+  // Author selected at first, so that each user starts with their own history
+  defaultAuthor?: Person | null;
+  onOpen: (report: Report) => void;
+  onDownload: (report: Report) => void;
+  onRemove: (report: Report) => void;
+}
+
+const fieldClassName =
+  "p-2 border rounded dark:bg-gray-700 dark:border-gray-600 dark:text-white";
+const linkClassName =
+  "text-blue-600 hover:text-blue-800 disabled:opacity-50 dark:text-blue-400 dark:hover:text-blue-300";
+
+export default function ReportSearchPanel({
+  reports,
+  currentReportId,
+  defaultAuthor,
+  onOpen,
+  onDownload,
+  onRemove,
+}: ReportSearchPanelProps) {
+  const { locale, t } = useI18n();
+  const people = useMemo(
+    () => listPeople(defaultAuthor ? [...reports, defaultAuthor] : reports),
+    [reports, defaultAuthor]
+  );
+  const [start, setStart] = useState<Dayjs | null>(null);
+  const [end, setEnd] = useState<Dayjs | null>(null);
+  const [authorKey, setAuthorKey] = useState(() =>
+    defaultAuthor ? getPersonKey(defaultAuthor) : ""
+  );
+  const [query, setQuery] = useState("");
+  const [sort, setSort] = useState<SearchSort>("dateDesc");
+  const [page, setPage] = useState(0);
+  const [results, setResults] = useState<SearchResult[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    searchReports({
+      start: start?.isValid() ? start : null,
+      end: end?.isValid() ? end : null,
+      author: people.find((p) => getPersonKey(p) === authorKey) || null,
+      query,
+    })
+      .then((found) => {
+        if (!cancelled) setResults(found);
+      })
+      .catch((error) => console.error("Error searching reports:", error));
+    return () => {
+      cancelled = true;
+    };
+    // `people` changes whenever a report is saved, deleted or imported
+  }, [start, end, authorKey, query, people]);
+
+  useEffect(() => {
+    setPage(0);
+  }, [start, end, authorKey, query, sort]);
+
+  const sorted = useMemo(() => sortResults(results, sort), [results, sort]);
+  const pageCount = Math.max(1, Math.ceil(sorted.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount - 1);
+  const visible = sorted.slice(
+    currentPage * PAGE_SIZE,
+    (currentPage + 1) * PAGE_SIZE
+  );
+
+  const resetFilters = () => {
+    setStart(null);
+    setEnd(null);
+    setAuthorKey("");
+    setQuery("");
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 dark:text-white">
+      <h2 className="text-xl font-semibold mb-4">{t("search.title")}</h2>
+
+      <input
+        type="search"
+        placeholder={t("search.placeholder")}
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        className={`w-full mb-4 ${fieldClassName}`}
+      />
+      <div className="grid grid-cols-2 gap-4 mb-4">
+        <DatePicker
+          label={t("common.from")}
+          value={start}
+          onChange={setStart}
+        />
+        <DatePicker label={t("common.to")} value={end} onChange={setEnd} />
+      </div>
+      <div className="grid grid-cols-2 gap-4 mb-4">
+        <select
+          value={authorKey}
+          onChange={(e) => setAuthorKey(e.target.value)}
+          className={fieldClassName}
+        >
+          <option value="">{t("incidents.allAuthors")}</option>
+          {people.map((person) => (
+            <option key={getPersonKey(person)} value={getPersonKey(person)}>
+              {formatPerson(person)}
+            </option>
+          ))}
+        </select>
+        <select
+          value={sort}
+          onChange={(e) => setSort(e.target.value as SearchSort)}
+          className={fieldClassName}
+        >
+          {SEARCH_SORTS.map((key) => (
+            <option key={key} value={key}>
+              {t("search.sortBy", { sort: t(`searchSort.${key}`) })}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex justify-between items-center mb-4 text-sm text-gray-600 dark:text-gray-300">
+        <span>{t("search.count", { count: sorted.length })}</span>
+        <button onClick={resetFilters} className={linkClassName}>
+          {t("incidents.resetFilters")}
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        {visible.map(
+          ({ report: r, snippets, workedMinutes, taskCount, hasProblems }) => (
+            <div
+              key={r.id}
+              className={`flex items-start gap-2 rounded ${
+                r.id === currentReportId ? "bg-blue-50 dark:bg-gray-700" : ""
+              }`}
+            >
+              <button
+                onClick={() => onOpen(r)}
+                className="flex-1 text-left p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded"
+              >
+                <span className="flex justify-between">
+                  <span>
+                    {formatDate(r.date, locale)} — {r.lastName} {r.firstName}
+                  </span>
+                  <span className="text-sm text-gray-500 dark:text-gray-400">
+                    {r.id === currentReportId
+                      ? t("search.editing")
+                      : t(`reportState.${getReportState(r)}`)}
+                  </span>
+                </span>
+                <span className="block text-sm text-gray-600 dark:text-gray-300">
+                  {t("search.taskCount", {
+                    duration: formatDuration(workedMinutes),
+                    count: taskCount,
+                  })}
+                  {hasProblems && (
+                    <span className="ml-2 text-red-600 dark:text-red-400">
+                      {t("search.problems")}
+                    </span>
+                  )}
+                </span>
+                {snippets.map((snippet, i) => (
+                  <span
+                    key={i}
+                    className="block text-sm text-gray-600 dark:text-gray-300"
+                  >
+                    <span className="text-gray-500 dark:text-gray-400">
+                      {t("search.snippetField", {
+                        field: t(`searchField.${snippet.field}`),
+                      })}
+                    </span>
+                    {snippet.before}
+                    <mark className="bg-yellow-200 dark:bg-yellow-600 dark:text-white">
+                      {snippet.match}
+                    </mark>
+                    {snippet.after}
+                  </span>
+                ))}
+              </button>
+              <button
+                onClick={() => onDownload(r)}
+                className="p-2 text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+              >
+                PDF
+              </button>
+              <button
+                onClick={() => onRemove(r)}
+                disabled={!!r.finalization}
+                className="p-2 text-red-600 hover:text-red-800 disabled:opacity-50 dark:text-red-400 dark:hover:text-red-300"
+              >
+                {t("common.delete")}
+              </button>
+            </div>
+          )
+        )}
+      </div>
+
+      {pageCount > 1 && (
+        <div className="flex justify-between items-center mt-4">
+          <button
+            onClick={() => setPage(currentPage - 1)}
+            disabled={currentPage === 0}
+            className={linkClassName}
+          >
+            {t("common.previous")}
+          </button>
+          <span className="text-sm text-gray-600 dark:text-gray-300">
+            {t("common.page", { page: currentPage + 1, count: pageCount })}
+          </span>
+          <button
+            onClick={() => setPage(currentPage + 1)}
+            disabled={currentPage === pageCount - 1}
+            className={linkClassName}
+          >
+            {t("common.next")}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+"use client";
+
+import { Fragment } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import { formatShortcut, SHORTCUTS } from "@/lib/shortcuts";
+
+export default function ShortcutHelp() {
+  const { t } = useI18n();
+
+  return (
+    <details className="mt-6 text-sm text-gray-700 dark:text-gray-300">
+      <summary className="cursor-pointer">{t("shortcuts.title")}</summary>
+      <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 mt-2">
+        {SHORTCUTS.map((shortcut) => (
+          <Fragment key={shortcut.action}>
+            <dt>
+              <kbd className="px-1 rounded border dark:border-gray-600">
+                {formatShortcut(shortcut, {
+                  alt: t("shortcuts.alt"),
+                  shift: t("shortcuts.shift"),
+                  mod: t("shortcuts.mod"),
+                })}
+              </kbd>
+            </dt>
+            <dd>{t(`shortcut.${shortcut.action}`)}</dd>
+          </Fragment>
+        ))}
+      </dl>
+    </details>
+  );
+}
@@ -0,0 +1,86 @@
+"use client";
+
+import { PointerEvent, useRef } from "react";
+import { useI18n } from "@/components/I18nProvider";
+
+interface SignaturePadProps {
+  // PNG data URL after each stroke, null once cleared
+  onChange: (signature: string | null) => void;
+}
+
+// Same 5:2 ratio as the signature area of the PDF
+const WIDTH = 500;
+const HEIGHT = 200;
+
+export default function SignaturePad({ onChange }: SignaturePadProps) {
+  const { t } = useI18n();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawing = useRef(false);
+
+  // The canvas is scaled by CSS, pointer positions are brought back to its
+  // own coordinates
+  const position = (event: PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return {
+      x: ((event.clientX - rect.left) * WIDTH) / rect.width,
+      y: ((event.clientY - rect.top) * HEIGHT) / rect.height,
+    };
+  };
+
+  const start = (event: PointerEvent<HTMLCanvasElement>) => {
+    const context = event.currentTarget.getContext("2d");
+    if (!context) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    drawing.current = true;
+    const { x, y } = position(event);
+    context.lineWidth = 3;
+    context.lineCap = "round";
+    context.lineJoin = "round";
+    context.strokeStyle = "#000";
+    context.beginPath();
+    context.moveTo(x, y);
+  };
+
+  const move = (event: PointerEvent<HTMLCanvasElement>) => {
+    if (!drawing.current) return;
+    const context = event.currentTarget.getContext("2d");
+    const { x, y } = position(event);
+    context?.lineTo(x, y);
+    context?.stroke();
+  };
+
+  const end = (event: PointerEvent<HTMLCanvasElement>) => {
+    if (!drawing.current) return;
+    drawing.current = false;
+    onChange(event.currentTarget.toDataURL("image/png"));
+  };
+
+  const clear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext("2d")?.clearRect(0, 0, WIDTH, HEIGHT);
+    onChange(null);
+  };
+
+  return (
+    <div>
+      <canvas
+        ref={canvasRef}
+        width={WIDTH}
+        height={HEIGHT}
+        onPointerDown={start}
+        onPointerMove={move}
+        onPointerUp={end}
+        onPointerCancel={end}
+        aria-label={t("finalize.signatureArea")}
+        className="w-full max-w-md bg-white border rounded touch-none dark:border-gray-600"
+      />
+      <button
+        type="button"
+        onClick={clear}
+        className="mt-2 text-sm text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300"
+      >
+        {t("finalize.clearSignature")}
+      </button>
+    </div>
+  );
+}
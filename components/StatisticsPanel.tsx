@@ -0,0 +1,242 @@
+"use client";
+
+import { DatePicker } from "@mui/x-date-pickers";
+import dayjs, { Dayjs } from "dayjs";
+import { useMemo, useState } from "react";
+import BarChart from "@/components/BarChart";
+import { useI18n } from "@/components/I18nProvider";
+import { formatDate } from "@/lib/i18n";
+import { DEFAULT_DAILY_TARGET_MINUTES, listPeople } from "@/lib/periodReport";
+import { formatPerson, getPersonKey, Report } from "@/lib/report";
+import { buildStatistics } from "@/lib/statistics";
+import { formatDuration, formatTimeOfDay, startOfWeek } from "@/lib/time";
+import { WorkCalendar } from "@/lib/workCalendar";
+
+type Breakdown = "category" | "keyword";
+
+// Number of missing-report streaks listed
+const STREAK_LIMIT = 5;
+
+interface StatisticsPanelProps {
+  // All stored reports, the statistics are computed from them locally
+  reports: Report[];
+  // Days without a report only count as missing on working days
+  calendar: WorkCalendar;
+  isDarkMode: boolean;
+}
+
+const linkClassName =
+  "text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300";
+
+export default function StatisticsPanel({
+  reports,
+  calendar,
+  isDarkMode,
+}: StatisticsPanelProps) {
+  const { locale, t } = useI18n();
+  const people = useMemo(() => listPeople(reports), [reports]);
+  const [personKey, setPersonKey] = useState("");
+  const [start, setStart] = useState<Dayjs | null>(() =>
+    startOfWeek(dayjs()).subtract(3, "week")
+  );
+  const [end, setEnd] = useState<Dayjs | null>(() => dayjs().startOf("day"));
+  const [breakdown, setBreakdown] = useState<Breakdown>("category");
+
+  const person = people.find((p) => getPersonKey(p) === personKey) || null;
+
+  const statistics = useMemo(
+    () =>
+      start?.isValid() && end?.isValid() && !end.isBefore(start, "day")
+        ? buildStatistics(
+            reports,
+            person,
+            start,
+            end,
+            dayjs(),
+            calendar,
+            locale
+          )
+        : null,
+    [reports, person, start, end, calendar, locale]
+  );
+
+  // Tasks without a category are grouped under an empty name
+  const breakdownPoints = useMemo(
+    () =>
+      !statistics
+        ? []
+        : breakdown === "keyword"
+          ? statistics.keywords
+          : statistics.categories.map((point) => ({
+              ...point,
+              label: point.label || t("category.uncategorized"),
+            })),
+    [statistics, breakdown, t]
+  );
+
+  const selectRange = (from: Dayjs) => {
+    setStart(from);
+    setEnd(dayjs().startOf("day"));
+  };
+
+  const card = (label: string, value: string) => (
+    <div className="p-4 border rounded-lg dark:border-gray-600">
+      <p className="text-sm text-gray-600 dark:text-gray-300">{label}</p>
+      <p className="text-2xl font-semibold">{value}</p>
+    </div>
+  );
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 mb-6 dark:text-white">
+      <h2 className="text-xl font-semibold mb-4">{t("statistics.title")}</h2>
+
+      <div className="grid grid-cols-3 gap-4 mb-4">
+        <select
+          value={personKey}
+          onChange={(e) => setPersonKey(e.target.value)}
+          className="p-2 border rounded dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+        >
+          <option value="">{t("common.everyone")}</option>
+          {people.map((p) => (
+            <option key={getPersonKey(p)} value={getPersonKey(p)}>
+              {formatPerson(p)}
+            </option>
+          ))}
+        </select>
+        <DatePicker
+          label={t("common.from")}
+          value={start}
+          onChange={setStart}
+        />
+        <DatePicker label={t("common.to")} value={end} onChange={setEnd} />
+      </div>
+      <div className="flex gap-4 mb-6">
+        <button
+          onClick={() => selectRange(startOfWeek(dayjs()).subtract(3, "week"))}
+          className={linkClassName}
+        >
+          {t("common.last4Weeks")}
+        </button>
+        <button
+          onClick={() => selectRange(dayjs().subtract(3, "month"))}
+          className={linkClassName}
+        >
+          {t("common.last3Months")}
+        </button>
+        <button
+          onClick={() => selectRange(dayjs().startOf("year"))}
+          className={linkClassName}
+        >
+          {t("common.thisYear")}
+        </button>
+      </div>
+
+      {!statistics ? (
+        <p className="text-gray-600 dark:text-gray-300">
+          {t("common.invalidPeriod")}
+        </p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+            {card(
+              t("statistics.averagePresence"),
+              statistics.averageWorkedMinutes === null
+                ? "-"
+                : formatDuration(statistics.averageWorkedMinutes)
+            )}
+            {card(
+              t("statistics.averageArrival"),
+              statistics.averageArrival === null
+                ? "-"
+                : formatTimeOfDay(statistics.averageArrival)
+            )}
+            {card(
+              t("statistics.averageDeparture"),
+              statistics.averageDeparture === null
+                ? "-"
+                : formatTimeOfDay(statistics.averageDeparture)
+            )}
+            {card(
+              t("statistics.daysWithProblems"),
+              `${statistics.daysWithProblems} / ${statistics.daysWithReports}`
+            )}
+          </div>
+
+          <h3 className="font-semibold mb-2">{t("statistics.hoursPerDay")}</h3>
+          <div className="mb-6">
+            <BarChart
+              points={statistics.dailyMinutes}
+              isDarkMode={isDarkMode}
+              formatValue={formatDuration}
+              reference={person ? DEFAULT_DAILY_TARGET_MINUTES : undefined}
+            />
+          </div>
+
+          <h3 className="font-semibold mb-2">{t("statistics.hoursPerWeek")}</h3>
+          <div className="mb-6">
+            <BarChart
+              points={statistics.weeklyMinutes}
+              isDarkMode={isDarkMode}
+              formatValue={formatDuration}
+            />
+          </div>
+
+          <div className="flex justify-between items-baseline mb-2">
+            <h3 className="font-semibold">{t("statistics.timeSplit")}</h3>
+            <select
+              value={breakdown}
+              onChange={(e) => setBreakdown(e.target.value as Breakdown)}
+              className="p-1 border rounded text-sm dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+            >
+              <option value="category">{t("statistics.byCategory")}</option>
+              <option value="keyword">{t("statistics.byKeyword")}</option>
+            </select>
+          </div>
+          <div className="mb-6">
+            <BarChart
+              points={breakdownPoints}
+              isDarkMode={isDarkMode}
+              formatValue={formatDuration}
+              horizontal
+            />
+          </div>
+
+          <h3 className="font-semibold mb-2">
+            {t("statistics.missingReports")}
+          </h3>
+          <p className="text-sm text-gray-600 dark:text-gray-300 mb-2">
+            {t("statistics.coverage", {
+              reported: statistics.daysWithReports,
+              working: statistics.workingDays,
+            })}
+          </p>
+          {statistics.missingStreaks.length ? (
+            <ul className="space-y-1">
+              {statistics.missingStreaks
+                .slice(0, STREAK_LIMIT)
+                .map((streak) => (
+                  <li key={streak.start.valueOf()}>
+                    {streak.days === 1
+                      ? t("statistics.missingDay", {
+                          date: formatDate(streak.start, locale),
+                        })
+                      : t("statistics.missingRange", {
+                          start: formatDate(streak.start, locale),
+                          end: formatDate(streak.end, locale),
+                        })}
+                    <span className="ml-2 text-sm text-red-600 dark:text-red-400">
+                      {t("statistics.workingDays", { count: streak.days })}
+                    </span>
+                  </li>
+                ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-green-700 dark:text-green-300">
+              {t("statistics.noMissing")}
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,224 @@
+"use client";
+
+import dayjs from "dayjs";
+import { useCallback, useEffect, useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import { formatDate, formatDateTime } from "@/lib/i18n";
+import { formatPerson, SerializedReport } from "@/lib/report";
+import {
+  createDefaultSyncSettings,
+  getConflicts,
+  getSyncSettings,
+  keepLocalVersion,
+  keepServerVersion,
+  saveSyncSettings,
+  SyncSettings as Settings,
+} from "@/lib/sync";
+import { getOutbox, getReportByUid } from "@/lib/syncRepository";
+
+interface SyncSettingsProps {
+  // Time of the last sync run by the page, to refresh the pending changes
+  lastSyncAt: string | null;
+  onSyncNow: () => Promise<void>;
+  // A conflict was settled in favour of the server copy
+  onResolved: () => void;
+  onError: (message: string) => void;
+}
+
+type Conflict = Awaited<ReturnType<typeof getConflicts>>[number];
+
+interface ConflictView {
+  entry: Conflict;
+  local?: SerializedReport;
+}
+
+const inputClassName =
+  "w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600 dark:text-white";
+const linkClassName =
+  "text-blue-600 hover:text-blue-800 disabled:opacity-50 dark:text-blue-400 dark:hover:text-blue-300";
+
+export default function SyncSettings({
+  lastSyncAt,
+  onSyncNow,
+  onResolved,
+  onError,
+}: SyncSettingsProps) {
+  const { locale, t } = useI18n();
+  const [settings, setSettings] = useState<Settings>(createDefaultSyncSettings);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [conflicts, setConflicts] = useState<ConflictView[]>([]);
+  const [syncing, setSyncing] = useState(false);
+
+  const loadState = useCallback(async () => {
+    try {
+      const [stored, outbox, open] = await Promise.all([
+        getSyncSettings(),
+        getOutbox(),
+        getConflicts(),
+      ]);
+      setSettings(stored);
+      setPendingCount(outbox.length);
+      setConflicts(
+        await Promise.all(
+          open.map(async (entry) => ({
+            entry,
+            local: await getReportByUid(entry.uid),
+          }))
+        )
+      );
+    } catch (error) {
+      console.error("Error loading sync state:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadState();
+  }, [loadState, lastSyncAt]);
+
+  const describe = (report?: SerializedReport | null) =>
+    report
+      ? `${formatPerson(report)}, ${formatDate(dayjs(report.date), locale)}`
+      : t("sync.deleted");
+
+  const update = <K extends keyof Settings>(field: K, value: Settings[K]) =>
+    setSettings((prev) => ({ ...prev, [field]: value }));
+
+  const handleSave = async () => {
+    try {
+      // Another server means pulling its whole history again
+      const stored = await getSyncSettings();
+      await saveSyncSettings({
+        ...settings,
+        lastRevision:
+          stored.serverUrl === settings.serverUrl ? stored.lastRevision : 0,
+        lastSyncAt: stored.lastSyncAt,
+      });
+      if (settings.enabled) await syncNow();
+    } catch (error) {
+      console.error("Error saving sync settings:", error);
+      onError(t("sync.saveFailed"));
+    }
+  };
+
+  const syncNow = async () => {
+    setSyncing(true);
+    try {
+      await onSyncNow();
+    } finally {
+      setSyncing(false);
+      loadState();
+    }
+  };
+
+  const resolve = async (conflict: ConflictView, keepLocal: boolean) => {
+    try {
+      if (keepLocal) {
+        await keepLocalVersion(conflict.entry);
+        await syncNow();
+      } else {
+        await keepServerVersion(conflict.entry);
+        onResolved();
+        loadState();
+      }
+    } catch (error) {
+      console.error("Error resolving sync conflict:", error);
+      onError(t("sync.resolveFailed"));
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 mb-6 dark:text-white">
+      <h2 className="text-xl font-semibold mb-4">{t("sync.title")}</h2>
+      <p className="mb-4 text-sm text-gray-600 dark:text-gray-300">
+        {t("sync.intro")}
+      </p>
+
+      <label className="flex items-center gap-2 mb-4">
+        <input
+          type="checkbox"
+          checked={settings.enabled}
+          onChange={(e) => update("enabled", e.target.checked)}
+        />
+        {t("sync.enable")}
+      </label>
+      <div className="grid grid-cols-2 gap-4 mb-4">
+        <input
+          type="url"
+          placeholder={t("sync.serverUrl")}
+          value={settings.serverUrl}
+          onChange={(e) => update("serverUrl", e.target.value)}
+          className={inputClassName}
+        />
+        <input
+          type="password"
+          placeholder={t("sync.token")}
+          value={settings.token}
+          onChange={(e) => update("token", e.target.value)}
+          className={inputClassName}
+        />
+      </div>
+
+      <div className="flex items-center gap-4 mb-4">
+        <button onClick={handleSave} className={linkClassName}>
+          {t("common.save")}
+        </button>
+        <button
+          onClick={syncNow}
+          disabled={!settings.enabled || syncing}
+          className={linkClassName}
+        >
+          {syncing ? t("sync.syncing") : t("sync.syncNow")}
+        </button>
+      </div>
+
+      <p className="text-sm text-gray-600 dark:text-gray-300">
+        {t("sync.pending", { count: pendingCount })}
+        {settings.lastSyncAt &&
+          t("sync.lastSync", {
+            date: formatDateTime(dayjs(settings.lastSyncAt), locale),
+          })}
+      </p>
+
+      {conflicts.length > 0 && (
+        <>
+          <h3 className="font-semibold mt-4 mb-2 text-red-600 dark:text-red-400">
+            {t("sync.conflicts")}
+          </h3>
+          <ul className="space-y-2">
+            {conflicts.map((conflict) => (
+              <li
+                key={conflict.entry.uid}
+                className="p-2 border rounded dark:border-gray-600 text-sm"
+              >
+                <p>{t("sync.local", { report: describe(conflict.local) })}</p>
+                <p>
+                  {t("sync.remote", {
+                    report: describe(conflict.entry.conflict.report),
+                    date: formatDateTime(
+                      dayjs(conflict.entry.conflict.updatedAt),
+                      locale
+                    ),
+                  })}
+                </p>
+                <div className="flex gap-4 mt-2">
+                  <button
+                    onClick={() => resolve(conflict, true)}
+                    className={linkClassName}
+                  >
+                    {t("sync.keepLocal")}
+                  </button>
+                  <button
+                    onClick={() => resolve(conflict, false)}
+                    className={linkClassName}
+                  >
+                    {t("sync.keepServer")}
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
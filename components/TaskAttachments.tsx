@@ -0,0 +1,165 @@
+"use client";
+
+import { ChangeEvent, useEffect, useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import {
+  ACCEPTED_ATTACHMENT_TYPES,
+  Attachment,
+  AttachmentError,
+  createAttachment,
+  getAttachments,
+  MAX_ATTACHMENT_SIZE,
+  MAX_ATTACHMENTS_PER_TASK,
+  saveAttachment,
+} from "@/lib/attachments";
+
+interface TaskAttachmentsProps {
+  ids: string[];
+  onChange: (ids: string[]) => void;
+  onError: (message: string) => void;
+}
+
+const buttonClassName =
+  "cursor-pointer text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300";
+
+export default function TaskAttachments({
+  ids,
+  onChange,
+  onError,
+}: TaskAttachmentsProps) {
+  const { t } = useI18n();
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [adding, setAdding] = useState(false);
+  const idsKey = ids.join(",");
+
+  useEffect(() => {
+    let cancelled = false;
+    getAttachments(idsKey ? idsKey.split(",") : [])
+      .then((found) => !cancelled && setAttachments(found))
+      .catch((error) => console.error("Error loading attachments:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [idsKey]);
+
+  const addFiles = async (event: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    event.target.value = "";
+    if (!files.length) return;
+    if (ids.length + files.length > MAX_ATTACHMENTS_PER_TASK) {
+      onError(t("attachments.tooMany", { max: MAX_ATTACHMENTS_PER_TASK }));
+      return;
+    }
+
+    setAdding(true);
+    try {
+      const added: string[] = [];
+      for (const file of files) {
+        added.push((await saveAttachment(await createAttachment(file))).id);
+      }
+      onChange([...ids, ...added]);
+    } catch (error) {
+      console.error("Error adding attachment:", error);
+      onError(
+        error instanceof AttachmentError
+          ? t(`attachments.error.${error.code}`, {
+              size: MAX_ATTACHMENT_SIZE / 1024 / 1024,
+            })
+          : t("attachments.addFailed")
+      );
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  // The file stays in the database until no report refers to it any more
+  const remove = (id: string) => onChange(ids.filter((other) => other !== id));
+
+  const open = (attachment: Attachment) => {
+    const url = URL.createObjectURL(attachment.blob);
+    window.open(url, "_blank");
+    setTimeout(() => URL.revokeObjectURL(url), 60_000);
+  };
+
+  return (
+    <div className="mt-2">
+      {ids.length > 0 && (
+        <ul className="flex flex-wrap gap-2 mb-2">
+          {ids.map((id) => {
+            const attachment = attachments.find((other) => other.id === id);
+            return (
+              <li
+                key={id}
+                className="w-24 text-xs text-center dark:text-gray-300"
+              >
+                {attachment ? (
+                  <button
+                    type="button"
+                    onClick={() => open(attachment)}
+                    title={attachment.name}
+                    className="block w-24 h-24 border rounded overflow-hidden dark:border-gray-600"
+                  >
+                    {attachment.thumbnail ? (
+                      // eslint-disable-next-line @next/next/no-img-element
+                      <img
+                        src={attachment.thumbnail}
+                        alt={attachment.name}
+                        className="w-full h-full object-cover"
+                      />
+                    ) : (
+                      <span className="block p-1 break-all">
+                        {attachment.name}
+                      </span>
+                    )}
+                  </button>
+                ) : (
+                  // Files of reports received through sync stay on the
+                  // device that added them
+                  <span className="flex items-center justify-center w-24 h-24 border rounded border-dashed text-gray-500 dark:border-gray-600">
+                    {t("attachments.missing")}
+                  </span>
+                )}
+                <button
+                  type="button"
+                  onClick={() => remove(id)}
+                  className="mt-1 text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300"
+                >
+                  {t("attachments.remove")}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      <div className="flex gap-4 text-sm">
+        <label className={buttonClassName}>
+          {t("attachments.addFile")}
+          <input
+            type="file"
+            multiple
+            accept={ACCEPTED_ATTACHMENT_TYPES}
+            onChange={addFiles}
+            disabled={adding}
+            className="hidden"
+          />
+        </label>
+        <label className={buttonClassName}>
+          {t("attachments.takePhoto")}
+          <input
+            type="file"
+            accept="image/*"
+            capture="environment"
+            onChange={addFiles}
+            disabled={adding}
+            className="hidden"
+          />
+        </label>
+        {adding && (
+          <span className="text-gray-500 dark:text-gray-400">
+            {t("attachments.adding")}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
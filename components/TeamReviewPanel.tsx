@@ -0,0 +1,289 @@
+"use client";
+
+import { DatePicker } from "@mui/x-date-pickers";
+import dayjs, { Dayjs } from "dayjs";
+import { useMemo, useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import {
+  formatDate,
+  formatDateTime,
+  formatShortDate,
+  formatWeekday,
+} from "@/lib/i18n";
+import { listPeople } from "@/lib/periodReport";
+import {
+  formatPerson,
+  getPersonKey,
+  isTaskBlank,
+  Person,
+  Report,
+  ReviewStatus,
+} from "@/lib/report";
+import { findMissingMembers, reviewReport, TeamMember } from "@/lib/team";
+import { durationMinutes, formatDuration, startOfWeek } from "@/lib/time";
+import { isWorkingDay, WorkCalendar } from "@/lib/workCalendar";
+
+interface TeamReviewPanelProps {
+  reports: Report[];
+  members: TeamMember[];
+  reviewer: Person;
+  calendar: WorkCalendar;
+  onReviewed: (report: Report) => void;
+  onOpenReport: (report: Report) => void;
+  onError: (message: string) => void;
+}
+
+const STATUS_CLASSNAMES: Record<ReviewStatus | "pending", string> = {
+  validated:
+    "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100",
+  returned:
+    "bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-100",
+  pending: "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-100",
+};
+
+const linkClassName =
+  "text-blue-600 hover:text-blue-800 disabled:opacity-50 dark:text-blue-400 dark:hover:text-blue-300";
+
+export default function TeamReviewPanel({
+  reports,
+  members,
+  reviewer,
+  calendar,
+  onReviewed,
+  onOpenReport,
+  onError,
+}: TeamReviewPanelProps) {
+  const { locale, t } = useI18n();
+  const [day, setDay] = useState<Dayjs>(() => dayjs().startOf("day"));
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [comment, setComment] = useState("");
+
+  // Working days of the week, and the days off someone wrote a report on
+  const weekDays = useMemo(() => {
+    const monday = startOfWeek(day);
+    return Array.from({ length: 7 }, (_, i) => monday.add(i, "day")).filter(
+      (date) =>
+        isWorkingDay(calendar, date) ||
+        reports.some((report) => report.date.isSame(date, "day"))
+    );
+  }, [day, reports, calendar]);
+
+  const weekReports = useMemo(
+    () =>
+      reports.filter((report) =>
+        weekDays.some((date) => report.date.isSame(date, "day"))
+      ),
+    [reports, weekDays]
+  );
+
+  // Team members first, then anyone else who wrote a report that week
+  const people = useMemo(() => {
+    const keys = new Set(members.map(getPersonKey));
+    return [
+      ...members,
+      ...listPeople(weekReports).filter((p) => !keys.has(getPersonKey(p))),
+    ];
+  }, [members, weekReports]);
+
+  const missing = findMissingMembers(members, reports, day, calendar);
+  const selected = reports.find((report) => report.id === selectedId) || null;
+
+  const select = (report: Report) => {
+    setSelectedId(report.id ?? null);
+    setComment(report.review?.comment || "");
+  };
+
+  const submitReview = async (status: ReviewStatus) => {
+    if (!selected) return;
+    if (status === "returned" && !comment.trim()) {
+      onError(t("review.commentRequired"));
+      return;
+    }
+    try {
+      onReviewed(await reviewReport(selected, status, comment, reviewer));
+    } catch (error) {
+      console.error("Error reviewing report:", error);
+      onError(t("review.saveFailed"));
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 mb-6 dark:text-white">
+      <h2 className="text-xl font-semibold mb-4">{t("review.title")}</h2>
+
+      <div className="flex items-center gap-4 mb-4">
+        <DatePicker
+          label={t("review.day")}
+          value={day}
+          onChange={(value) => value?.isValid() && setDay(value.startOf("day"))}
+        />
+        <button
+          onClick={() => setDay(day.subtract(1, "week"))}
+          className={linkClassName}
+        >
+          {t("review.previousWeek")}
+        </button>
+        <button
+          onClick={() => setDay(day.add(1, "week"))}
+          className={linkClassName}
+        >
+          {t("review.nextWeek")}
+        </button>
+      </div>
+
+      <div className="overflow-x-auto mb-6">
+        <table className="w-full text-sm">
+          <thead>
+            <tr>
+              <th className="text-left p-2">{t("review.member")}</th>
+              {weekDays.map((date) => (
+                <th key={date.valueOf()} className="p-2">
+                  <button
+                    onClick={() => setDay(date)}
+                    className={
+                      date.isSame(day, "day") ? "underline" : linkClassName
+                    }
+                  >
+                    {formatWeekday(date, locale).slice(0, 3)}{" "}
+                    {formatShortDate(date, locale)}
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {people.map((person) => (
+              <tr
+                key={getPersonKey(person)}
+                className="border-t dark:border-gray-600"
+              >
+                <td className="p-2">{formatPerson(person)}</td>
+                {weekDays.map((date) => {
+                  const dayReports = weekReports.filter(
+                    (report) =>
+                      report.date.isSame(date, "day") &&
+                      getPersonKey(report) === getPersonKey(person)
+                  );
+                  return (
+                    <td key={date.valueOf()} className="p-2 text-center">
+                      {dayReports.length ? (
+                        dayReports.map((report) => (
+                          <button
+                            key={report.id}
+                            onClick={() => select(report)}
+                            className={`px-2 py-0.5 rounded ${
+                              STATUS_CLASSNAMES[
+                                report.review?.status || "pending"
+                              ]
+                            } ${
+                              report.id === selectedId
+                                ? "ring-2 ring-blue-500"
+                                : ""
+                            }`}
+                          >
+                            {report.review
+                              ? t(`reviewStatus.${report.review.status}`)
+                              : t("review.pending")}
+                          </button>
+                        ))
+                      ) : (
+                        <span className="text-gray-400">—</span>
+                      )}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <h3 className="font-semibold mb-2">
+        {t("review.missing", { date: formatDate(day, locale) })}
+      </h3>
+      {missing.length ? (
+        <ul className="mb-6 list-disc list-inside text-red-600 dark:text-red-400">
+          {missing.map((member) => (
+            <li key={member.id}>{formatPerson(member)}</li>
+          ))}
+        </ul>
+      ) : !isWorkingDay(calendar, day) ? (
+        <p className="mb-6 text-sm text-gray-600 dark:text-gray-300">
+          {t("review.dayOff")}
+        </p>
+      ) : (
+        <p className="mb-6 text-sm text-green-700 dark:text-green-300">
+          {t("review.allSubmitted")}
+        </p>
+      )}
+
+      {selected && (
+        <div className="p-4 border rounded-lg dark:border-gray-600">
+          <div className="flex justify-between items-baseline mb-2">
+            <h3 className="font-semibold">
+              {formatPerson(selected)} — {formatDate(selected.date, locale)}
+            </h3>
+            <button
+              onClick={() => onOpenReport(selected)}
+              className={linkClassName}
+            >
+              {t("common.openReport")}
+            </button>
+          </div>
+          <p className="text-sm text-gray-600 dark:text-gray-300 mb-2">
+            {selected.arrivalTime?.format("HH:mm") || "-"} -{" "}
+            {selected.departureTime?.format("HH:mm") || "-"} (
+            {formatDuration(
+              durationMinutes(selected.arrivalTime, selected.departureTime)
+            )}
+            )
+          </p>
+          <ul className="mb-4 space-y-1 text-sm">
+            {selected.tasks
+              .filter((task) => !isTaskBlank(task))
+              .map((task, i) => (
+                <li key={i}>
+                  {task.startTime?.format("HH:mm") || "--:--"}{" "}
+                  {task.description}
+                  {task.problems?.trim() && (
+                    <span className="block ml-12 text-red-600 dark:text-red-400">
+                      {t("review.problems", { problems: task.problems })}
+                    </span>
+                  )}
+                </li>
+              ))}
+          </ul>
+          {selected.review && (
+            <p className="mb-2 text-sm text-gray-600 dark:text-gray-300">
+              {t("review.reviewedBy", {
+                status: t(`reviewStatus.${selected.review.status}`),
+                reviewer: selected.review.reviewer,
+                date: formatDateTime(dayjs(selected.review.reviewedAt), locale),
+              })}
+            </p>
+          )}
+          <textarea
+            placeholder={t("review.commentPlaceholder")}
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            className="w-full h-20 p-2 mb-4 border rounded dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+          />
+          <div className="grid grid-cols-2 gap-4">
+            <button
+              onClick={() => submitReview("returned")}
+              className="py-2 px-4 rounded border border-orange-600 text-orange-600 dark:border-orange-400 dark:text-orange-400"
+            >
+              {t("review.return")}
+            </button>
+            <button
+              onClick={() => submitReview("validated")}
+              className="py-2 px-4 rounded text-white bg-green-600 hover:bg-green-700 dark:bg-green-700 dark:hover:bg-green-800"
+            >
+              {t("review.validate")}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
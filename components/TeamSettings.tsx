@@ -0,0 +1,156 @@
+"use client";
+
+import { useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import { createEmptyProfile } from "@/lib/profile";
+import { formatPerson, getPersonKey } from "@/lib/report";
+import { deleteMember, saveMember, TeamMember } from "@/lib/team";
+
+interface TeamSettingsProps {
+  members: TeamMember[];
+  activeMemberId?: number;
+  onSwitch: (member: TeamMember) => void;
+  onChanged: () => void;
+  onError: (message: string) => void;
+}
+
+const inputClassName =
+  "w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600 dark:text-white";
+const linkClassName =
+  "text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300";
+
+export default function TeamSettings({
+  members,
+  activeMemberId,
+  onSwitch,
+  onChanged,
+  onError,
+}: TeamSettingsProps) {
+  const { t } = useI18n();
+  const [firstName, setFirstName] = useState("");
+  const [lastName, setLastName] = useState("");
+
+  const run = async (action: () => Promise<unknown>, message: string) => {
+    try {
+      await action();
+      onChanged();
+    } catch (error) {
+      console.error("Error updating team:", error);
+      onError(message);
+    }
+  };
+
+  const addMember = () => {
+    const person = { firstName: firstName.trim(), lastName: lastName.trim() };
+    if (!person.firstName || !person.lastName) {
+      onError(t("team.nameRequired"));
+      return;
+    }
+    if (members.some((m) => getPersonKey(m) === getPersonKey(person))) {
+      onError(t("team.duplicate"));
+      return;
+    }
+    setFirstName("");
+    setLastName("");
+    run(
+      () =>
+        saveMember({
+          ...createEmptyProfile(),
+          ...person,
+          manager: !members.length,
+        }),
+      t("team.addFailed")
+    );
+  };
+
+  const toggleManager = (member: TeamMember) => {
+    if (member.manager && members.filter((m) => m.manager).length === 1) {
+      onError(t("team.lastManager"));
+      return;
+    }
+    run(
+      () => saveMember({ ...member, manager: !member.manager }),
+      t("team.updateFailed")
+    );
+  };
+
+  const removeMember = (member: TeamMember) => {
+    if (member.id === undefined) return;
+    if (member.id === activeMemberId) {
+      onError(t("team.removeActive"));
+      return;
+    }
+    if (
+      !window.confirm(t("team.confirmRemove", { person: formatPerson(member) }))
+    ) {
+      return;
+    }
+    run(() => deleteMember(member.id as number), t("team.removeFailed"));
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 mb-6 dark:text-white">
+      <h2 className="text-xl font-semibold mb-4">{t("team.title")}</h2>
+      <p className="mb-4 text-sm text-gray-600 dark:text-gray-300">
+        {t("team.intro")}
+      </p>
+
+      <ul className="mb-4 space-y-2">
+        {members.map((member) => (
+          <li key={member.id} className="flex items-center gap-4">
+            <span className="flex-1">
+              {formatPerson(member)}
+              {member.id === activeMemberId && (
+                <span className="ml-2 text-sm text-gray-500 dark:text-gray-400">
+                  {t("team.activeUser")}
+                </span>
+              )}
+            </span>
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={member.manager}
+                onChange={() => toggleManager(member)}
+              />
+              {t("team.manager")}
+            </label>
+            {member.id !== activeMemberId && (
+              <button
+                onClick={() => onSwitch(member)}
+                className={linkClassName}
+              >
+                {t("team.use")}
+              </button>
+            )}
+            <button
+              onClick={() => removeMember(member)}
+              className="text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300"
+            >
+              {t("team.remove")}
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <div className="grid grid-cols-[1fr_1fr_auto] gap-4">
+        <input
+          type="text"
+          placeholder={t("common.firstName")}
+          value={firstName}
+          onChange={(e) => setFirstName(e.target.value)}
+          className={inputClassName}
+        />
+        <input
+          type="text"
+          placeholder={t("common.lastName")}
+          value={lastName}
+          onChange={(e) => setLastName(e.target.value)}
+          className={inputClassName}
+        />
+        <button onClick={addMember} className={linkClassName}>
+          {t("common.add")}
+        </button>
+      </div>
+    </div>
+  );
+}
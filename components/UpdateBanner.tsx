@@ -0,0 +1,35 @@
+"use client";
+
+import { useI18n } from "@/components/I18nProvider";
+
+interface UpdateBannerProps {
+  onUpdate: () => void;
+  onDismiss: () => void;
+}
+
+export default function UpdateBanner({
+  onUpdate,
+  onDismiss,
+}: UpdateBannerProps) {
+  const { t } = useI18n();
+
+  return (
+    <div className="flex justify-between items-center gap-4 bg-blue-50 dark:bg-gray-800 border border-blue-300 dark:border-blue-700 text-blue-800 dark:text-blue-200 px-4 py-3 rounded mb-4">
+      <span>{t("update.available")}</span>
+      <div className="flex gap-4 shrink-0">
+        <button
+          onClick={onUpdate}
+          className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+        >
+          {t("update.apply")}
+        </button>
+        <button
+          onClick={onDismiss}
+          className="text-gray-600 hover:text-gray-800 dark:text-gray-400 dark:hover:text-gray-300"
+        >
+          {t("update.later")}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+"use client";
+
+import dayjs from "dayjs";
+import { ChangeEvent, useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import { BackupError, parseBackup } from "@/lib/backup";
+import {
+  isFinalizationSupported,
+  Verification,
+  VerificationStatus,
+  verifyReports,
+} from "@/lib/finalization";
+import { formatDate, formatDateTime } from "@/lib/i18n";
+import { formatPerson, SerializedReport } from "@/lib/report";
+import { getAllReports } from "@/lib/reportRepository";
+
+interface VerifyPanelProps {
+  onError: (message: string) => void;
+}
+
+type Source = "stored" | "backup";
+
+const STATUS_CLASSNAMES: Record<VerificationStatus, string> = {
+  valid: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100",
+  modified: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-100",
+  notFinalized: "bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300",
+};
+
+const buttonClassName =
+  "py-2 px-4 rounded text-white disabled:opacity-50 bg-blue-600 hover:bg-blue-700 dark:bg-blue-700 dark:hover:bg-blue-800";
+
+// Recomputes the hash of every finalized report, either stored on this
+// device or read from a backup file, and flags those changed since
+export default function VerifyPanel({ onError }: VerifyPanelProps) {
+  const { locale, t } = useI18n();
+  const [results, setResults] = useState<{
+    source: Source;
+    verifications: Verification[];
+  } | null>(null);
+
+  const verify = async (source: Source, reports: SerializedReport[]) => {
+    if (!isFinalizationSupported()) {
+      onError(t("finalize.unsupported"));
+      return;
+    }
+    const verifications = await verifyReports(reports);
+    setResults({
+      source,
+      verifications: verifications.sort((a, b) =>
+        b.report.date.localeCompare(a.report.date)
+      ),
+    });
+  };
+
+  const verifyStored = async () => {
+    try {
+      await verify("stored", await getAllReports());
+    } catch (error) {
+      console.error("Error verifying reports:", error);
+      onError(t("verify.failed"));
+    }
+  };
+
+  const verifyBackup = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      await verify("backup", parseBackup(await file.text()).reports);
+    } catch (error) {
+      console.error("Error verifying backup:", error);
+      onError(
+        error instanceof BackupError
+          ? t(`backup.error.${error.code}`, error.params)
+          : t("verify.failed")
+      );
+    }
+  };
+
+  const finalized = results?.verifications.filter(
+    ({ status }) => status !== "notFinalized"
+  );
+  const count = (status: VerificationStatus) =>
+    results?.verifications.filter((item) => item.status === status).length ?? 0;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 mb-6 dark:text-white">
+      <h2 className="text-xl font-semibold mb-4">{t("verify.title")}</h2>
+      <p className="mb-4 text-sm text-gray-600 dark:text-gray-300">
+        {t("verify.hint")}
+      </p>
+      <div className="grid grid-cols-2 gap-4 mb-6">
+        <button onClick={verifyStored} className={buttonClassName}>
+          {t("verify.stored")}
+        </button>
+        <label className={`text-center cursor-pointer ${buttonClassName}`}>
+          {t("verify.backup")}
+          <input
+            type="file"
+            accept="application/json,.json"
+            onChange={verifyBackup}
+            className="hidden"
+          />
+        </label>
+      </div>
+
+      {results && (
+        <>
+          <p
+            className={`mb-4 text-sm ${
+              count("modified")
+                ? "text-red-600 dark:text-red-400"
+                : "text-green-700 dark:text-green-300"
+            }`}
+          >
+            {t(`verify.summary.${results.source}`, {
+              valid: count("valid"),
+              modified: count("modified"),
+              notFinalized: count("notFinalized"),
+            })}
+          </p>
+          {finalized?.length ? (
+            <ul className="space-y-2 text-sm">
+              {finalized.map(({ report, status }, index) => (
+                <li
+                  key={`${report.uid ?? report.id}-${index}`}
+                  className="p-2 border rounded dark:border-gray-600"
+                >
+                  <div className="flex justify-between gap-4">
+                    <span>
+                      {formatDate(dayjs(report.date), locale)} ·{" "}
+                      {formatPerson(report)}
+                    </span>
+                    <span
+                      className={`px-2 py-0.5 rounded ${STATUS_CLASSNAMES[status]}`}
+                    >
+                      {t(`verificationStatus.${status}`)}
+                    </span>
+                  </div>
+                  {report.finalization && (
+                    <p className="mt-1 text-xs text-gray-600 dark:text-gray-300 break-all">
+                      {t("verify.finalizedAt", {
+                        date: formatDateTime(
+                          dayjs(report.finalization.finalizedAt),
+                          locale
+                        ),
+                      })}{" "}
+                      · {report.finalization.hash}
+                    </p>
+                  )}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-gray-600 dark:text-gray-300">
+              {t("verify.noneFinalized")}
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
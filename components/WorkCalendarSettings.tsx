@@ -0,0 +1,183 @@
+"use client";
+
+import { DatePicker } from "@mui/x-date-pickers";
+import dayjs, { Dayjs } from "dayjs";
+import { ChangeEvent, useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import { formatDate, formatWeekday } from "@/lib/i18n";
+import { getDayKey } from "@/lib/report";
+import {
+  mergeHolidays,
+  parseIcsHolidays,
+  saveWorkCalendar,
+  WorkCalendar,
+} from "@/lib/workCalendar";
+
+interface WorkCalendarSettingsProps {
+  calendar: WorkCalendar;
+  onSaved: (calendar: WorkCalendar) => void;
+  onError: (message: string) => void;
+}
+
+// Monday first, numbered like Dayjs.day()
+const WEEK_DAYS = [1, 2, 3, 4, 5, 6, 0];
+
+const inputClassName =
+  "w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600 dark:text-white";
+const deleteClassName =
+  "text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300";
+const addClassName =
+  "shrink-0 cursor-pointer text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300";
+
+// Every change is saved right away, like the language settings
+export default function WorkCalendarSettings({
+  calendar,
+  onSaved,
+  onError,
+}: WorkCalendarSettingsProps) {
+  const { locale, t } = useI18n();
+  const [date, setDate] = useState<Dayjs | null>(null);
+  const [name, setName] = useState("");
+  const [message, setMessage] = useState<string | null>(null);
+
+  const save = async (next: WorkCalendar) => {
+    try {
+      await saveWorkCalendar(next);
+      onSaved(next);
+    } catch (error) {
+      console.error("Error saving work calendar:", error);
+      onError(t("workCalendar.saveFailed"));
+    }
+  };
+
+  const toggleDay = (day: number) =>
+    save({
+      ...calendar,
+      workingDays: calendar.workingDays.includes(day)
+        ? calendar.workingDays.filter((other) => other !== day)
+        : [...calendar.workingDays, day].sort((a, b) => a - b),
+    });
+
+  const addHoliday = () => {
+    if (!date?.isValid()) return;
+    setDate(null);
+    setName("");
+    save({
+      ...calendar,
+      holidays: mergeHolidays(calendar.holidays, [
+        { date: getDayKey(date), name: name.trim() },
+      ]),
+    });
+  };
+
+  const removeHoliday = (key: string) =>
+    save({
+      ...calendar,
+      holidays: calendar.holidays.filter((holiday) => holiday.date !== key),
+    });
+
+  const importIcs = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    setMessage(null);
+    try {
+      const imported = parseIcsHolidays(await file.text());
+      if (!imported.length) {
+        onError(t("workCalendar.icsEmpty"));
+        return;
+      }
+      await save({
+        ...calendar,
+        holidays: mergeHolidays(calendar.holidays, imported),
+      });
+      setMessage(t("workCalendar.icsImported", { count: imported.length }));
+    } catch (error) {
+      console.error("Error reading calendar file:", error);
+      onError(t("workCalendar.icsUnreadable"));
+    }
+  };
+
+  // Holidays of past years still show in the calendar but aren't listed
+  const holidays = calendar.holidays.filter(
+    (holiday) => holiday.date >= getDayKey(dayjs().startOf("year"))
+  );
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 mb-6 dark:text-white">
+      <h2 className="text-xl font-semibold mb-4">{t("workCalendar.title")}</h2>
+
+      <h3 className="font-semibold mb-2">{t("workCalendar.workingDays")}</h3>
+      <div className="flex flex-wrap gap-4 mb-6">
+        {WEEK_DAYS.map((day) => (
+          <label key={day} className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={calendar.workingDays.includes(day)}
+              onChange={() => toggleDay(day)}
+            />
+            {formatWeekday(dayjs().day(day), locale)}
+          </label>
+        ))}
+      </div>
+
+      <div className="flex justify-between items-baseline mb-2">
+        <h3 className="font-semibold">{t("workCalendar.holidays")}</h3>
+        <label className={addClassName}>
+          {t("workCalendar.importIcs")}
+          <input
+            type="file"
+            accept=".ics,text/calendar"
+            onChange={importIcs}
+            className="hidden"
+          />
+        </label>
+      </div>
+      {message && (
+        <p className="mb-2 text-sm text-green-700 dark:text-green-300">
+          {message}
+        </p>
+      )}
+      {holidays.length ? (
+        <ul className="mb-4 space-y-1 text-sm">
+          {holidays.map((holiday) => (
+            <li key={holiday.date} className="flex justify-between gap-4">
+              <span>
+                {formatDate(dayjs(holiday.date), locale)}
+                {holiday.name && ` · ${holiday.name}`}
+              </span>
+              <button
+                onClick={() => removeHoliday(holiday.date)}
+                className={deleteClassName}
+              >
+                {t("common.delete")}
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="mb-4 text-sm text-gray-600 dark:text-gray-300">
+          {t("workCalendar.noHolidays")}
+        </p>
+      )}
+      <div className="flex items-center gap-4">
+        <DatePicker
+          label={t("workCalendar.date")}
+          value={date}
+          onChange={setDate}
+        />
+        <input
+          type="text"
+          placeholder={t("workCalendar.name")}
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className={inputClassName}
+        />
+        <button onClick={addHoliday} className={addClassName}>
+          {t("common.add")}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,12 @@
+import { useEffect } from "react";
+import { deleteUnusedAttachments } from "@/lib/attachments";
+
+// Clears, once per page load, the files that no report or draft refers to,
+// once their grace delay is over
+export const useAttachmentCleanup = () => {
+  useEffect(() => {
+    deleteUnusedAttachments().catch((error) =>
+      console.error("Error deleting unused attachments:", error)
+    );
+  }, []);
+};
@@ -0,0 +1,45 @@
+import { useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import { deserializeReport, Report, SerializedReport } from "@/lib/report";
+
+interface FinalizationOptions {
+  // Whether the report matches its stored version
+  isStored: () => boolean;
+  // Validates the report, reporting the issues itself
+  check: () => boolean;
+  onFinalized: (report: Report) => void;
+  onError: (message: string) => void;
+}
+
+// Signing flow of the open report. Only the stored version of a report can be
+// finalized, so that the hash matches what was saved.
+export const useFinalization = (
+  report: Report,
+  { isStored, check, onFinalized, onError }: FinalizationOptions
+) => {
+  const { t } = useI18n();
+  // Saved report whose signature is being drawn
+  const [finalizingId, setFinalizingId] = useState<number | null>(null);
+
+  const start = () => {
+    if (report.id === undefined) return;
+    if (!isStored()) {
+      onError(t("finalize.saveFirst"));
+      return;
+    }
+    if (!check()) return;
+    setFinalizingId(report.id);
+  };
+
+  const finish = (saved: SerializedReport) => {
+    setFinalizingId(null);
+    onFinalized(deserializeReport(saved));
+  };
+
+  return {
+    signing: report.id !== undefined && finalizingId === report.id,
+    start,
+    finish,
+    cancel: () => setFinalizingId(null),
+  };
+};
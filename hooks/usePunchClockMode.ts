@@ -0,0 +1,30 @@
+import { useEffect, useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import { PUNCH_CLOCK_SETTING } from "@/lib/punchClock";
+import { getSetting, saveSetting } from "@/lib/settingsRepository";
+
+// Whether times are stamped live, a choice kept on the device
+export const usePunchClockMode = (onError: (message: string) => void) => {
+  const { t } = useI18n();
+  const [enabled, setEnabled] = useState(false);
+
+  useEffect(() => {
+    getSetting<boolean>(PUNCH_CLOCK_SETTING)
+      .then((stored) => setEnabled(!!stored))
+      .catch((error) =>
+        console.error("Error loading punch clock mode:", error)
+      );
+  }, []);
+
+  const changeMode = async (next: boolean) => {
+    setEnabled(next);
+    try {
+      await saveSetting(PUNCH_CLOCK_SETTING, next);
+    } catch (error) {
+      console.error("Error saving punch clock mode:", error);
+      onError(t("app.punchClockFailed"));
+    }
+  };
+
+  return [enabled, changeMode] as const;
+};
@@ -0,0 +1,69 @@
+import { useEffect, useMemo, useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import {
+  checkReminder,
+  createDefaultReminder,
+  getReminder,
+  getReminderDelay,
+  getSkipDays,
+  publishReminder,
+  Reminder,
+  registerReminderSync,
+} from "@/lib/reminder";
+import { getDayKey, getPersonKey, Person, Report } from "@/lib/report";
+import { WorkCalendar } from "@/lib/workCalendar";
+
+// Loads the end-of-day reminder and keeps it scheduled. It is skipped on the
+// days off and on the days the person already has a report for.
+export const useReminder = (
+  calendar: WorkCalendar,
+  reports: Report[],
+  person: Person | null
+) => {
+  const { t } = useI18n();
+  const [reminder, setReminder] = useState<Reminder>(createDefaultReminder);
+
+  useEffect(() => {
+    getReminder()
+      .then(setReminder)
+      .catch((error) => console.error("Error loading reminder:", error));
+  }, []);
+
+  // Days on which the person already has a report
+  const reportDays = useMemo(() => {
+    const key = person ? getPersonKey(person) : null;
+    return new Set(
+      reports
+        .filter((r) => key === null || getPersonKey(r) === key)
+        .map((r) => getDayKey(r.date))
+    );
+  }, [reports, person]);
+
+  // Hands the reminder over to the service worker and, while the page stays
+  // open, asks it to check at the chosen time
+  useEffect(() => {
+    const state = reminder.enabled
+      ? {
+          time: reminder.time,
+          title: t("reminder.notificationTitle"),
+          body: t("reminder.notificationBody"),
+          skipDays: getSkipDays(calendar, reportDays),
+        }
+      : null;
+    publishReminder(state)
+      .then(() => registerReminderSync(reminder.enabled))
+      .catch((error) => console.error("Error scheduling reminder:", error));
+    if (!state) return;
+
+    const delay = getReminderDelay(reminder.time);
+    if (delay === null) return;
+    const timeout = setTimeout(() => {
+      checkReminder().catch((error) =>
+        console.error("Error checking reminder:", error)
+      );
+    }, delay);
+    return () => clearTimeout(timeout);
+  }, [reminder, calendar, reportDays, t]);
+
+  return [reminder, setReminder] as const;
+};
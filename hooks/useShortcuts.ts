@@ -0,0 +1,24 @@
+import { useEffect, useRef } from "react";
+import { getShortcutAction, ShortcutAction } from "@/lib/shortcuts";
+
+// Runs the keyboard shortcuts while enabled. The listener outlives renders and
+// calls the latest handler, which sees the current report.
+export const useShortcuts = (
+  enabled: boolean,
+  run: (action: ShortcutAction) => void
+) => {
+  const handler = useRef(run);
+  handler.current = run;
+
+  useEffect(() => {
+    if (!enabled) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const action = getShortcutAction(event);
+      if (!action) return;
+      event.preventDefault();
+      handler.current(action);
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [enabled]);
+};
@@ -0,0 +1,41 @@
+import { useEffect, useRef } from "react";
+import { Task } from "@/lib/report";
+
+// Moves the focus between the task cards, marked with data-task-index, and
+// the add button, which takes index -1
+export const useTaskFocus = (tasks: Task[]) => {
+  const addTaskButtonRef = useRef<HTMLButtonElement>(null);
+  // Task control to focus once the task list has been rendered again
+  const focusRequest = useRef<{ index: number; control?: string } | null>(null);
+
+  const focusTask = (index: number, control?: string) => {
+    if (index < 0) {
+      addTaskButtonRef.current?.focus();
+      return;
+    }
+    const card = document.querySelector(`[data-task-index="${index}"]`);
+    const target = card?.querySelector<HTMLElement>(
+      control ? `[data-task-control="${control}"]` : "input"
+    );
+    // A move button is disabled once the task reaches the end of the list
+    if (target?.matches(":disabled")) {
+      card?.querySelector<HTMLElement>('[data-task-control="handle"]')?.focus();
+    } else {
+      target?.focus();
+    }
+  };
+
+  useEffect(() => {
+    const request = focusRequest.current;
+    if (!request) return;
+    focusRequest.current = null;
+    focusTask(request.index, request.control);
+  }, [tasks]);
+
+  // Focuses the task once the change being made to the list is rendered
+  const focusTaskAfterUpdate = (index: number, control?: string) => {
+    focusRequest.current = { index, control };
+  };
+
+  return { addTaskButtonRef, focusTask, focusTaskAfterUpdate };
+};
@@ -0,0 +1,22 @@
+import { useEffect, useState } from "react";
+import {
+  createDefaultWorkCalendar,
+  getWorkCalendar,
+  WorkCalendar,
+} from "@/lib/workCalendar";
+
+// Working days and holidays, with the default week until the stored
+// calendar is loaded
+export const useWorkCalendar = () => {
+  const [calendar, setCalendar] = useState<WorkCalendar>(
+    createDefaultWorkCalendar
+  );
+
+  useEffect(() => {
+    getWorkCalendar()
+      .then(setCalendar)
+      .catch((error) => console.error("Error loading work calendar:", error));
+  }, []);
+
+  return [calendar, setCalendar] as const;
+};
@@ -0,0 +1,263 @@
+import {
+  ATTACHMENT_STORE_NAME,
+  DRAFT_STORE_NAME,
+  initDB,
+  requestToPromise,
+  STORE_NAME,
+  transactionDone,
+} from "./db";
+import { Draft } from "./draftRepository";
+import { createUid, Report, SerializedReport, Task } from "./report";
+import { isObject } from "./reportSchema";
+
+// Larger files bloat the database and backups to no use for a report; phone
+// photos stay below this size
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+export const MAX_ATTACHMENTS_PER_TASK = 10;
+export const ACCEPTED_ATTACHMENT_TYPES = "image/*,application/pdf";
+
+const THUMBNAIL_SIZE = 160;
+// Size of the images embedded in the PDF, enough for an A4 page
+const ANNEX_IMAGE_SIZE = 1600;
+// Delay before an attachment that no report or draft refers to is deleted:
+// it may just have been added to a report that isn't saved yet
+const UNUSED_ATTACHMENT_DELAY = 24 * 60 * 60 * 1000;
+
+export interface Attachment {
+  id: string;
+  name: string;
+  type: string;
+  size: number;
+  blob: Blob;
+  // JPEG thumbnail as a data URL, null for files that aren't images
+  thumbnail: string | null;
+  // ISO date it was added, shown in the PDF caption
+  createdAt: string;
+}
+
+// Shape stored in JSON backups: the content as a data URL
+export type SerializedAttachment = Omit<Attachment, "blob"> & { data: string };
+
+export type AttachmentErrorCode = "tooLarge" | "unreadable";
+
+export class AttachmentError extends Error {
+  constructor(readonly code: AttachmentErrorCode) {
+    super(`Invalid attachment: ${code}`);
+    this.name = "AttachmentError";
+  }
+}
+
+// Resized image, ready for jsPDF
+export interface ScaledImage {
+  data: string;
+  width: number;
+  height: number;
+}
+
+// Attachment to place in the PDF annex, with the task that refers to it
+export interface AnnexItem {
+  taskIndex: number;
+  task: Task;
+  attachment: Pick<Attachment, "name" | "type" | "createdAt">;
+  // Null for files that aren't images: only the caption is then shown in the
+  // annex
+  image: ScaledImage | null;
+}
+
+export const isImage = (type: string) => type.startsWith("image/");
+
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+export const dataUrlToBlob = async (dataUrl: string) =>
+  (await fetch(dataUrl)).blob();
+
+// Scales an image down to maxSize pixels a side, as a JPEG on a white
+// background for transparent images
+export const scaleImage = (blob: Blob, maxSize: number): Promise<ScaledImage> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(blob);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      const scale = Math.min(
+        1,
+        maxSize / Math.max(image.naturalWidth, image.naturalHeight)
+      );
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.max(1, Math.round(image.naturalWidth * scale));
+      canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+      const context = canvas.getContext("2d");
+      if (!context) {
+        reject(new Error("Canvas is not available"));
+        return;
+      }
+      context.fillStyle = "#fff";
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      resolve({
+        data: canvas.toDataURL("image/jpeg", 0.85),
+        width: canvas.width,
+        height: canvas.height,
+      });
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new AttachmentError("unreadable"));
+    };
+    image.src = url;
+  });
+
+// Prepares a picked or photographed file for storage; throws an
+// AttachmentError if it can't be attached
+export const createAttachment = async (file: File): Promise<Attachment> => {
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    throw new AttachmentError("tooLarge");
+  }
+  const thumbnail = isImage(file.type)
+    ? (await scaleImage(file, THUMBNAIL_SIZE)).data
+    : null;
+  return {
+    id: createUid(),
+    name: file.name,
+    type: file.type || "application/octet-stream",
+    size: file.size,
+    blob: file,
+    thumbnail,
+    createdAt: new Date().toISOString(),
+  };
+};
+
+export const saveAttachment = async (attachment: Attachment) => {
+  const db = await initDB();
+  const transaction = db.transaction(ATTACHMENT_STORE_NAME, "readwrite");
+  transaction.objectStore(ATTACHMENT_STORE_NAME).put(attachment);
+  await transactionDone(transaction);
+  return attachment;
+};
+
+export const putAttachments = async (attachments: Attachment[]) => {
+  const db = await initDB();
+  const transaction = db.transaction(ATTACHMENT_STORE_NAME, "readwrite");
+  const store = transaction.objectStore(ATTACHMENT_STORE_NAME);
+  attachments.forEach((attachment) => store.put(attachment));
+  await transactionDone(transaction);
+};
+
+// Attachments found, in the order of the ids; those of a report received by
+// sync aren't on this device and are skipped
+export const getAttachments = async (ids: string[]) => {
+  if (!ids.length) return [];
+  const db = await initDB();
+  const store = db
+    .transaction(ATTACHMENT_STORE_NAME, "readonly")
+    .objectStore(ATTACHMENT_STORE_NAME);
+  const found = await Promise.all(
+    ids.map((id) => requestToPromise<Attachment | undefined>(store.get(id)))
+  );
+  return found.filter((attachment): attachment is Attachment => !!attachment);
+};
+
+export const getAttachmentIds = (reports: (Report | SerializedReport)[]) =>
+  Array.from(
+    new Set<string>(
+      reports.flatMap((report) =>
+        report.tasks.flatMap((task) => task.attachments || [])
+      )
+    )
+  );
+
+// Deletes the attachments that no report or draft refers to anymore, once
+// the grace delay is over
+export const deleteUnusedAttachments = async (now = Date.now()) => {
+  const db = await initDB();
+  const transaction = db.transaction(
+    [STORE_NAME, DRAFT_STORE_NAME, ATTACHMENT_STORE_NAME],
+    "readwrite"
+  );
+  const [reports, drafts, attachments] = await Promise.all([
+    requestToPromise<SerializedReport[]>(
+      transaction.objectStore(STORE_NAME).getAll()
+    ),
+    requestToPromise<Draft[]>(
+      transaction.objectStore(DRAFT_STORE_NAME).getAll()
+    ),
+    requestToPromise<Attachment[]>(
+      transaction.objectStore(ATTACHMENT_STORE_NAME).getAll()
+    ),
+  ]);
+  const used = new Set(
+    getAttachmentIds([...reports, ...drafts.map((draft) => draft.report)])
+  );
+  const unused = attachments.filter(
+    (attachment) =>
+      !used.has(attachment.id) &&
+      now - new Date(attachment.createdAt).getTime() > UNUSED_ATTACHMENT_DELAY
+  );
+  const store = transaction.objectStore(ATTACHMENT_STORE_NAME);
+  unused.forEach((attachment) => store.delete(attachment.id));
+  await transactionDone(transaction);
+  return unused.length;
+};
+
+export const serializeAttachment = async (
+  attachment: Attachment
+): Promise<SerializedAttachment> => {
+  const serialized: Partial<Attachment> & SerializedAttachment = {
+    ...attachment,
+    data: await blobToDataUrl(attachment.blob),
+  };
+  delete serialized.blob;
+  return serialized;
+};
+
+export const deserializeAttachment = async (
+  attachment: SerializedAttachment
+): Promise<Attachment> => {
+  const deserialized: Partial<SerializedAttachment> & Attachment = {
+    ...attachment,
+    blob: await dataUrlToBlob(attachment.data),
+  };
+  delete deserialized.data;
+  return deserialized;
+};
+
+export const isSerializedAttachment = (
+  value: unknown
+): value is SerializedAttachment =>
+  isObject(value) &&
+  typeof value.id === "string" &&
+  typeof value.name === "string" &&
+  typeof value.type === "string" &&
+  typeof value.size === "number" &&
+  (value.thumbnail === null || typeof value.thumbnail === "string") &&
+  typeof value.createdAt === "string" &&
+  typeof value.data === "string" &&
+  value.data.startsWith("data:");
+
+// Loads the report's attachments for the PDF annex, in task order
+export const loadAnnex = async (report: Report): Promise<AnnexItem[]> => {
+  const items = await Promise.all(
+    report.tasks.map(async (task, taskIndex) => {
+      const attachments = await getAttachments(task.attachments || []);
+      return Promise.all(
+        attachments.map(async (attachment) => ({
+          taskIndex,
+          task,
+          attachment,
+          image: isImage(attachment.type)
+            ? await scaleImage(attachment.blob, ANNEX_IMAGE_SIZE).catch(
+                () => null
+              )
+            : null,
+        }))
+      );
+    })
+  );
+  return items.flat();
+};
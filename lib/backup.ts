@@ -0,0 +1,317 @@
+import dayjs from "dayjs";
+import { isSerializedAttachment, SerializedAttachment } from "./attachments";
+import { canReplaceReport } from "./finalization";
+import { createTranslator, DEFAULT_LOCALE, Locale, MessageKey } from "./i18n";
+import { IncidentFollowUp, isIncidentFollowUp } from "./incidents";
+import { isProfile } from "./profile";
+import { getPersonKey, SerializedReport } from "./report";
+import { isObject, isSerializedReport } from "./reportSchema";
+import { isTeamMember, TeamMember } from "./team";
+
+export const BACKUP_FORMAT = "rpmanager-backup";
+// Version 2: adds the user profile
+// Version 3: adds the task attachments
+// Version 4: every team member instead of the active profile only, and the
+// incident follow-ups
+export const BACKUP_VERSION = 4;
+
+export interface Backup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  reports: SerializedReport[];
+  members?: TeamMember[];
+  attachments?: SerializedAttachment[];
+  incidents?: IncidentFollowUp[];
+}
+
+export interface BackupContent {
+  reports: SerializedReport[];
+  members?: TeamMember[];
+  attachments?: SerializedAttachment[];
+  incidents?: IncidentFollowUp[];
+}
+
+export type ConflictResolution = "skip" | "overwrite" | "keepBoth";
+
+export interface ImportItem {
+  report: SerializedReport;
+  // Stored report with the same uid, or else the same date and person
+  existing?: SerializedReport;
+  kind: "new" | "identical" | "conflict";
+}
+
+export const createBackup = ({
+  reports,
+  members,
+  attachments,
+  incidents,
+}: BackupContent): Backup => ({
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  exportedAt: new Date().toISOString(),
+  reports,
+  ...(members?.length && { members }),
+  ...(attachments?.length && { attachments }),
+  ...(incidents?.length && { incidents }),
+});
+
+export const getBackupFileName = (extension: "json" | "csv") =>
+  `rapports-${dayjs().format("YYYY-MM-DD")}.${extension}`;
+
+const csvCell = (value: string) =>
+  /[";\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+const formatTime = (value: string | null) =>
+  value ? dayjs(value).format("HH:mm") : "";
+
+// Columns of the CSV export, in the order of the cells of each line
+const CSV_COLUMNS: MessageKey[] = [
+  "csv.column.date",
+  "csv.column.lastName",
+  "csv.column.firstName",
+  "csv.column.arrival",
+  "csv.column.departure",
+  "csv.column.start",
+  "csv.column.end",
+  "csv.column.category",
+  "csv.column.task",
+  "csv.column.problems",
+];
+
+// One line per task, with a ";" separator and a BOM so that Excel opens it.
+// The headers are in the language chosen for reports.
+export const reportsToCsv = (
+  reports: SerializedReport[],
+  locale: Locale = DEFAULT_LOCALE
+) => {
+  const t = createTranslator(locale);
+  const header = CSV_COLUMNS.map((key) => t(key));
+  const lines = [...reports]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .flatMap((report) =>
+      (report.tasks.length ? report.tasks : [null]).map((task) => [
+        dayjs(report.date).format("YYYY-MM-DD"),
+        report.lastName,
+        report.firstName,
+        formatTime(report.arrivalTime),
+        formatTime(report.departureTime),
+        formatTime(task?.startTime ?? null),
+        formatTime(task?.endTime ?? null),
+        task?.category ?? "",
+        task?.description ?? "",
+        task?.problems ?? "",
+      ])
+    );
+
+  return (
+    "\uFEFF" +
+    [header, ...lines].map((line) => line.map(csvCell).join(";")).join("\r\n")
+  );
+};
+
+export type BackupErrorCode =
+  | "invalidJson"
+  | "notBackup"
+  | "newerVersion"
+  | "noReports"
+  | "invalidReport"
+  | "invalidProfile"
+  | "invalidMember"
+  | "invalidAttachment"
+  | "invalidIncident";
+
+// The code and its parameters let the message be shown in the interface
+// language
+export class BackupError extends Error {
+  constructor(
+    readonly code: BackupErrorCode,
+    readonly params: Record<string, number> = {}
+  ) {
+    super(`Invalid backup: ${code}`);
+    this.name = "BackupError";
+  }
+}
+
+// Reads and checks a backup file; throws a BackupError if the content can't
+// be used.
+export const parseBackup = (text: string): BackupContent => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new BackupError("invalidJson");
+  }
+
+  if (!isObject(data) || data.format !== BACKUP_FORMAT) {
+    throw new BackupError("notBackup");
+  }
+  if (typeof data.version !== "number" || data.version > BACKUP_VERSION) {
+    throw new BackupError("newerVersion");
+  }
+  if (!Array.isArray(data.reports)) {
+    throw new BackupError("noReports");
+  }
+
+  const invalid = data.reports.findIndex(
+    (report) => !isSerializedReport(report)
+  );
+  if (invalid !== -1) {
+    throw new BackupError("invalidReport", { index: invalid + 1 });
+  }
+
+  // Version 2 and 3 backups only hold the active profile
+  if (data.profile !== undefined && !isProfile(data.profile)) {
+    throw new BackupError("invalidProfile");
+  }
+  if (data.members !== undefined) {
+    if (!Array.isArray(data.members)) {
+      throw new BackupError("invalidMember", { index: 1 });
+    }
+    const invalidMember = data.members.findIndex(
+      (member) => !isTeamMember(member)
+    );
+    if (invalidMember !== -1) {
+      throw new BackupError("invalidMember", { index: invalidMember + 1 });
+    }
+  }
+  const members: TeamMember[] | undefined =
+    data.members ?? (data.profile && [{ ...data.profile, manager: false }]);
+
+  if (data.attachments !== undefined) {
+    if (!Array.isArray(data.attachments)) {
+      throw new BackupError("invalidAttachment", { index: 1 });
+    }
+    const invalidAttachment = data.attachments.findIndex(
+      (attachment) => !isSerializedAttachment(attachment)
+    );
+    if (invalidAttachment !== -1) {
+      throw new BackupError("invalidAttachment", {
+        index: invalidAttachment + 1,
+      });
+    }
+  }
+
+  if (data.incidents !== undefined) {
+    if (!Array.isArray(data.incidents)) {
+      throw new BackupError("invalidIncident", { index: 1 });
+    }
+    const invalidIncident = data.incidents.findIndex(
+      (followUp) => !isIncidentFollowUp(followUp)
+    );
+    if (invalidIncident !== -1) {
+      throw new BackupError("invalidIncident", {
+        index: invalidIncident + 1,
+      });
+    }
+  }
+
+  return {
+    reports: (data.reports as SerializedReport[]).map((report) => ({
+      ...report,
+      arrivalTime: report.arrivalTime ?? null,
+      departureTime: report.departureTime ?? null,
+      tasks: report.tasks.map((task) => ({
+        ...task,
+        startTime: task.startTime ?? null,
+        endTime: task.endTime ?? null,
+      })),
+    })),
+    members: members?.map((member) => {
+      const restored = { ...member };
+      delete restored.id;
+      return restored;
+    }),
+    attachments: data.attachments as SerializedAttachment[] | undefined,
+    incidents: data.incidents as IncidentFollowUp[] | undefined,
+  };
+};
+
+// Content compared to detect duplicates, without the metadata
+const contentOf = (report: SerializedReport) => {
+  const content: Partial<SerializedReport> = { ...report };
+  delete content.id;
+  delete content.createdAt;
+  delete content.updatedAt;
+  delete content.day;
+  delete content.author;
+  delete content.uid;
+  delete content.revision;
+  return JSON.stringify(content);
+};
+
+const sameDayAndPerson = (a: SerializedReport, b: SerializedReport) =>
+  dayjs(a.date).isSame(dayjs(b.date), "day") &&
+  getPersonKey(a) === getPersonKey(b);
+
+// The uid follows a report across devices, the local id doesn't: the same id
+// on another device belongs to an unrelated report
+const isSameReport = (a: SerializedReport, b: SerializedReport) =>
+  (a.uid !== undefined && a.uid === b.uid) || sameDayAndPerson(a, b);
+
+export const planImport = (
+  existing: SerializedReport[],
+  incoming: SerializedReport[]
+): ImportItem[] =>
+  incoming.map((report) => {
+    const match =
+      (report.uid !== undefined &&
+        existing.find((stored) => stored.uid === report.uid)) ||
+      existing.find((stored) => sameDayAndPerson(stored, report));
+
+    if (!match) return { report, kind: "new" };
+    return {
+      report,
+      existing: match,
+      kind: contentOf(match) === contentOf(report) ? "identical" : "conflict",
+    };
+  });
+
+// Records to write to apply the import as chosen. Added reports lose the id
+// they had on their original device: IndexedDB assigns one when writing.
+export const resolveImport = (
+  items: ImportItem[],
+  resolutions: Record<number, ConflictResolution>
+): SerializedReport[] =>
+  items.flatMap((item, index): SerializedReport[] => {
+    if (item.kind === "identical") return [];
+
+    if (item.kind === "new") {
+      const added = { ...item.report };
+      delete added.id;
+      return [added];
+    }
+
+    switch (resolutions[index] ?? "skip") {
+      // The replaced report keeps its sync identity, the copy gets a new
+      // one. A finalized report is never replaced.
+      case "overwrite": {
+        const { existing } = item;
+        if (existing && !canReplaceReport(existing, item.report)) return [];
+        if (!existing || !isSameReport(existing, item.report)) {
+          const added = { ...item.report };
+          delete added.id;
+          delete added.uid;
+          delete added.revision;
+          return [added];
+        }
+        return [
+          {
+            ...item.report,
+            id: existing.id,
+            uid: existing.uid,
+            revision: existing.revision,
+          },
+        ];
+      }
+      case "keepBoth": {
+        const copy = { ...item.report };
+        delete copy.id;
+        delete copy.uid;
+        delete copy.revision;
+        return [copy];
+      }
+      default:
+        return [];
+    }
+  });
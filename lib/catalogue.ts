@@ -0,0 +1,140 @@
+import { Dayjs } from "dayjs";
+import {
+  CATALOGUE_STORE_NAME,
+  CATEGORY_STORE_NAME,
+  deleteFromStore,
+  getAllFromStore,
+  putInStore,
+  TEMPLATE_STORE_NAME,
+} from "./db";
+import { parseTimeOfDay } from "./profile";
+import { createEmptyTask, isTaskBlank, Report, Task } from "./report";
+
+export interface Category {
+  id?: number;
+  name: string;
+}
+
+// Recurring activity suggested while typing a description
+export interface CatalogueEntry {
+  id?: number;
+  description: string;
+  category?: string;
+}
+
+export interface TemplateTask {
+  description: string;
+  category?: string;
+  // Usual times as "HH:mm"
+  startTime: string | null;
+  endTime: string | null;
+}
+
+// Day template: a set of tasks inserted at once
+export interface DayTemplate {
+  id?: number;
+  name: string;
+  tasks: TemplateTask[];
+}
+
+export const getCategories = () =>
+  getAllFromStore<Category>(CATEGORY_STORE_NAME);
+export const saveCategory = (category: Category) =>
+  putInStore(CATEGORY_STORE_NAME, category);
+export const deleteCategory = (id: number) =>
+  deleteFromStore(CATEGORY_STORE_NAME, id);
+
+export const getCatalogue = () =>
+  getAllFromStore<CatalogueEntry>(CATALOGUE_STORE_NAME);
+export const saveCatalogueEntry = (entry: CatalogueEntry) =>
+  putInStore(CATALOGUE_STORE_NAME, entry);
+export const deleteCatalogueEntry = (id: number) =>
+  deleteFromStore(CATALOGUE_STORE_NAME, id);
+
+export const getTemplates = () =>
+  getAllFromStore<DayTemplate>(TEMPLATE_STORE_NAME);
+export const saveTemplate = (template: DayTemplate) =>
+  putInStore(TEMPLATE_STORE_NAME, template);
+export const deleteTemplate = (id: number) =>
+  deleteFromStore(TEMPLATE_STORE_NAME, id);
+
+// Groups the tasks without a category; its label depends on the language
+export const UNCATEGORIZED = "";
+
+// Suggestions for the description: the catalogue first, then descriptions
+// already typed in reports, without duplicates.
+export const getDescriptionSuggestions = (
+  catalogue: CatalogueEntry[],
+  reports: Report[]
+): string[] => {
+  const seen = new Set<string>();
+  const suggestions: string[] = [];
+  const add = (description: string) => {
+    const key = description.trim().toLowerCase();
+    if (!key || seen.has(key)) return;
+    seen.add(key);
+    suggestions.push(description.trim());
+  };
+
+  catalogue.forEach((entry) => add(entry.description));
+  reports.forEach((report) =>
+    report.tasks.forEach((task) => add(task.description))
+  );
+  return suggestions;
+};
+
+export const findCatalogueEntry = (
+  catalogue: CatalogueEntry[],
+  description: string
+) =>
+  catalogue.find(
+    (entry) =>
+      entry.description.trim().toLowerCase() ===
+      description.trim().toLowerCase()
+  );
+
+const atTime = (date: Dayjs, time: string | null) => {
+  const parsed = parseTimeOfDay(time);
+  return parsed
+    ? date.hour(parsed.hour()).minute(parsed.minute()).second(0)
+    : null;
+};
+
+export const createTemplateTasks = (
+  template: DayTemplate,
+  date: Dayjs
+): Task[] =>
+  template.tasks.map((task) => ({
+    ...createEmptyTask(),
+    description: task.description,
+    category: task.category,
+    startTime: atTime(date, task.startTime),
+    endTime: atTime(date, task.endTime),
+  }));
+
+// Adds the template's tasks in place of the tasks that are still blank
+export const applyTemplate = (
+  report: Report,
+  template: DayTemplate
+): Report => ({
+  ...report,
+  tasks: [
+    ...report.tasks.filter((task) => !isTaskBlank(task)),
+    ...createTemplateTasks(template, report.date),
+  ],
+});
+
+export const createTemplateFromTasks = (
+  name: string,
+  tasks: Task[]
+): DayTemplate => ({
+  name,
+  tasks: tasks
+    .filter((task) => task.description.trim())
+    .map((task) => ({
+      description: task.description,
+      category: task.category,
+      startTime: task.startTime?.format("HH:mm") || null,
+      endTime: task.endTime?.format("HH:mm") || null,
+    })),
+});
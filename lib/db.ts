@@ -0,0 +1,219 @@
+import { createUid, getIndexKeys, SerializedReport } from "./report";
+
+export const DB_NAME = "WorkReportsDB";
+export const STORE_NAME = "reports";
+export const DRAFT_STORE_NAME = "drafts";
+export const SETTINGS_STORE_NAME = "settings";
+export const CATEGORY_STORE_NAME = "categories";
+export const CATALOGUE_STORE_NAME = "catalogue";
+export const TEMPLATE_STORE_NAME = "templates";
+export const INCIDENT_STORE_NAME = "incidents";
+export const MEMBER_STORE_NAME = "members";
+export const OUTBOX_STORE_NAME = "outbox";
+export const ATTACHMENT_STORE_NAME = "attachments";
+
+// Settings keys read by migrations, which can't depend on the modules that
+// own them
+export const LEGACY_PROFILE_KEY = "profile";
+export const ACTIVE_MEMBER_KEY = "activeMember";
+
+export const DAY_INDEX = "day";
+export const AUTHOR_INDEX = "author";
+export const AUTHOR_DAY_INDEX = "author_day";
+export const UID_INDEX = "uid";
+
+interface Migration {
+  version: number;
+  // Runs inside the versionchange transaction, so it can create stores and
+  // indexes as well as rewrite existing records.
+  migrate: (db: IDBDatabase, transaction: IDBTransaction) => void;
+}
+
+// Rewrites every record of a store in place during a migration
+const transformRecords = <T>(
+  transaction: IDBTransaction,
+  storeName: string,
+  transform: (record: T) => T
+) => {
+  const request = transaction.objectStore(storeName).openCursor();
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    cursor.update(transform(cursor.value));
+    cursor.continue();
+  };
+};
+
+// Append new versions at the end; never edit a migration once released.
+const migrations: Migration[] = [
+  {
+    version: 1,
+    migrate: (db) => {
+      db.createObjectStore(STORE_NAME, {
+        keyPath: "id",
+        autoIncrement: true,
+      });
+    },
+  },
+  {
+    version: 2,
+    migrate: (db) => {
+      db.createObjectStore(DRAFT_STORE_NAME);
+    },
+  },
+  {
+    version: 3,
+    migrate: (_db, transaction) => {
+      const store = transaction.objectStore(STORE_NAME);
+      store.createIndex(DAY_INDEX, "day");
+      store.createIndex(AUTHOR_INDEX, "author");
+      store.createIndex(AUTHOR_DAY_INDEX, ["author", "day"]);
+      transformRecords<SerializedReport>(transaction, STORE_NAME, (report) => ({
+        ...report,
+        ...getIndexKeys(report),
+      }));
+    },
+  },
+  {
+    version: 4,
+    migrate: (db) => {
+      db.createObjectStore(SETTINGS_STORE_NAME);
+    },
+  },
+  {
+    version: 5,
+    migrate: (db) => {
+      [CATEGORY_STORE_NAME, CATALOGUE_STORE_NAME, TEMPLATE_STORE_NAME].forEach(
+        (name) =>
+          db.createObjectStore(name, { keyPath: "id", autoIncrement: true })
+      );
+    },
+  },
+  {
+    version: 6,
+    migrate: (db) => {
+      // Incidents themselves are derived from reports; only their follow-up
+      // is stored, keyed by the incident key
+      db.createObjectStore(INCIDENT_STORE_NAME, { keyPath: "key" });
+    },
+  },
+  {
+    version: 7,
+    migrate: (db, transaction) => {
+      // The single user profile becomes the first team member, as manager
+      const members = db.createObjectStore(MEMBER_STORE_NAME, {
+        keyPath: "id",
+        autoIncrement: true,
+      });
+      const settings = transaction.objectStore(SETTINGS_STORE_NAME);
+      const request = settings.get(LEGACY_PROFILE_KEY);
+      request.onsuccess = () => {
+        if (!request.result) return;
+        const added = members.add({ ...request.result, manager: true });
+        added.onsuccess = () => {
+          settings.put(added.result, ACTIVE_MEMBER_KEY);
+          settings.delete(LEGACY_PROFILE_KEY);
+          // Drafts are now kept per member, see draftRepository
+          const drafts = transaction.objectStore(DRAFT_STORE_NAME);
+          const draft = drafts.get("current");
+          draft.onsuccess = () => {
+            if (!draft.result) return;
+            drafts.put(draft.result, `member-${added.result}`);
+            drafts.delete("current");
+          };
+        };
+      };
+    },
+  },
+  {
+    version: 8,
+    migrate: (db, transaction) => {
+      // Reports get a device-independent uid for server sync, and every
+      // existing report is queued so the first sync uploads the history
+      db.createObjectStore(OUTBOX_STORE_NAME, { keyPath: "uid" });
+      transaction.objectStore(STORE_NAME).createIndex(UID_INDEX, "uid");
+      const outbox = transaction.objectStore(OUTBOX_STORE_NAME);
+      const queuedAt = new Date().toISOString();
+      transformRecords<SerializedReport>(transaction, STORE_NAME, (report) => {
+        const uid = report.uid || createUid();
+        outbox.put({ uid, op: "put", baseRevision: null, queuedAt });
+        // Index keys again, as this cursor may read records before the
+        // version 3 rewrite when upgrading from an older version
+        return { ...report, ...getIndexKeys(report), uid };
+      });
+    },
+  },
+  {
+    version: 9,
+    migrate: (db) => {
+      // Files attached to tasks, referenced by id from the reports so that
+      // reports and drafts stay small
+      db.createObjectStore(ATTACHMENT_STORE_NAME, { keyPath: "id" });
+    },
+  },
+];
+
+export const DB_VERSION = migrations[migrations.length - 1].version;
+
+export const initDB = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let another tab running a newer version upgrade the schema
+      db.onversionchange = () => db.close();
+      resolve(db);
+    };
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const transaction = request.transaction as IDBTransaction;
+      migrations
+        .filter((migration) => migration.version > event.oldVersion)
+        .forEach((migration) => migration.migrate(db, transaction));
+    };
+  });
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const transactionDone = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+// Generic helpers for the simple stores keyed by an auto-incremented "id"
+export const getAllFromStore = async <T>(storeName: string): Promise<T[]> => {
+  const db = await initDB();
+  const store = db.transaction(storeName, "readonly").objectStore(storeName);
+  return requestToPromise<T[]>(store.getAll());
+};
+
+export const putInStore = async <T extends { id?: number }>(
+  storeName: string,
+  value: T
+): Promise<T & { id: number }> => {
+  const db = await initDB();
+  const transaction = db.transaction(storeName, "readwrite");
+  const request = transaction.objectStore(storeName).put(value);
+  const id = (await requestToPromise(request)) as number;
+  await transactionDone(transaction);
+  return { ...value, id };
+};
+
+export const deleteFromStore = async (storeName: string, key: IDBValidKey) => {
+  const db = await initDB();
+  const transaction = db.transaction(storeName, "readwrite");
+  transaction.objectStore(storeName).delete(key);
+  await transactionDone(transaction);
+};
@@ -0,0 +1,13 @@
+// Downloads content generated in the browser
+export const downloadFile = (
+  content: BlobPart,
+  fileName: string,
+  type: string
+) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,49 @@
+import {
+  ACTIVE_MEMBER_KEY,
+  DRAFT_STORE_NAME,
+  initDB,
+  requestToPromise,
+  transactionDone,
+} from "./db";
+import { SerializedReport } from "./report";
+import { getSetting } from "./settingsRepository";
+
+// Only one report is edited at a time per person, so each team member has a
+// single draft; before any member exists it lives under a fixed key.
+const DEFAULT_DRAFT_KEY = "current";
+
+const getDraftKey = async () => {
+  const memberId = await getSetting<number>(ACTIVE_MEMBER_KEY);
+  return memberId === undefined ? DEFAULT_DRAFT_KEY : `member-${memberId}`;
+};
+
+export interface Draft {
+  report: SerializedReport;
+  savedAt: string;
+}
+
+export const getDraft = async (): Promise<Draft | undefined> => {
+  const key = await getDraftKey();
+  const db = await initDB();
+  const store = db
+    .transaction(DRAFT_STORE_NAME, "readonly")
+    .objectStore(DRAFT_STORE_NAME);
+  return requestToPromise<Draft | undefined>(store.get(key));
+};
+
+export const saveDraft = async (report: SerializedReport) => {
+  const key = await getDraftKey();
+  const db = await initDB();
+  const transaction = db.transaction(DRAFT_STORE_NAME, "readwrite");
+  const draft: Draft = { report, savedAt: new Date().toISOString() };
+  transaction.objectStore(DRAFT_STORE_NAME).put(draft, key);
+  await transactionDone(transaction);
+};
+
+export const clearDraft = async () => {
+  const key = await getDraftKey();
+  const db = await initDB();
+  const transaction = db.transaction(DRAFT_STORE_NAME, "readwrite");
+  transaction.objectStore(DRAFT_STORE_NAME).delete(key);
+  await transactionDone(transaction);
+};
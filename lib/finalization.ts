@@ -0,0 +1,116 @@
+import { ReportFinalization, SerializedReport } from "./report";
+
+// Fields left out of the hash: ids and dates managed by the device or the
+// server, index keys, and the manager's review, which comes after
+// finalization
+const UNHASHED_FIELDS = [
+  "id",
+  "createdAt",
+  "updatedAt",
+  "day",
+  "author",
+  "uid",
+  "revision",
+  "review",
+  "finalization",
+] as const;
+
+export type VerificationStatus = "valid" | "modified" | "notFinalized";
+
+export interface Verification {
+  report: SerializedReport;
+  status: VerificationStatus;
+}
+
+// Web Crypto only exists in a secure context (HTTPS or localhost)
+export const isFinalizationSupported = () =>
+  typeof crypto !== "undefined" && !!crypto.subtle;
+
+export const isFinalized = (report: { finalization?: ReportFinalization }) =>
+  !!report.finalization;
+
+// A finalized report is never deleted, and only replaced by a record carrying
+// the same finalization, e.g. once the manager has reviewed it
+export const canReplaceReport = (
+  stored: SerializedReport,
+  next: SerializedReport | null
+) =>
+  !isFinalized(stored) ||
+  next?.finalization?.hash === stored.finalization?.hash;
+
+export class FinalizedReportError extends Error {
+  constructor(readonly uid?: string) {
+    super(`Report ${uid} is finalized`);
+    this.name = "FinalizedReportError";
+  }
+}
+
+// JSON with sorted keys and without undefined values, so that the hash
+// doesn't depend on the order the object was built in
+const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (typeof value === "object" && value !== null) {
+    return `{${Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value);
+};
+
+const sha256 = async (text: string) => {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(text)
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+};
+
+// The hash covers the report content, the finalization date and the
+// signature, which therefore can't be replaced afterwards. Attachments are
+// only covered by their ids, not their contents.
+export const hashReport = (
+  report: SerializedReport,
+  finalizedAt: string,
+  signature: string
+) => {
+  const content: Partial<SerializedReport> = { ...report };
+  UNHASHED_FIELDS.forEach((field) => delete content[field]);
+  return sha256(canonicalJson({ content, finalizedAt, signature }));
+};
+
+export const finalizeReport = async (
+  report: SerializedReport,
+  signature: string
+): Promise<SerializedReport> => {
+  const finalizedAt = new Date().toISOString();
+  return {
+    ...report,
+    finalization: {
+      finalizedAt,
+      signature,
+      hash: await hashReport(report, finalizedAt, signature),
+    },
+  };
+};
+
+export const verifyReport = async (
+  report: SerializedReport
+): Promise<Verification> => {
+  const { finalization } = report;
+  if (!finalization) return { report, status: "notFinalized" };
+  const hash = await hashReport(
+    report,
+    finalization.finalizedAt,
+    finalization.signature
+  );
+  return { report, status: hash === finalization.hash ? "valid" : "modified" };
+};
+
+export const verifyReports = (reports: SerializedReport[]) =>
+  Promise.all(reports.map(verifyReport));
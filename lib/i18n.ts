@@ -0,0 +1,77 @@
+import { Dayjs } from "dayjs";
+import "dayjs/locale/fr";
+import { en } from "./locales/en";
+import { fr, Messages } from "./locales/fr";
+
+// Language of the interface and, separately, of the generated documents
+export const UI_LOCALE_SETTING = "uiLocale";
+export const REPORT_LOCALE_SETTING = "reportLocale";
+
+// To add a language: a catalogue in lib/locales, its entry here and the
+// matching dayjs locale imported above.
+const CATALOGUES = { fr, en } satisfies Record<string, Messages>;
+
+export type Locale = keyof typeof CATALOGUES;
+export type MessageKey = keyof Messages;
+export type MessageParams = Record<string, string | number>;
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+export const DEFAULT_LOCALE: Locale = "fr";
+
+// Name of each language in that language, for the pickers
+export const LOCALE_NAMES: Record<Locale, string> = {
+  fr: "Français",
+  en: "English",
+};
+
+export const LOCALES = Object.keys(CATALOGUES) as Locale[];
+
+export const isLocale = (value: unknown): value is Locale =>
+  typeof value === "string" && (LOCALES as string[]).includes(value);
+
+// The browser's language if it is available
+export const detectLocale = (): Locale => {
+  if (typeof navigator === "undefined") return DEFAULT_LOCALE;
+  const language = navigator.language.slice(0, 2).toLowerCase();
+  return isLocale(language) ? language : DEFAULT_LOCALE;
+};
+
+// Parameters replace the {name} placeholders of the message
+export const translate = (
+  locale: Locale,
+  key: MessageKey,
+  params?: MessageParams
+) => {
+  const message = CATALOGUES[locale][key] ?? CATALOGUES[DEFAULT_LOCALE][key];
+  if (!params) return message;
+  return message.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match
+  );
+};
+
+export const createTranslator =
+  (locale: Locale): Translate =>
+  (key, params) =>
+    translate(locale, key, params);
+
+export const formatDate = (date: Dayjs, locale: Locale) =>
+  date.format(translate(locale, "format.date"));
+
+export const formatShortDate = (date: Dayjs, locale: Locale) =>
+  date.format(translate(locale, "format.shortDate"));
+
+export const formatDateTime = (date: Dayjs, locale: Locale) =>
+  date.format(translate(locale, "format.dateTime"));
+
+const capitalize = (text: string) =>
+  text.charAt(0).toUpperCase() + text.slice(1);
+
+export const formatWeekday = (date: Dayjs, locale: Locale) =>
+  capitalize(date.locale(locale).format("dddd"));
+
+// Day initials for the calendar header
+export const formatShortWeekday = (date: Dayjs, locale: Locale) =>
+  capitalize(date.locale(locale).format("dd"));
+
+export const formatMonth = (date: Dayjs, locale: Locale) =>
+  capitalize(date.locale(locale).format("MMMM YYYY"));
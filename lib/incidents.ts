@@ -0,0 +1,173 @@
+import { Dayjs } from "dayjs";
+import {
+  getAllFromStore,
+  INCIDENT_STORE_NAME,
+  initDB,
+  transactionDone,
+} from "./db";
+import { isObject } from "./reportSchema";
+import { getPersonKey, Person, Report } from "./report";
+
+export type IncidentStatus = "open" | "resolved";
+
+export const INCIDENT_STATUSES: IncidentStatus[] = ["open", "resolved"];
+
+// Follow-up of an incident, stored separately since reports only hold the
+// text of the problem
+export interface IncidentFollowUp {
+  key: string;
+  status: IncidentStatus;
+  resolution: string;
+  // ISO date of the last update of the follow-up
+  updatedAt: string;
+}
+
+export interface Incident {
+  key: string;
+  reportId: number;
+  date: Dayjs;
+  author: Person;
+  taskDescription: string;
+  startTime: Dayjs | null;
+  endTime: Dayjs | null;
+  problem: string;
+  status: IncidentStatus;
+  resolution: string;
+  updatedAt?: string;
+}
+
+export interface IncidentFilters {
+  status: IncidentStatus | "all";
+  authorKey: string;
+  start: Dayjs | null;
+  end: Dayjs | null;
+  query: string;
+}
+
+export const createEmptyIncidentFilters = (): IncidentFilters => ({
+  status: "all",
+  authorKey: "",
+  start: null,
+  end: null,
+  query: "",
+});
+
+// The key rests on the report uid, the same on every device, and on the text
+// of the problem: the follow-up stays attached when tasks are reordered, and
+// starts over if the problem is rewritten. The occurrence tells apart the
+// tasks of a report that raise the same problem.
+export const getIncidentKey = (
+  reportUid: string,
+  problem: string,
+  occurrence: number
+) => `${reportUid}:${problem.trim().toLowerCase()}:${occurrence}`;
+
+// Key of the follow-ups stored before the uid, tied to the report's local id
+const getLegacyIncidentKey = (reportId: number, problem: string) =>
+  `${reportId}:${problem.trim().toLowerCase()}`;
+
+export const isIncidentFollowUp = (value: unknown): value is IncidentFollowUp =>
+  isObject(value) &&
+  typeof value.key === "string" &&
+  INCIDENT_STATUSES.includes(value.status as IncidentStatus) &&
+  typeof value.resolution === "string" &&
+  typeof value.updatedAt === "string";
+
+export const getIncidentFollowUps = () =>
+  getAllFromStore<IncidentFollowUp>(INCIDENT_STORE_NAME);
+
+export const saveIncidentFollowUp = async (
+  followUp: IncidentFollowUp
+): Promise<IncidentFollowUp> => {
+  const db = await initDB();
+  const transaction = db.transaction(INCIDENT_STORE_NAME, "readwrite");
+  transaction.objectStore(INCIDENT_STORE_NAME).put(followUp);
+  await transactionDone(transaction);
+  return followUp;
+};
+
+// Restores the follow-ups of a backup; the most recent one wins when the
+// device already has a follow-up
+export const putIncidentFollowUps = async (followUps: IncidentFollowUp[]) => {
+  const db = await initDB();
+  const transaction = db.transaction(INCIDENT_STORE_NAME, "readwrite");
+  const store = transaction.objectStore(INCIDENT_STORE_NAME);
+  followUps.forEach((followUp) => {
+    const request = store.get(followUp.key);
+    request.onsuccess = () => {
+      const stored = request.result as IncidentFollowUp | undefined;
+      if (!stored || stored.updatedAt < followUp.updatedAt) {
+        store.put(followUp);
+      }
+    };
+  });
+  await transactionDone(transaction);
+};
+
+// One incident per task with its "problems" field filled in, most recent
+// first
+export const extractIncidents = (
+  reports: Report[],
+  followUps: IncidentFollowUp[]
+): Incident[] => {
+  const byKey = new Map(followUps.map((followUp) => [followUp.key, followUp]));
+
+  return reports
+    .filter((report) => report.id !== undefined && report.uid !== undefined)
+    .flatMap((report) => {
+      const occurrences = new Map<string, number>();
+      return report.tasks
+        .filter((task) => task.problems?.trim())
+        .map((task): Incident => {
+          const problem = (task.problems as string).trim();
+          const normalized = problem.toLowerCase();
+          const occurrence = occurrences.get(normalized) ?? 0;
+          occurrences.set(normalized, occurrence + 1);
+          const key = getIncidentKey(report.uid as string, problem, occurrence);
+          const followUp =
+            byKey.get(key) ??
+            (occurrence === 0
+              ? byKey.get(getLegacyIncidentKey(report.id as number, problem))
+              : undefined);
+          return {
+            key,
+            reportId: report.id as number,
+            date: report.date,
+            author: { firstName: report.firstName, lastName: report.lastName },
+            taskDescription: task.description,
+            startTime: task.startTime,
+            endTime: task.endTime,
+            problem,
+            status: followUp?.status || "open",
+            resolution: followUp?.resolution || "",
+            updatedAt: followUp?.updatedAt,
+          };
+        });
+    })
+    .sort((a, b) => b.date.valueOf() - a.date.valueOf());
+};
+
+export const filterIncidents = (
+  incidents: Incident[],
+  filters: IncidentFilters
+): Incident[] => {
+  const query = filters.query.trim().toLowerCase();
+  return incidents.filter(
+    (incident) =>
+      (filters.status === "all" || incident.status === filters.status) &&
+      (!filters.authorKey ||
+        getPersonKey(incident.author) === filters.authorKey) &&
+      (!filters.start || !incident.date.isBefore(filters.start, "day")) &&
+      (!filters.end || !incident.date.isAfter(filters.end, "day")) &&
+      (!query ||
+        [incident.problem, incident.taskDescription, incident.resolution].some(
+          (text) => text.toLowerCase().includes(query)
+        ))
+  );
+};
+
+export const countIncidents = (incidents: Incident[]) => ({
+  open: incidents.filter((incident) => incident.status === "open").length,
+  resolved: incidents.filter((incident) => incident.status === "resolved")
+    .length,
+});
@@ -0,0 +1,554 @@
+import { Messages } from "./fr";
+
+export const en: Messages = {
+  // Date formats (dayjs)
+  "format.date": "MM/DD/YYYY",
+  "format.shortDate": "MM/DD",
+  "format.dateTime": "MM/DD/YYYY HH:mm",
+
+  // Report validation
+  "validation.firstNameRequired": "First name is required",
+  "validation.lastNameRequired": "Last name is required",
+  "validation.arrivalRequired": "Arrival time is required",
+  "validation.departureRequired": "Departure time is required",
+  "validation.departureBeforeArrival": "Departure must be after arrival",
+  "validation.noTask": "Add at least one task",
+  "validation.taskDescriptionRequired": "Task {task}: description is required",
+  "validation.taskStartRequired": "Task {task}: start time is required",
+  "validation.taskEndRequired": "Task {task}: end time is required",
+  "validation.taskEndBeforeStart": "Task {task}: end must be after start",
+  "validation.taskBeforeArrival": "Task {task}: starts before arrival time",
+  "validation.taskAfterDeparture": "Task {task}: ends after departure time",
+  "validation.taskOverlap": "Task {task}: overlaps task {other}",
+  "validation.gapBetweenTasks":
+    "{duration} not covered between task {previous} and task {task}",
+  "validation.gapAfterArrival":
+    "{duration} not covered between arrival and the first task",
+  "validation.gapBeforeDeparture":
+    "{duration} not covered between the last task and departure",
+
+  // Statuses and labels
+  "incidentStatus.open": "Open",
+  "incidentStatus.resolved": "Resolved",
+  "plannedStatus.done": "Done",
+  "plannedStatus.carriedOver": "Carried over",
+  "plannedStatus.dropped": "Dropped",
+  "reviewStatus.validated": "Validated",
+  "reviewStatus.returned": "Returned",
+  "searchField.description": "Task",
+  "searchField.problems": "Problems",
+  "searchField.plannedTasks": "Planned work",
+  "searchSort.dateDesc": "Newest first",
+  "searchSort.dateAsc": "Oldest first",
+  "searchSort.author": "Author",
+  "searchSort.workedMinutes": "Hours worked",
+  "pdfColumn.start": "Start",
+  "pdfColumn.end": "End",
+  "pdfColumn.duration": "Duration",
+  "pdfColumn.category": "Category",
+  "pdfColumn.description": "Task performed",
+  "pdfColumn.problems": "Problems",
+  "pdfFont.helvetica": "Helvetica (sans serif)",
+  "pdfFont.times": "Times (serif)",
+  "pdfFont.courier": "Courier (monospace)",
+  "category.uncategorized": "Uncategorized",
+
+  // PDF documents
+  "format.percent": "{value}%",
+  "pdf.reportTitle": "Daily work report",
+  "pdf.name": "Name: {name}",
+  "pdf.jobTitle": "Position: {value}",
+  "pdf.department": "Department / site: {value}",
+  "pdf.date": "Date: {date}",
+  "pdf.times": "Arrival: {arrival}    Departure: {departure}",
+  "pdf.plannedTask": "(planned) {description}",
+  "pdf.plannedTasks": "Planned work",
+  "pdf.plannedFollowUp": "Planned work follow-up: {counts}",
+  "pdf.plannedCount.done": "{count} done",
+  "pdf.plannedCount.carriedOver": "{count} carried over",
+  "pdf.plannedCount.dropped": "{count} dropped",
+  "pdf.signature": "Signature:",
+  "pdf.signatory.employee": "Employee",
+  "pdf.signatory.manager": "Manager",
+  "pdf.column.plannedItem": "Planned work",
+  "pdf.column.status": "Status",
+  "pdf.column.task": "Task",
+  "pdf.column.time": "Time",
+  "pdf.column.share": "Share",
+  "pdf.column.day": "Day",
+  "pdf.column.presence": "Presence",
+  "pdf.column.tasks": "Tasks",
+  "pdf.column.gap": "Gap",
+  "pdf.column.overtime": "Overtime",
+  "pdf.column.date": "Date",
+  "pdf.column.author": "Author",
+  "pdf.column.problem": "Problem",
+  "pdf.column.resolution": "Resolution",
+  "pdf.period.title": "Timesheet - {person}",
+  "pdf.period.range": "Period: {start} to {end}",
+  "pdf.period.dailyTarget": "Daily target: {duration}",
+  "pdf.period.empty": "No reports for this period.",
+  "pdf.period.dayTotals":
+    "Presence: {worked} ({presence})    Tasks: {tasks}    Gap: {gap}    Overtime: {overtime}",
+  "pdf.period.summary": "Summary",
+  "pdf.period.total": "Total ({count} days)",
+  "pdf.period.categories": "Breakdown by category",
+  "pdf.period.plannedItems": "Planned work over the period: {counts}",
+  "pdf.incidents.title": "Incident log",
+  "pdf.incidents.range": "{start} to {end}",
+  "pdf.incidents.fromStart": "the beginning",
+  "pdf.incidents.toToday": "today",
+  "pdf.incidents.allDates": "all dates",
+  "pdf.incidents.period": "Period: {period}",
+  "pdf.incidents.status": "Status: {status}",
+  "pdf.incidents.count":
+    "Incidents: {count} ({open} open, {resolved} resolved)",
+  "pdf.incidents.empty": "No incidents.",
+
+  // Statistics
+  "common.everyone": "Everyone",
+  "common.from": "From",
+  "common.to": "To",
+  "common.last4Weeks": "Last 4 weeks",
+  "common.last3Months": "Last 3 months",
+  "common.thisYear": "This year",
+  "common.invalidPeriod": "Choose a valid period.",
+  "statistics.title": "Statistics",
+  "statistics.averagePresence": "Average presence",
+  "statistics.averageArrival": "Average arrival",
+  "statistics.averageDeparture": "Average departure",
+  "statistics.daysWithProblems": "Days with problems",
+  "statistics.hoursPerDay": "Hours per day",
+  "statistics.hoursPerWeek": "Hours per week",
+  "statistics.timeSplit": "Time split",
+  "statistics.byCategory": "By category",
+  "statistics.byKeyword": "By keyword",
+  "statistics.missingReports": "Missing reports",
+  "statistics.coverage":
+    "{reported} day(s) with a report out of {working} working day(s)",
+  "statistics.missingDay": "On {date}",
+  "statistics.missingRange": "From {start} to {end}",
+  "statistics.workingDays": "{count} working day(s)",
+  "statistics.noMissing": "No working day without a report.",
+  "statistics.noData": "No data for this period.",
+  "statistics.barValue": "{label}: {value}",
+
+  // Backup
+  "backup.title": "Backup and restore",
+  "backup.exportJson": "Export (JSON)",
+  "backup.exportCsv": "Export (CSV)",
+  "backup.import": "Import a backup",
+  "backup.exportFailed": "Could not export the reports",
+  "backup.importFailed": "Could not import the reports",
+  "backup.unreadable": "Unreadable backup file",
+  "backup.imported": "{count} report(s) imported",
+  "backup.summary":
+    "{new} new, {identical} already present, {conflict} in conflict.",
+  "backup.allConflicts": "For all conflicts:",
+  "backup.conflict":
+    "{date} — {person} ({count} task(s), currently {existing})",
+  "backup.finalizedConflict": "finalized on this device, kept as is",
+  "backup.restoreMembers":
+    "Add the team members missing from this device: {names}",
+  "backup.resolution.skip": "Skip",
+  "backup.resolution.overwrite": "Overwrite",
+  "backup.resolution.keepBoth": "Keep both",
+  "backup.error.invalidJson": "The file is not valid JSON",
+  "backup.error.notBackup": "The file is not a report backup",
+  "backup.error.newerVersion":
+    "This backup comes from a newer version of the application",
+  "backup.error.noReports": "The backup does not contain any report",
+  "backup.error.invalidReport": "Report no. {index} of the backup is invalid",
+  "backup.error.invalidProfile": "The profile in the backup is invalid",
+  "backup.error.invalidMember": "Member no. {index} of the backup is invalid",
+  "backup.error.invalidAttachment":
+    "Attachment no. {index} of the backup is invalid",
+  "backup.error.invalidIncident":
+    "Incident follow-up no. {index} of the backup is invalid",
+  "csv.column.date": "Date",
+  "csv.column.lastName": "Last name",
+  "csv.column.firstName": "First name",
+  "csv.column.arrival": "Arrival",
+  "csv.column.departure": "Departure",
+  "csv.column.start": "Start",
+  "csv.column.end": "End",
+  "csv.column.category": "Category",
+  "csv.column.task": "Task",
+  "csv.column.problems": "Problems",
+  "common.import": "Import",
+  "common.cancel": "Cancel",
+
+  // Incident log
+  "common.search": "Search",
+  "common.openReport": "Open the report",
+  "incidents.title": "Incident log",
+  "incidents.allStatuses": "All statuses",
+  "incidents.allAuthors": "All authors",
+  "incidents.count": "{count} incident(s) — {open} open, {resolved} resolved",
+  "incidents.resetFilters": "Reset filters",
+  "incidents.none": "No incident matches the filters.",
+  "incidents.resolutionNote": "Resolution note",
+  "incidents.saveNote": "Save the note",
+  "incidents.downloadPdf": "Download the PDF summary",
+  "incidents.saveFailed": "Could not update the incident",
+  "incidents.pdfFailed": "Could not generate the incident summary",
+
+  // Period timesheet
+  "common.thisWeek": "This week",
+  "common.thisMonth": "This month",
+  "common.noReports": "No reports saved yet.",
+  "period.title": "Weekly / monthly timesheet",
+  "period.dailyTarget": "Target (h/day)",
+  "period.summary":
+    "{days} day(s) — presence {worked}, tasks {tasks}, overtime {overtime}",
+  "period.download": "Download the PDF timesheet",
+  "period.endBeforeStart": "The end date must be after the start date",
+  "period.pdfFailed": "Could not generate the timesheet",
+
+  // Report search
+  "common.delete": "Delete",
+  "common.previous": "← Previous",
+  "common.next": "Next →",
+  "common.page": "Page {page} / {count}",
+  "reportState.saved": "saved",
+  "reportState.modified": "modified",
+  "search.title": "Past reports",
+  "search.placeholder": "Keywords (tasks, problems, planned work)",
+  "search.sortBy": "Sort: {sort}",
+  "search.count": "{count} report(s)",
+  "search.editing": "being edited",
+  "search.taskCount": "{duration} · {count} task(s)",
+  "search.problems": "problems reported",
+  "search.snippetField": "{field}: ",
+
+  // Team review
+  "review.title": "Team review",
+  "review.day": "Day",
+  "review.previousWeek": "← Previous week",
+  "review.nextWeek": "Next week →",
+  "review.member": "Member",
+  "review.pending": "To review",
+  "review.missing": "Not submitted on {date}",
+  "review.allSubmitted": "All members have submitted their report.",
+  "review.dayOff": "No report is expected on a day off.",
+  "review.problems": "Problems: {problems}",
+  "review.reviewedBy": "{status} by {reviewer} on {date}",
+  "review.commentPlaceholder": "Comment for the author",
+  "review.return": "Return with comment",
+  "review.validate": "Validate",
+  "review.commentRequired": "Explain what needs to be reworked in the comment",
+  "review.saveFailed": "Could not save the review",
+
+  // Team
+  "common.firstName": "First name",
+  "common.lastName": "Last name",
+  "common.add": "+ Add",
+  "team.title": "Team",
+  "team.intro":
+    "Each member gets their own profile, draft and history back by switching to their name. Managers can review reports.",
+  "team.activeUser": "active user",
+  "team.manager": "Manager",
+  "team.use": "Use",
+  "team.remove": "Remove",
+  "team.confirmRemove":
+    "Remove {person} from the team? Their reports are kept.",
+  "team.nameRequired": "Please fill in the member's first and last name",
+  "team.duplicate": "This member already exists",
+  "team.lastManager": "The team must keep at least one manager",
+  "team.removeActive": "Switch user before removing this member",
+  "team.addFailed": "Could not add the member",
+  "team.updateFailed": "Could not update the member",
+  "team.removeFailed": "Could not remove the member",
+
+  // Synchronization and updates
+  "common.save": "Save",
+  "sync.title": "Synchronization",
+  "sync.intro":
+    "Sends this device's reports to the team server and fetches everyone else's. Offline, changes are queued and sent when the network is back.",
+  "sync.enable": "Enable synchronization",
+  "sync.serverUrl": "Server address (empty: this server)",
+  "sync.token": "Access token",
+  "sync.syncing": "Synchronizing…",
+  "sync.syncNow": "Synchronize now",
+  "sync.pending": "{count} pending change(s)",
+  "sync.lastSync": " · last synchronized on {date}",
+  "sync.conflicts": "Conflicts",
+  "sync.deleted": "deleted",
+  "sync.local": "On this device: {report}",
+  "sync.remote": "On the server: {report}, modified on {date}",
+  "sync.keepLocal": "Keep my version",
+  "sync.keepServer": "Keep the server version",
+  "sync.saveFailed": "Could not save the synchronization settings",
+  "sync.resolveFailed": "Could not resolve the conflict",
+  "update.available":
+    "A new version of the application is available. The current report is kept as a draft.",
+  "update.apply": "Update",
+  "update.later": "Later",
+
+  // Punch clock and profile
+  "punch.arrivedAt": "Arrived at {time}",
+  "punch.notStarted": "Day not started",
+  "punch.leftAt": " — left at {time}",
+  "punch.running": "In progress: {task}",
+  "punch.in": "Arrival",
+  "punch.taskPlaceholder": "Task to start",
+  "punch.taskLabel": "Task to start",
+  "punch.start": "Start",
+  "punch.stopTask": "Finish the task",
+  "punch.out": "Departure",
+  "punch.resume": "Resume the day",
+  "profile.title": "My profile",
+  "profile.jobTitle": "Position",
+  "profile.department": "Department / site",
+  "profile.usualArrival": "Usual arrival",
+  "profile.usualDeparture": "Usual departure",
+  "profile.signature": "Signature",
+  "profile.replaceImage": "Replace the image",
+  "profile.addImage": "Add an image",
+  "profile.saved": "Profile saved",
+  "profile.save": "Save the profile",
+  "profile.signatureType": "The signature must be a PNG or JPEG image",
+  "profile.signatureSize": "The signature image must not exceed 500 KB",
+  "profile.signatureUnreadable": "Could not read the signature image",
+  "profile.nameRequired": "Please fill in your first and last name",
+  "profile.saveFailed": "Could not save the profile",
+
+  // Catalogue
+  "catalogue.categories": "Categories and projects",
+  "catalogue.newCategory": "New category",
+  "catalogue.activities": "Recurring activities",
+  "catalogue.activityDescription": "Activity description",
+  "catalogue.templates": "Day templates",
+  "catalogue.templatesHint":
+    "Templates are created from the report form, using the tasks entered.",
+  "catalogue.taskCount": "{count} task(s)",
+  "catalogue.confirmDeleteTemplate": 'Delete the template "{name}"?',
+  "catalogue.duplicateCategory": "This category already exists",
+  "catalogue.addCategoryFailed": "Could not add the category",
+  "catalogue.addActivityFailed": "Could not add the activity",
+  "catalogue.deleteCategoryFailed": "Could not delete the category",
+  "catalogue.deleteActivityFailed": "Could not delete the activity",
+  "catalogue.deleteTemplateFailed": "Could not delete the template",
+
+  // PDF template
+  "pdfTemplate.title": "PDF template",
+  "pdfTemplate.header": "Header",
+  "pdfTemplate.documentTitle": "Document title ({default})",
+  "pdfTemplate.companyName": "Company name",
+  "pdfTemplate.companyAddress": "Company address",
+  "pdfTemplate.headerText": "Header text (below the title)",
+  "pdfTemplate.footerText": "Footer text",
+  "pdfTemplate.noLogo": "No logo",
+  "pdfTemplate.appLogo": "Application logo",
+  "pdfTemplate.importImage": "Import an image",
+  "pdfTemplate.layout": "Layout",
+  "pdfTemplate.landscape": "Landscape",
+  "pdfTemplate.portrait": "Portrait",
+  "pdfTemplate.fontSize": "Size",
+  "pdfTemplate.headerFill": "Header background",
+  "pdfTemplate.columns": "Task columns",
+  "pdfTemplate.width": "Width",
+  "pdfTemplate.moveUp": "Move up",
+  "pdfTemplate.moveDown": "Move down",
+  "pdfTemplate.signatures": "Signatures",
+  "pdfTemplate.signatureBlock": "Add a signature block",
+  "pdfTemplate.signatoryLabel": "Label ({default})",
+  "pdfTemplate.reportAuthor": "Report author",
+  "pdfTemplate.addSignatory": "+ Add a signatory",
+  "pdfTemplate.reportDate": "Report date",
+  "pdfTemplate.blankDate": "Date filled in by hand",
+  "pdfTemplate.save": "Save the template",
+  "pdfTemplate.reset": "Original layout",
+  "pdfTemplate.confirmReset": "Go back to the original layout?",
+  "pdfTemplate.saved": "Template saved",
+  "pdfTemplate.preview": "Preview",
+  "pdfTemplate.previewTitle": "PDF preview",
+  "pdfTemplate.previewUnavailable": "Preview unavailable.",
+  "pdfTemplate.logoUnreadable": "Could not read the logo",
+  "pdfTemplate.logoType": "The logo must be a PNG, JPEG or SVG image",
+  "pdfTemplate.logoSize": "The logo must not exceed 2 MB",
+  "pdfTemplate.saveFailed": "Could not save the PDF template",
+  "pdfTemplate.sample.category1": "Maintenance",
+  "pdfTemplate.sample.task1": "Equipment inspection",
+  "pdfTemplate.sample.category2": "Call-out",
+  "pdfTemplate.sample.task2": "Pump replacement",
+  "pdfTemplate.sample.problems": "Part delivered late",
+  "pdfTemplate.sample.planned": "- Test the new pump",
+
+  // Report and navigation
+  "view.report": "Report",
+  "view.calendar": "Calendar",
+  "view.team": "Team",
+  "view.periods": "Timesheets",
+  "view.statistics": "Statistics",
+  "view.incidents": "Incidents",
+  "view.verify": "Verification",
+  "view.catalogue": "Catalogue",
+  "view.pdfTemplate": "PDF template",
+  "view.settings": "Profile and backup",
+  "app.title": "Daily work report",
+  "app.whoAmI": "Who?",
+  "app.syncFailed":
+    "Synchronization failed, it will be retried when the connection is back",
+  "app.punchClockFailed": "Could not save the punch clock mode",
+  "app.templateName": "Day template name",
+  "app.templateEmpty": "Add at least one described task to create a template",
+  "app.templateFailed": "Could not save the template",
+  "app.reportInvalid": "The report contains errors: fix the highlighted fields",
+  "app.saveFailed": "Failed to save report offline",
+  "app.pdfFailed": "Could not generate the PDF",
+  "app.switchFailed": "Could not switch user",
+  "app.confirmDelete": "Delete the report of {date}?",
+  "app.deleteFailed": "Could not delete the report",
+  "app.reportFinalized":
+    "This report is finalized: it can no longer be changed or deleted",
+  "app.restoreFailed": "Could not restore the report",
+  "app.draftFound":
+    "An unsaved draft from {date} was found (last modified at {time}).",
+  "app.resume": "Resume",
+  "app.ignore": "Ignore",
+  "app.reviewedBy": "{status} by {reviewer} on {date}",
+  "app.carryOver": "Work planned on {weekday} {date}:",
+  "app.addAsTasks": "Add as tasks",
+  "app.reportDeleted": "Report of {date} deleted",
+  "app.toggleDarkMode": "Toggle dark mode",
+  "app.activeMember": "Team member",
+  "report.editing": "Editing the report of {date}",
+  "report.new": "New report",
+  "report.punchClock": "Punch clock mode",
+  "report.startNew": "+ New report",
+  "report.date": "Report date",
+  "report.arrival": "Arrival time",
+  "report.departure": "Departure time",
+  "report.tasks": "Tasks performed",
+  "report.dayTemplate": "Day template…",
+  "report.dayTemplateLabel": "Day template to insert",
+  "report.insert": "Insert",
+  "report.saveAsTemplate": "Save as template",
+  "report.planned": "planned",
+  "report.taskStart": "Start time",
+  "report.taskEnd": "End time",
+  "report.taskDescription": "Task description",
+  "report.taskProblems": "Problems (optional)",
+  "report.removeTask": "Delete the task",
+  "report.postpone": "Postpone to the next day",
+  "report.addTask": "+ Add a task",
+  "report.plannedTitle": "Work planned for the next working day",
+  "report.plannedPlaceholder": "Describe the work planned for the next day",
+  "report.update": "Update",
+  "report.downloadPdf": "Download PDF",
+  "report.taskLegend": "Task {index}",
+  "report.taskCategory": "Category",
+  "report.removeTaskNumber": "Delete task {index}",
+  "report.duplicateTask": "Duplicate",
+  "report.duplicateTaskNumber": "Duplicate task {index}",
+  "report.moveUp": "Move task {index} up",
+  "report.moveDown": "Move task {index} down",
+  "report.dragHandle": "Move task {index} (drag, or up and down arrows)",
+  "report.taskAdded": "Task {index} added",
+  "report.taskRemoved": "Task {index} deleted",
+  "report.taskDuplicated": "Task {index} duplicated",
+  "report.taskMoved": "Task {from} moved to position {to}",
+  "report.savedAnnouncement": "Report saved",
+  "language.title": "Language",
+  "language.interface": "Interface language",
+  "language.report": "PDF report language",
+  "language.hint":
+    "PDF reports, timesheets and summaries can be produced in a different language from the interface.",
+
+  // Task attachments
+  "attachments.addFile": "Attach a file",
+  "attachments.takePhoto": "Take a photo",
+  "attachments.adding": "Adding…",
+  "attachments.remove": "Remove",
+  "attachments.missing": "Not on this device",
+  "attachments.tooMany": "A task can have at most {max} attachments",
+  "attachments.error.tooLarge":
+    "The file exceeds the maximum size of {size} MB",
+  "attachments.error.unreadable": "The image could not be read",
+  "attachments.addFailed": "Error adding the attachment",
+  "pdf.annex.title": "Appendix: attachments",
+  "pdf.annex.task": "Task {index} ({start} - {end}): {description}",
+  "pdf.annex.image": "{name}, added on {date}",
+  "pdf.annex.file": "{name}, added on {date} (file not reproduced)",
+
+  // Calendar, holidays and reminder
+  "calendar.title": "Report calendar",
+  "calendar.missing": "{count} working day(s) without a report this month",
+  "calendar.complete": "No missing report this month",
+  "calendar.confirmReplace":
+    "The current report isn't saved. Start a report for this day anyway?",
+  "dayState.report": "Report saved",
+  "dayState.draft": "Draft",
+  "dayState.missing": "No report",
+  "dayState.weekend": "Day off",
+  "dayState.holiday": "Holiday",
+  "dayState.future": "Upcoming",
+  "workCalendar.title": "Working days and holidays",
+  "workCalendar.workingDays": "Working days",
+  "workCalendar.holidays": "Holidays and closures",
+  "workCalendar.importIcs": "Import an ICS file",
+  "workCalendar.icsImported": "{count} day(s) imported",
+  "workCalendar.icsEmpty": "The file contains no dated event",
+  "workCalendar.icsUnreadable": "The calendar file could not be read",
+  "workCalendar.noHolidays": "No upcoming holiday",
+  "workCalendar.date": "Date",
+  "workCalendar.name": "Name (optional)",
+  "workCalendar.saveFailed": "Error saving the calendar",
+  "reminder.title": "End-of-day reminder",
+  "reminder.hint":
+    "A notification is shown at the chosen time on working days when the day's report isn't saved. With the app closed, this depends on browser support.",
+  "reminder.unsupported": "This browser doesn't support notifications.",
+  "reminder.enabled": "Enable the reminder",
+  "reminder.time": "Time",
+  "reminder.permissionDenied": "Notifications were denied for this site",
+  "reminder.saveFailed": "Error saving the reminder",
+  "reminder.notificationTitle": "Today's report",
+  "reminder.notificationBody": "Today's report hasn't been saved yet.",
+
+  // Finalization and verification
+  "finalize.start": "Finalize the report",
+  "finalize.title": "Finalize the report",
+  "finalize.hint":
+    "Sign below. Once finalized, the report can no longer be changed and its SHA-256 hash is printed on the PDF along with your signature.",
+  "finalize.signatureArea": "Signature area",
+  "finalize.clearSignature": "Clear the signature",
+  "finalize.confirm": "Sign and finalize",
+  "finalize.signatureRequired": "Draw your signature before finalizing",
+  "finalize.saveFirst": "Save your changes before finalizing the report",
+  "finalize.unsupported":
+    "Computing the hash requires a secure connection (HTTPS)",
+  "finalize.failed": "Error finalizing the report",
+  "finalize.locked":
+    "Report finalized on {date}, it can no longer be changed. SHA-256 hash: {hash}",
+  "pdf.finalized": "Report finalized and signed on {date}",
+  "pdf.hash": "SHA-256 hash: {hash}",
+  "verify.title": "Check report integrity",
+  "verify.hint":
+    "The hash of each finalized report is computed again and compared with the one stored when it was finalized. The hash covers the list of attached files but not their contents.",
+  "verify.stored": "Check stored reports",
+  "verify.backup": "Check a backup",
+  "verify.summary.stored":
+    "Stored reports: {valid} intact, {modified} modified, {notFinalized} not finalized",
+  "verify.summary.backup":
+    "Backup: {valid} intact, {modified} modified, {notFinalized} not finalized",
+  "verify.finalizedAt": "Finalized on {date}",
+  "verify.noneFinalized": "No finalized report",
+  "verify.failed": "Error during verification",
+  "verificationStatus.valid": "Intact",
+  "verificationStatus.modified": "Modified",
+  "verificationStatus.notFinalized": "Not finalized",
+
+  // Keyboard shortcuts
+  "shortcuts.title": "Keyboard shortcuts",
+  "shortcuts.alt": "Alt",
+  "shortcuts.shift": "Shift",
+  "shortcuts.mod": "Ctrl/Cmd",
+  "shortcut.newTask": "Add a task",
+  "shortcut.duplicateTask": "Duplicate the current task",
+  "shortcut.save": "Save the report",
+  "shortcut.nextTask": "Go to the next task",
+  "shortcut.previousTask": "Go to the previous task",
+  "shortcut.moveTaskDown": "Move the current task down",
+  "shortcut.moveTaskUp": "Move the current task up",
+};
@@ -0,0 +1,573 @@
+// Reference catalogue: every key added here must be added to the other
+// languages too, which the Messages type checks.
+export const fr = {
+  // Date formats (dayjs)
+  "format.date": "DD/MM/YYYY",
+  "format.shortDate": "DD/MM",
+  "format.dateTime": "DD/MM/YYYY HH:mm",
+
+  // Report validation
+  "validation.firstNameRequired": "Le prénom est requis",
+  "validation.lastNameRequired": "Le nom est requis",
+  "validation.arrivalRequired": "L'heure d'arrivée est requise",
+  "validation.departureRequired": "L'heure de départ est requise",
+  "validation.departureBeforeArrival":
+    "Le départ doit être postérieur à l'arrivée",
+  "validation.noTask": "Ajoutez au moins une tâche",
+  "validation.taskDescriptionRequired": "Tâche {task} : description requise",
+  "validation.taskStartRequired": "Tâche {task} : heure de début requise",
+  "validation.taskEndRequired": "Tâche {task} : heure de fin requise",
+  "validation.taskEndBeforeStart":
+    "Tâche {task} : la fin doit être postérieure au début",
+  "validation.taskBeforeArrival":
+    "Tâche {task} : commence avant l'heure d'arrivée",
+  "validation.taskAfterDeparture":
+    "Tâche {task} : se termine après l'heure de départ",
+  "validation.taskOverlap": "Tâche {task} : chevauche la tâche {other}",
+  "validation.gapBetweenTasks":
+    "{duration} non couvertes entre la tâche {previous} et la tâche {task}",
+  "validation.gapAfterArrival":
+    "{duration} non couvertes entre l'arrivée et la première tâche",
+  "validation.gapBeforeDeparture":
+    "{duration} non couvertes entre la dernière tâche et le départ",
+
+  // Statuses and labels
+  "incidentStatus.open": "Ouvert",
+  "incidentStatus.resolved": "Résolu",
+  "plannedStatus.done": "Réalisé",
+  "plannedStatus.carriedOver": "Reporté",
+  "plannedStatus.dropped": "Abandonné",
+  "reviewStatus.validated": "Validé",
+  "reviewStatus.returned": "À reprendre",
+  "searchField.description": "Tâche",
+  "searchField.problems": "Problèmes",
+  "searchField.plannedTasks": "Travaux prévus",
+  "searchSort.dateDesc": "Plus récents",
+  "searchSort.dateAsc": "Plus anciens",
+  "searchSort.author": "Auteur",
+  "searchSort.workedMinutes": "Heures travaillées",
+  "pdfColumn.start": "Début",
+  "pdfColumn.end": "Fin",
+  "pdfColumn.duration": "Durée",
+  "pdfColumn.category": "Catégorie",
+  "pdfColumn.description": "Tâche effectuée",
+  "pdfColumn.problems": "Problèmes",
+  "pdfFont.helvetica": "Helvetica (sans empattement)",
+  "pdfFont.times": "Times (avec empattement)",
+  "pdfFont.courier": "Courier (chasse fixe)",
+  "category.uncategorized": "Sans catégorie",
+
+  // PDF documents
+  "format.percent": "{value} %",
+  "pdf.reportTitle": "Rapport de travail journalier",
+  "pdf.name": "Nom: {name}",
+  "pdf.jobTitle": "Fonction: {value}",
+  "pdf.department": "Service / site: {value}",
+  "pdf.date": "Date: {date}",
+  "pdf.times": "Arrivée: {arrival}    Départ: {departure}",
+  "pdf.plannedTask": "(prévu) {description}",
+  "pdf.plannedTasks": "Travaux prévus",
+  "pdf.plannedFollowUp": "Suivi des travaux prévus : {counts}",
+  "pdf.plannedCount.done": "{count} réalisé(s)",
+  "pdf.plannedCount.carriedOver": "{count} reporté(s)",
+  "pdf.plannedCount.dropped": "{count} abandonné(s)",
+  "pdf.signature": "Signature:",
+  "pdf.signatory.employee": "Le salarié",
+  "pdf.signatory.manager": "Le responsable",
+  "pdf.column.plannedItem": "Travail prévu",
+  "pdf.column.status": "Statut",
+  "pdf.column.task": "Tâche",
+  "pdf.column.time": "Temps",
+  "pdf.column.share": "Part",
+  "pdf.column.day": "Jour",
+  "pdf.column.presence": "Présence",
+  "pdf.column.tasks": "Tâches",
+  "pdf.column.gap": "Écart",
+  "pdf.column.overtime": "Heures sup.",
+  "pdf.column.date": "Date",
+  "pdf.column.author": "Auteur",
+  "pdf.column.problem": "Problème",
+  "pdf.column.resolution": "Résolution",
+  "pdf.period.title": "Relevé d'heures - {person}",
+  "pdf.period.range": "Période: du {start} au {end}",
+  "pdf.period.dailyTarget": "Objectif journalier: {duration}",
+  "pdf.period.empty": "Aucun rapport sur cette période.",
+  "pdf.period.dayTotals":
+    "Présence: {worked} ({presence})    Tâches: {tasks}    Écart: {gap}    Heures sup.: {overtime}",
+  "pdf.period.summary": "Récapitulatif",
+  "pdf.period.total": "Total ({count} jours)",
+  "pdf.period.categories": "Répartition par catégorie",
+  "pdf.period.plannedItems": "Travaux prévus sur la période : {counts}",
+  "pdf.incidents.title": "Journal des incidents",
+  "pdf.incidents.range": "du {start} au {end}",
+  "pdf.incidents.fromStart": "début",
+  "pdf.incidents.toToday": "aujourd'hui",
+  "pdf.incidents.allDates": "toutes dates",
+  "pdf.incidents.period": "Période: {period}",
+  "pdf.incidents.status": "Statut: {status}",
+  "pdf.incidents.count":
+    "Incidents: {count} ({open} ouvert(s), {resolved} résolu(s))",
+  "pdf.incidents.empty": "Aucun incident.",
+
+  // Statistics
+  "common.everyone": "Tout le monde",
+  "common.from": "Du",
+  "common.to": "Au",
+  "common.last4Weeks": "4 dernières semaines",
+  "common.last3Months": "3 derniers mois",
+  "common.thisYear": "Cette année",
+  "common.invalidPeriod": "Choisissez une période valide.",
+  "statistics.title": "Statistiques",
+  "statistics.averagePresence": "Présence moyenne",
+  "statistics.averageArrival": "Arrivée moyenne",
+  "statistics.averageDeparture": "Départ moyen",
+  "statistics.daysWithProblems": "Jours avec problèmes",
+  "statistics.hoursPerDay": "Heures par jour",
+  "statistics.hoursPerWeek": "Heures par semaine",
+  "statistics.timeSplit": "Répartition du temps",
+  "statistics.byCategory": "Par catégorie",
+  "statistics.byKeyword": "Par mot-clé",
+  "statistics.missingReports": "Rapports manquants",
+  "statistics.coverage":
+    "{reported} jour(s) avec rapport sur {working} jour(s) ouvré(s)",
+  "statistics.missingDay": "Le {date}",
+  "statistics.missingRange": "Du {start} au {end}",
+  "statistics.workingDays": "{count} jour(s) ouvré(s)",
+  "statistics.noMissing": "Aucun jour ouvré sans rapport.",
+  "statistics.noData": "Pas de données sur cette période.",
+  "statistics.barValue": "{label} : {value}",
+
+  // Backup
+  "backup.title": "Sauvegarde et restauration",
+  "backup.exportJson": "Exporter (JSON)",
+  "backup.exportCsv": "Exporter (CSV)",
+  "backup.import": "Importer une sauvegarde",
+  "backup.exportFailed": "Impossible d'exporter les rapports",
+  "backup.importFailed": "Impossible d'importer les rapports",
+  "backup.unreadable": "Fichier de sauvegarde illisible",
+  "backup.imported": "{count} rapport(s) importé(s)",
+  "backup.summary":
+    "{new} nouveau(x), {identical} déjà présent(s), {conflict} en conflit.",
+  "backup.allConflicts": "Pour tous les conflits :",
+  "backup.conflict":
+    "{date} — {person} ({count} tâche(s), actuellement {existing})",
+  "backup.finalizedConflict": "finalisé sur cet appareil, conservé tel quel",
+  "backup.restoreMembers":
+    "Ajouter les membres de l'équipe absents de cet appareil : {names}",
+  "backup.resolution.skip": "Ignorer",
+  "backup.resolution.overwrite": "Écraser",
+  "backup.resolution.keepBoth": "Conserver les deux",
+  "backup.error.invalidJson": "Le fichier n'est pas un JSON valide",
+  "backup.error.notBackup": "Le fichier n'est pas une sauvegarde de rapports",
+  "backup.error.newerVersion":
+    "Cette sauvegarde provient d'une version plus récente de l'application",
+  "backup.error.noReports": "La sauvegarde ne contient aucun rapport",
+  "backup.error.invalidReport":
+    "Le rapport n°{index} de la sauvegarde est invalide",
+  "backup.error.invalidProfile":
+    "Le profil contenu dans la sauvegarde est invalide",
+  "backup.error.invalidMember":
+    "Le membre n°{index} de la sauvegarde est invalide",
+  "backup.error.invalidAttachment":
+    "La pièce jointe n°{index} de la sauvegarde est invalide",
+  "backup.error.invalidIncident":
+    "Le suivi d'incident n°{index} de la sauvegarde est invalide",
+  "csv.column.date": "Date",
+  "csv.column.lastName": "Nom",
+  "csv.column.firstName": "Prénom",
+  "csv.column.arrival": "Arrivée",
+  "csv.column.departure": "Départ",
+  "csv.column.start": "Début",
+  "csv.column.end": "Fin",
+  "csv.column.category": "Catégorie",
+  "csv.column.task": "Tâche",
+  "csv.column.problems": "Problèmes",
+  "common.import": "Importer",
+  "common.cancel": "Annuler",
+
+  // Incident log
+  "common.search": "Rechercher",
+  "common.openReport": "Ouvrir le rapport",
+  "incidents.title": "Journal des incidents",
+  "incidents.allStatuses": "Tous les statuts",
+  "incidents.allAuthors": "Tous les auteurs",
+  "incidents.count":
+    "{count} incident(s) — {open} ouvert(s), {resolved} résolu(s)",
+  "incidents.resetFilters": "Réinitialiser les filtres",
+  "incidents.none": "Aucun incident ne correspond aux filtres.",
+  "incidents.resolutionNote": "Note de résolution",
+  "incidents.saveNote": "Enregistrer la note",
+  "incidents.downloadPdf": "Télécharger la synthèse PDF",
+  "incidents.saveFailed": "Impossible de mettre à jour l'incident",
+  "incidents.pdfFailed": "Impossible de générer la synthèse des incidents",
+
+  // Period timesheet
+  "common.thisWeek": "Cette semaine",
+  "common.thisMonth": "Ce mois",
+  "common.noReports": "Aucun rapport enregistré pour le moment.",
+  "period.title": "Relevé hebdomadaire / mensuel",
+  "period.dailyTarget": "Objectif (h/jour)",
+  "period.summary":
+    "{days} jour(s) — présence {worked}, tâches {tasks}, heures sup. {overtime}",
+  "period.download": "Télécharger le relevé PDF",
+  "period.endBeforeStart":
+    "La date de fin doit être postérieure à la date de début",
+  "period.pdfFailed": "Impossible de générer le relevé",
+
+  // Report search
+  "common.delete": "Supprimer",
+  "common.previous": "← Précédent",
+  "common.next": "Suivant →",
+  "common.page": "Page {page} / {count}",
+  "reportState.saved": "enregistré",
+  "reportState.modified": "modifié",
+  "search.title": "Rapports passés",
+  "search.placeholder": "Mots-clés (tâches, problèmes, travaux prévus)",
+  "search.sortBy": "Trier : {sort}",
+  "search.count": "{count} rapport(s)",
+  "search.editing": "en cours d'édition",
+  "search.taskCount": "{duration} · {count} tâche(s)",
+  "search.problems": "problèmes signalés",
+  "search.snippetField": "{field} : ",
+
+  // Team review
+  "review.title": "Revue de l'équipe",
+  "review.day": "Jour",
+  "review.previousWeek": "← Semaine précédente",
+  "review.nextWeek": "Semaine suivante →",
+  "review.member": "Membre",
+  "review.pending": "À valider",
+  "review.missing": "Non soumis le {date}",
+  "review.allSubmitted": "Tous les membres ont remis leur rapport.",
+  "review.dayOff": "Aucun rapport n'est attendu un jour non travaillé.",
+  "review.problems": "Problèmes : {problems}",
+  "review.reviewedBy": "{status} par {reviewer} le {date}",
+  "review.commentPlaceholder": "Commentaire pour l'auteur",
+  "review.return": "Renvoyer avec commentaire",
+  "review.validate": "Valider",
+  "review.commentRequired":
+    "Indiquez ce qui doit être repris dans le commentaire",
+  "review.saveFailed": "Impossible d'enregistrer la revue",
+
+  // Team
+  "common.firstName": "Prénom",
+  "common.lastName": "Nom",
+  "common.add": "+ Ajouter",
+  "team.title": "Équipe",
+  "team.intro":
+    "Chaque membre retrouve son profil, son brouillon et son historique en passant sur son nom. Les responsables ont accès à la revue des rapports.",
+  "team.activeUser": "utilisateur actif",
+  "team.manager": "Responsable",
+  "team.use": "Utiliser",
+  "team.remove": "Retirer",
+  "team.confirmRemove":
+    "Retirer {person} de l'équipe ? Ses rapports sont conservés.",
+  "team.nameRequired": "Veuillez remplir le nom et le prénom du membre",
+  "team.duplicate": "Ce membre existe déjà",
+  "team.lastManager": "L'équipe doit garder au moins un responsable",
+  "team.removeActive": "Changez d'utilisateur avant de supprimer ce membre",
+  "team.addFailed": "Impossible d'ajouter le membre",
+  "team.updateFailed": "Impossible de modifier le membre",
+  "team.removeFailed": "Impossible de supprimer le membre",
+
+  // Synchronization and updates
+  "common.save": "Enregistrer",
+  "sync.title": "Synchronisation",
+  "sync.intro":
+    "Envoie les rapports de cet appareil au serveur de l'équipe et récupère ceux des autres. Hors ligne, les modifications sont mises en attente et envoyées au retour du réseau.",
+  "sync.enable": "Activer la synchronisation",
+  "sync.serverUrl": "Adresse du serveur (vide : ce serveur)",
+  "sync.token": "Jeton d'accès",
+  "sync.syncing": "Synchronisation…",
+  "sync.syncNow": "Synchroniser maintenant",
+  "sync.pending": "{count} modification(s) en attente",
+  "sync.lastSync": " · dernière synchronisation le {date}",
+  "sync.conflicts": "Conflits",
+  "sync.deleted": "supprimé",
+  "sync.local": "Sur cet appareil : {report}",
+  "sync.remote": "Sur le serveur : {report}, modifié le {date}",
+  "sync.keepLocal": "Garder ma version",
+  "sync.keepServer": "Garder la version du serveur",
+  "sync.saveFailed": "Impossible d'enregistrer les réglages de synchronisation",
+  "sync.resolveFailed": "Impossible de résoudre le conflit",
+  "update.available":
+    "Une nouvelle version de l'application est disponible. Le rapport en cours est conservé comme brouillon.",
+  "update.apply": "Mettre à jour",
+  "update.later": "Plus tard",
+
+  // Punch clock and profile
+  "punch.arrivedAt": "Arrivée à {time}",
+  "punch.notStarted": "Journée non commencée",
+  "punch.leftAt": " — départ à {time}",
+  "punch.running": "En cours : {task}",
+  "punch.in": "Arrivée",
+  "punch.taskPlaceholder": "Tâche à démarrer",
+  "punch.taskLabel": "Tâche à démarrer",
+  "punch.start": "Démarrer",
+  "punch.stopTask": "Terminer la tâche",
+  "punch.out": "Départ",
+  "punch.resume": "Reprendre la journée",
+  "profile.title": "Mon profil",
+  "profile.jobTitle": "Fonction",
+  "profile.department": "Service / site",
+  "profile.usualArrival": "Arrivée habituelle",
+  "profile.usualDeparture": "Départ habituel",
+  "profile.signature": "Signature",
+  "profile.replaceImage": "Remplacer l'image",
+  "profile.addImage": "Ajouter une image",
+  "profile.saved": "Profil enregistré",
+  "profile.save": "Enregistrer le profil",
+  "profile.signatureType": "La signature doit être une image PNG ou JPEG",
+  "profile.signatureSize": "L'image de signature ne doit pas dépasser 500 Ko",
+  "profile.signatureUnreadable": "Impossible de lire l'image de signature",
+  "profile.nameRequired": "Veuillez remplir votre nom et prénom",
+  "profile.saveFailed": "Impossible d'enregistrer le profil",
+
+  // Catalogue
+  "catalogue.categories": "Catégories et projets",
+  "catalogue.newCategory": "Nouvelle catégorie",
+  "catalogue.activities": "Activités récurrentes",
+  "catalogue.activityDescription": "Description de l'activité",
+  "catalogue.templates": "Modèles de journée",
+  "catalogue.templatesHint":
+    "Les modèles se créent depuis le formulaire du rapport, à partir des tâches saisies.",
+  "catalogue.taskCount": "{count} tâche(s)",
+  "catalogue.confirmDeleteTemplate": "Supprimer le modèle « {name} » ?",
+  "catalogue.duplicateCategory": "Cette catégorie existe déjà",
+  "catalogue.addCategoryFailed": "Impossible d'ajouter la catégorie",
+  "catalogue.addActivityFailed": "Impossible d'ajouter l'activité",
+  "catalogue.deleteCategoryFailed": "Impossible de supprimer la catégorie",
+  "catalogue.deleteActivityFailed": "Impossible de supprimer l'activité",
+  "catalogue.deleteTemplateFailed": "Impossible de supprimer le modèle",
+
+  // PDF template
+  "pdfTemplate.title": "Modèle PDF",
+  "pdfTemplate.header": "En-tête",
+  "pdfTemplate.documentTitle": "Titre du document ({default})",
+  "pdfTemplate.companyName": "Nom de l'entreprise",
+  "pdfTemplate.companyAddress": "Adresse de l'entreprise",
+  "pdfTemplate.headerText": "Texte d'en-tête (sous le titre)",
+  "pdfTemplate.footerText": "Texte de pied de page",
+  "pdfTemplate.noLogo": "Aucun logo",
+  "pdfTemplate.appLogo": "Logo de l'application",
+  "pdfTemplate.importImage": "Importer une image",
+  "pdfTemplate.layout": "Mise en page",
+  "pdfTemplate.landscape": "Paysage",
+  "pdfTemplate.portrait": "Portrait",
+  "pdfTemplate.fontSize": "Taille",
+  "pdfTemplate.headerFill": "Fond des en-têtes",
+  "pdfTemplate.columns": "Colonnes des tâches",
+  "pdfTemplate.width": "Largeur",
+  "pdfTemplate.moveUp": "Monter",
+  "pdfTemplate.moveDown": "Descendre",
+  "pdfTemplate.signatures": "Signatures",
+  "pdfTemplate.signatureBlock": "Ajouter un bloc de signatures",
+  "pdfTemplate.signatoryLabel": "Libellé ({default})",
+  "pdfTemplate.reportAuthor": "Auteur du rapport",
+  "pdfTemplate.addSignatory": "+ Ajouter un signataire",
+  "pdfTemplate.reportDate": "Date du rapport",
+  "pdfTemplate.blankDate": "Date à compléter à la main",
+  "pdfTemplate.save": "Enregistrer le modèle",
+  "pdfTemplate.reset": "Mise en page d'origine",
+  "pdfTemplate.confirmReset": "Revenir à la mise en page d'origine ?",
+  "pdfTemplate.saved": "Modèle enregistré",
+  "pdfTemplate.preview": "Aperçu",
+  "pdfTemplate.previewTitle": "Aperçu du PDF",
+  "pdfTemplate.previewUnavailable": "Aperçu indisponible.",
+  "pdfTemplate.logoUnreadable": "Impossible de lire le logo",
+  "pdfTemplate.logoType": "Le logo doit être une image PNG, JPEG ou SVG",
+  "pdfTemplate.logoSize": "Le logo ne doit pas dépasser 2 Mo",
+  "pdfTemplate.saveFailed": "Impossible d'enregistrer le modèle PDF",
+  "pdfTemplate.sample.category1": "Maintenance",
+  "pdfTemplate.sample.task1": "Contrôle des installations",
+  "pdfTemplate.sample.category2": "Intervention",
+  "pdfTemplate.sample.task2": "Remplacement d'une pompe",
+  "pdfTemplate.sample.problems": "Pièce livrée avec retard",
+  "pdfTemplate.sample.planned": "- Essais de la nouvelle pompe",
+
+  // Report and navigation
+  "view.report": "Rapport",
+  "view.calendar": "Calendrier",
+  "view.team": "Équipe",
+  "view.periods": "Relevés",
+  "view.statistics": "Statistiques",
+  "view.incidents": "Incidents",
+  "view.verify": "Vérification",
+  "view.catalogue": "Catalogue",
+  "view.pdfTemplate": "Modèle PDF",
+  "view.settings": "Profil et sauvegarde",
+  "app.title": "Rapport de travail journalier",
+  "app.whoAmI": "Qui ?",
+  "app.syncFailed":
+    "Synchronisation impossible, nouvel essai au retour de la connexion",
+  "app.punchClockFailed": "Impossible d'enregistrer le mode pointage",
+  "app.templateName": "Nom du modèle de journée",
+  "app.templateEmpty":
+    "Ajoutez au moins une tâche décrite pour créer un modèle",
+  "app.templateFailed": "Impossible d'enregistrer le modèle",
+  "app.reportInvalid":
+    "Le rapport contient des erreurs : corrigez les champs signalés",
+  "app.saveFailed": "Impossible d'enregistrer le rapport hors ligne",
+  "app.pdfFailed": "Impossible de générer le PDF",
+  "app.switchFailed": "Impossible de changer d'utilisateur",
+  "app.confirmDelete": "Supprimer le rapport du {date} ?",
+  "app.deleteFailed": "Impossible de supprimer le rapport",
+  "app.reportFinalized":
+    "Ce rapport est finalisé : il ne peut plus être modifié ni supprimé",
+  "app.restoreFailed": "Impossible de restaurer le rapport",
+  "app.draftFound":
+    "Un brouillon du {date} non enregistré a été retrouvé (dernière modification à {time}).",
+  "app.resume": "Reprendre",
+  "app.ignore": "Ignorer",
+  "app.reviewedBy": "{status} par {reviewer} le {date}",
+  "app.carryOver": "Travaux prévus le {weekday} {date} :",
+  "app.addAsTasks": "Ajouter comme tâches",
+  "app.reportDeleted": "Rapport du {date} supprimé",
+  "app.toggleDarkMode": "Basculer le mode sombre",
+  "app.activeMember": "Membre de l'équipe",
+  "report.editing": "Modification du rapport du {date}",
+  "report.new": "Nouveau rapport",
+  "report.punchClock": "Mode pointage",
+  "report.startNew": "+ Nouveau rapport",
+  "report.date": "Date du rapport",
+  "report.arrival": "Heure d'arrivée",
+  "report.departure": "Heure de départ",
+  "report.tasks": "Tâches effectuées",
+  "report.dayTemplate": "Modèle de journée…",
+  "report.dayTemplateLabel": "Modèle de journée à insérer",
+  "report.insert": "Insérer",
+  "report.saveAsTemplate": "Enregistrer comme modèle",
+  "report.planned": "prévu",
+  "report.taskStart": "Heure de début",
+  "report.taskEnd": "Heure de fin",
+  "report.taskDescription": "Description de la tâche",
+  "report.taskProblems": "Problèmes (optionnel)",
+  "report.removeTask": "Supprimer la tâche",
+  "report.postpone": "Reporter au jour suivant",
+  "report.addTask": "+ Ajouter une tâche",
+  "report.plannedTitle": "Travaux prévus pour le jour ouvrable suivant",
+  "report.plannedPlaceholder":
+    "Décrivez les travaux prévus pour le jour suivant",
+  "report.update": "Mettre à jour",
+  "report.downloadPdf": "Télécharger PDF",
+  "report.taskLegend": "Tâche {index}",
+  "report.taskCategory": "Catégorie",
+  "report.removeTaskNumber": "Supprimer la tâche {index}",
+  "report.duplicateTask": "Dupliquer",
+  "report.duplicateTaskNumber": "Dupliquer la tâche {index}",
+  "report.moveUp": "Monter la tâche {index}",
+  "report.moveDown": "Descendre la tâche {index}",
+  "report.dragHandle":
+    "Déplacer la tâche {index} (glisser ou flèches haut et bas)",
+  "report.taskAdded": "Tâche {index} ajoutée",
+  "report.taskRemoved": "Tâche {index} supprimée",
+  "report.taskDuplicated": "Tâche {index} dupliquée",
+  "report.taskMoved": "Tâche {from} déplacée en position {to}",
+  "report.savedAnnouncement": "Rapport enregistré",
+  "language.title": "Langue",
+  "language.interface": "Langue de l'interface",
+  "language.report": "Langue des rapports PDF",
+  "language.hint":
+    "Les rapports, relevés et synthèses PDF peuvent être produits dans une autre langue que celle de l'interface.",
+
+  // Task attachments
+  "attachments.addFile": "Joindre un fichier",
+  "attachments.takePhoto": "Prendre une photo",
+  "attachments.adding": "Ajout en cours…",
+  "attachments.remove": "Retirer",
+  "attachments.missing": "Absente de cet appareil",
+  "attachments.tooMany": "Une tâche peut avoir au plus {max} pièces jointes",
+  "attachments.error.tooLarge":
+    "Le fichier dépasse la taille maximale de {size} Mo",
+  "attachments.error.unreadable": "L'image n'a pas pu être lue",
+  "attachments.addFailed": "Erreur lors de l'ajout de la pièce jointe",
+  "pdf.annex.title": "Annexe : pièces jointes",
+  "pdf.annex.task": "Tâche {index} ({start} - {end}) : {description}",
+  "pdf.annex.image": "{name}, ajoutée le {date}",
+  "pdf.annex.file": "{name}, ajouté le {date} (fichier non reproduit)",
+
+  // Calendar, holidays and reminder
+  "calendar.title": "Calendrier des rapports",
+  "calendar.missing": "{count} jour(s) travaillé(s) sans rapport ce mois-ci",
+  "calendar.complete": "Aucun rapport manquant ce mois-ci",
+  "calendar.confirmReplace":
+    "Le rapport en cours n'est pas enregistré. Commencer quand même un rapport pour ce jour ?",
+  "dayState.report": "Rapport enregistré",
+  "dayState.draft": "Brouillon",
+  "dayState.missing": "Sans rapport",
+  "dayState.weekend": "Non travaillé",
+  "dayState.holiday": "Jour férié",
+  "dayState.future": "À venir",
+  "workCalendar.title": "Jours travaillés et jours fériés",
+  "workCalendar.workingDays": "Jours travaillés",
+  "workCalendar.holidays": "Jours fériés et fermetures",
+  "workCalendar.importIcs": "Importer un fichier ICS",
+  "workCalendar.icsImported": "{count} jour(s) importé(s)",
+  "workCalendar.icsEmpty": "Le fichier ne contient aucun événement daté",
+  "workCalendar.icsUnreadable": "Le fichier de calendrier n'a pas pu être lu",
+  "workCalendar.noHolidays": "Aucun jour férié à venir",
+  "workCalendar.date": "Date",
+  "workCalendar.name": "Nom (facultatif)",
+  "workCalendar.saveFailed": "Erreur lors de l'enregistrement du calendrier",
+  "reminder.title": "Rappel de fin de journée",
+  "reminder.hint":
+    "Une notification est affichée à l'heure choisie les jours travaillés si le rapport du jour n'est pas enregistré. Application fermée, elle dépend de la prise en charge du navigateur.",
+  "reminder.unsupported": "Ce navigateur ne permet pas les notifications.",
+  "reminder.enabled": "Activer le rappel",
+  "reminder.time": "Heure",
+  "reminder.permissionDenied":
+    "Les notifications ont été refusées pour ce site",
+  "reminder.saveFailed": "Erreur lors de l'enregistrement du rappel",
+  "reminder.notificationTitle": "Rapport du jour",
+  "reminder.notificationBody":
+    "Le rapport d'aujourd'hui n'est pas encore enregistré.",
+
+  // Finalization and verification
+  "finalize.start": "Finaliser le rapport",
+  "finalize.title": "Finaliser le rapport",
+  "finalize.hint":
+    "Signez ci-dessous. Une fois finalisé, le rapport ne peut plus être modifié et son empreinte SHA-256 est imprimée sur le PDF avec votre signature.",
+  "finalize.signatureArea": "Zone de signature",
+  "finalize.clearSignature": "Effacer la signature",
+  "finalize.confirm": "Signer et finaliser",
+  "finalize.signatureRequired": "Tracez votre signature avant de finaliser",
+  "finalize.saveFirst":
+    "Enregistrez les modifications avant de finaliser le rapport",
+  "finalize.unsupported":
+    "Le calcul d'empreinte nécessite une connexion sécurisée (HTTPS)",
+  "finalize.failed": "Erreur lors de la finalisation du rapport",
+  "finalize.locked":
+    "Rapport finalisé le {date}, il ne peut plus être modifié. Empreinte SHA-256 : {hash}",
+  "pdf.finalized": "Rapport finalisé et signé le {date}",
+  "pdf.hash": "Empreinte SHA-256 : {hash}",
+  "verify.title": "Vérifier l'intégrité des rapports",
+  "verify.hint":
+    "L'empreinte de chaque rapport finalisé est recalculée et comparée à celle enregistrée lors de la finalisation. L'empreinte couvre la liste des pièces jointes mais pas leur contenu.",
+  "verify.stored": "Vérifier les rapports enregistrés",
+  "verify.backup": "Vérifier une sauvegarde",
+  "verify.summary.stored":
+    "Rapports enregistrés : {valid} intact(s), {modified} modifié(s), {notFinalized} non finalisé(s)",
+  "verify.summary.backup":
+    "Sauvegarde : {valid} intact(s), {modified} modifié(s), {notFinalized} non finalisé(s)",
+  "verify.finalizedAt": "Finalisé le {date}",
+  "verify.noneFinalized": "Aucun rapport finalisé",
+  "verify.failed": "Erreur lors de la vérification",
+  "verificationStatus.valid": "Intact",
+  "verificationStatus.modified": "Modifié",
+  "verificationStatus.notFinalized": "Non finalisé",
+
+  // Keyboard shortcuts
+  "shortcuts.title": "Raccourcis clavier",
+  "shortcuts.alt": "Alt",
+  "shortcuts.shift": "Maj",
+  "shortcuts.mod": "Ctrl/Cmd",
+  "shortcut.newTask": "Ajouter une tâche",
+  "shortcut.duplicateTask": "Dupliquer la tâche en cours",
+  "shortcut.save": "Enregistrer le rapport",
+  "shortcut.nextTask": "Aller à la tâche suivante",
+  "shortcut.previousTask": "Aller à la tâche précédente",
+  "shortcut.moveTaskDown": "Descendre la tâche en cours",
+  "shortcut.moveTaskUp": "Monter la tâche en cours",
+};
+
+export type Messages = Record<keyof typeof fr, string>;
@@ -0,0 +1,762 @@
+import dayjs, { Dayjs } from "dayjs";
+import jsPDF from "jspdf";
+import { AnnexItem } from "./attachments";
+import {
+  drawPageNumbers,
+  drawParagraph,
+  drawTable,
+  ensureSpace,
+  getLineHeight,
+  getUsableWidth,
+  MARGIN,
+  setFontStyle,
+  TableColumn,
+  wrapText,
+} from "./pdfLayout";
+import {
+  createDefaultPdfTemplate,
+  hexToRgb,
+  PdfColumnId,
+  PdfTemplate,
+} from "./pdfTemplate";
+import {
+  createTranslator,
+  DEFAULT_LOCALE,
+  formatDate,
+  formatDateTime,
+  formatShortDate,
+  formatWeekday,
+  Locale,
+  Translate,
+} from "./i18n";
+import { countIncidents, Incident, IncidentFilters } from "./incidents";
+import { PeriodSummary } from "./periodReport";
+import {
+  getPlannedItemStatuses,
+  PLANNED_STATUSES,
+  PlannedItem,
+} from "./plannedTasks";
+import { Profile } from "./profile";
+import {
+  formatPerson,
+  getPersonKey,
+  Report,
+  ReportFinalization,
+  Task,
+} from "./report";
+import { durationMinutes, formatDuration } from "./time";
+
+// Table headers follow the language of the document
+const getPeriodTaskColumns = (t: Translate): TableColumn[] => [
+  { header: t("pdfColumn.start"), width: 0.1 },
+  { header: t("pdfColumn.end"), width: 0.1 },
+  { header: t("pdfColumn.duration"), width: 0.1 },
+  { header: t("pdfColumn.category"), width: 0.15 },
+  { header: t("pdf.column.task"), width: 0.55 },
+];
+
+const getCategoryColumns = (t: Translate): TableColumn[] => [
+  { header: t("pdfColumn.category"), width: 0.6 },
+  { header: t("pdf.column.time"), width: 0.2 },
+  { header: t("pdf.column.share"), width: 0.2 },
+];
+
+const getPeriodTotalColumns = (t: Translate): TableColumn[] => [
+  { header: t("pdf.column.day"), width: 0.24 },
+  { header: t("pdf.column.presence"), width: 0.19 },
+  { header: t("pdf.column.tasks"), width: 0.19 },
+  { header: t("pdf.column.gap"), width: 0.19 },
+  { header: t("pdf.column.overtime"), width: 0.19 },
+];
+
+const getIncidentColumns = (t: Translate): TableColumn[] => [
+  { header: t("pdf.column.date"), width: 0.09 },
+  { header: t("pdf.column.author"), width: 0.13 },
+  { header: t("pdf.column.task"), width: 0.2 },
+  { header: t("pdf.column.problem"), width: 0.28 },
+  { header: t("pdf.column.status"), width: 0.08 },
+  { header: t("pdf.column.resolution"), width: 0.22 },
+];
+
+export const getReportPdfFileName = (report: Report) =>
+  `report-${report.date.format("YYYY-MM-DD")}.pdf`;
+
+const getPlannedColumns = (t: Translate): TableColumn[] => [
+  { header: t("pdf.column.plannedItem"), width: 0.8 },
+  { header: t("pdf.column.status"), width: 0.2 },
+];
+
+const SIGNATURE_WIDTH = 50;
+const SIGNATURE_HEIGHT = 20;
+const LOGO_HEIGHT = 15;
+// Height of the signature block: label, name, date, then the box
+const SIGNATORY_TEXT_HEIGHT = 20;
+const SIGNATURE_BOX_HEIGHT = 25;
+const SIGNATORY_GAP = 6;
+
+// The profile only applies to the reports of the person it describes
+const profileFor = (report: Report, profile?: Profile | null) =>
+  profile && getPersonKey(profile) === getPersonKey(report) ? profile : null;
+
+const countPlannedItems = (items: PlannedItem[], t: Translate) =>
+  PLANNED_STATUSES.map((status) =>
+    t(`pdf.plannedCount.${status}`, {
+      count: items.filter((item) => item.status === status).length,
+    })
+  ).join(", ");
+
+// Outcome of the items planned the day before: done, carried over or dropped
+const drawPlannedItems = (
+  doc: jsPDF,
+  items: PlannedItem[],
+  y: number,
+  t: Translate
+) => {
+  let yPos = ensureSpace(doc, y, 20);
+  doc.setFontSize(12);
+  setFontStyle(doc, "bold");
+  yPos = drawParagraph(
+    doc,
+    t("pdf.plannedFollowUp", { counts: countPlannedItems(items, t) }),
+    yPos
+  );
+  setFontStyle(doc, "normal");
+  doc.setFontSize(10);
+  return drawTable(
+    doc,
+    getPlannedColumns(t),
+    items.map((item) => [item.text, t(`plannedStatus.${item.status}`)]),
+    yPos + 2
+  );
+};
+
+const drawSignature = (
+  doc: jsPDF,
+  signature: string,
+  y: number,
+  t: Translate
+) => {
+  let yPos = ensureSpace(doc, y, SIGNATURE_HEIGHT + 10);
+  doc.setFontSize(11);
+  doc.text(t("pdf.signature"), MARGIN, yPos + 5);
+  yPos += 7;
+  doc.addImage(
+    signature,
+    signature.startsWith("data:image/png") ? "PNG" : "JPEG",
+    MARGIN,
+    yPos,
+    SIGNATURE_WIDTH,
+    SIGNATURE_HEIGHT
+  );
+  return yPos + SIGNATURE_HEIGHT;
+};
+
+const getTaskCell = (task: Task, column: PdfColumnId, t: Translate) => {
+  switch (column) {
+    case "start":
+      return task.startTime?.format("HH:mm") || "";
+    case "end":
+      return task.endTime?.format("HH:mm") || "";
+    case "duration":
+      return task.startTime && task.endTime
+        ? formatDuration(durationMinutes(task.startTime, task.endTime))
+        : "";
+    case "category":
+      return task.category || "";
+    case "description":
+      return task.plannedItem
+        ? t("pdf.plannedTask", { description: task.description })
+        : task.description;
+    case "problems":
+      return task.problems || "";
+  }
+};
+
+// Columns shown in the template's order; the description is still shown if
+// every column was unchecked
+const getTaskColumns = (template: PdfTemplate, t: Translate) => {
+  const enabled = template.columns.filter(
+    (column) => column.enabled && column.width > 0
+  );
+  const columns = enabled.length
+    ? enabled
+    : [{ id: "description" as PdfColumnId, width: 1 }];
+  const total = columns.reduce((sum, column) => sum + column.width, 0);
+  return columns.map((column) => ({
+    id: column.id,
+    header: t(`pdfColumn.${column.id}`),
+    width: column.width / total,
+  }));
+};
+
+// Logo on the left, company name and address aligned right. Returns the
+// position of the first line of text below the header.
+const drawCompanyHeader = (doc: jsPDF, template: PdfTemplate) => {
+  const company = template.companyName.trim();
+  const address = template.companyAddress.trim();
+  if (!template.logo && !company && !address) return MARGIN;
+
+  const top = MARGIN / 2;
+  let bottom = top;
+  if (template.logo) {
+    const { data, width, height } = template.logo;
+    doc.addImage(
+      data,
+      data.startsWith("data:image/png") ? "PNG" : "JPEG",
+      MARGIN,
+      top,
+      (LOGO_HEIGHT * width) / height,
+      LOGO_HEIGHT
+    );
+    bottom = top + LOGO_HEIGHT;
+  }
+
+  const right = doc.internal.pageSize.getWidth() - MARGIN;
+  let yPos = top + 4;
+  if (company) {
+    doc.setFontSize(12);
+    setFontStyle(doc, "bold");
+    doc.text(company, right, yPos, { align: "right" });
+    setFontStyle(doc, "normal");
+    yPos += 5;
+  }
+  doc.setFontSize(9);
+  address.split("\n").forEach((line) => {
+    if (!line.trim()) return;
+    doc.text(line.trim(), right, yPos, { align: "right" });
+    yPos += 4;
+  });
+
+  return Math.max(bottom, yPos) + 10;
+};
+
+// One box per signatory, side by side; the profile's signature goes in the
+// author's box
+const drawSignatureBlock = (
+  doc: jsPDF,
+  template: PdfTemplate,
+  report: Report,
+  signature: string | null,
+  y: number,
+  locale: Locale
+) => {
+  const t = createTranslator(locale);
+  const signatories = template.signatories;
+  if (!signatories.length) return y;
+
+  const yPos = ensureSpace(
+    doc,
+    y,
+    SIGNATORY_TEXT_HEIGHT + SIGNATURE_BOX_HEIGHT
+  );
+  const width =
+    (getUsableWidth(doc) - SIGNATORY_GAP * (signatories.length - 1)) /
+    signatories.length;
+  const date =
+    template.signatureDate === "report" ? formatDate(report.date, locale) : "";
+
+  doc.setFontSize(template.fontSize);
+  signatories.forEach((signatory, i) => {
+    const x = MARGIN + i * (width + SIGNATORY_GAP);
+    const name = signatory.name || (i === 0 ? formatPerson(report) : "");
+    const label =
+      signatory.label ||
+      t(i === 0 ? "pdf.signatory.employee" : "pdf.signatory.manager");
+    setFontStyle(doc, "bold");
+    doc.text(wrapText(doc, label, width)[0] || "", x, yPos + 5);
+    setFontStyle(doc, "normal");
+    doc.text(wrapText(doc, t("pdf.name", { name }), width)[0], x, yPos + 11);
+    doc.text(t("pdf.date", { date }), x, yPos + 17);
+    doc.rect(x, yPos + SIGNATORY_TEXT_HEIGHT, width, SIGNATURE_BOX_HEIGHT);
+
+    if (i === 0 && signature) {
+      const imageWidth = Math.min(SIGNATURE_WIDTH, width - 4);
+      doc.addImage(
+        signature,
+        signature.startsWith("data:image/png") ? "PNG" : "JPEG",
+        x + 2,
+        yPos + SIGNATORY_TEXT_HEIGHT + 2.5,
+        imageWidth,
+        (imageWidth * SIGNATURE_HEIGHT) / SIGNATURE_WIDTH
+      );
+    }
+  });
+  return yPos + SIGNATORY_TEXT_HEIGHT + SIGNATURE_BOX_HEIGHT;
+};
+
+// Finalization date and hash, to check that the printed report matches the
+// stored one
+const drawFinalization = (
+  doc: jsPDF,
+  finalization: ReportFinalization,
+  y: number,
+  fontSize: number,
+  locale: Locale
+) => {
+  const t = createTranslator(locale);
+  doc.setFontSize(fontSize - 2);
+  const yPos = drawParagraph(
+    doc,
+    t("pdf.finalized", {
+      date: formatDateTime(dayjs(finalization.finalizedAt), locale),
+    }),
+    ensureSpace(doc, y, 2 * getLineHeight(doc))
+  );
+  return drawParagraph(doc, t("pdf.hash", { hash: finalization.hash }), yPos);
+};
+
+// Maximum height of an annex image, to fit two photos on a portrait page
+const ANNEX_IMAGE_MAX_HEIGHT = 100;
+
+// Annex on a new page: each attachment is captioned with its task and time;
+// images are reproduced and other files only listed
+const drawAnnex = (
+  doc: jsPDF,
+  annex: AnnexItem[],
+  fontSize: number,
+  locale: Locale
+) => {
+  const t = createTranslator(locale);
+  doc.addPage();
+  doc.setFontSize(fontSize + 3);
+  setFontStyle(doc, "bold");
+  let yPos = drawParagraph(doc, t("pdf.annex.title"), MARGIN) + 4;
+
+  annex.forEach(({ taskIndex, task, attachment, image }) => {
+    const width = image
+      ? Math.min(
+          getUsableWidth(doc),
+          (image.width * ANNEX_IMAGE_MAX_HEIGHT) / image.height
+        )
+      : 0;
+    const height = image ? (width * image.height) / image.width : 0;
+    // The caption stays on the same page as its image
+    yPos = ensureSpace(doc, yPos, 3 * getLineHeight(doc) + height);
+
+    doc.setFontSize(fontSize);
+    setFontStyle(doc, "bold");
+    yPos = drawParagraph(
+      doc,
+      t("pdf.annex.task", {
+        index: taskIndex + 1,
+        start: task.startTime?.format("HH:mm") || "-",
+        end: task.endTime?.format("HH:mm") || "-",
+        description: task.description,
+      }),
+      yPos
+    );
+    setFontStyle(doc, "normal");
+    doc.setFontSize(fontSize - 1);
+    yPos = drawParagraph(
+      doc,
+      t(image ? "pdf.annex.image" : "pdf.annex.file", {
+        name: attachment.name,
+        date: formatDateTime(dayjs(attachment.createdAt), locale),
+      }),
+      yPos
+    );
+
+    if (image) {
+      doc.addImage(image.data, "JPEG", MARGIN, yPos + 2, width, height);
+      yPos += height + 2;
+    }
+    yPos += 8;
+  });
+};
+
+// Builds the PDF without saving or downloading anything, so it can be used
+// for the report being edited as well as for stored ones, and for the live
+// preview of the template.
+export const renderReportPdf = (
+  report: Report,
+  userProfile?: Profile | null,
+  template: PdfTemplate = createDefaultPdfTemplate(),
+  locale: Locale = DEFAULT_LOCALE,
+  annex: AnnexItem[] = []
+): jsPDF => {
+  const t = createTranslator(locale);
+  const profile = profileFor(report, userProfile);
+  const fontSize = template.fontSize;
+
+  const doc = new jsPDF({
+    orientation: template.orientation,
+    unit: "mm",
+    format: "a4",
+  });
+  doc.setFont(template.font, "normal");
+
+  // Company header, then the document title
+  let yPos = drawCompanyHeader(doc, template);
+
+  doc.setFontSize(fontSize + 5);
+  doc.text(template.title || t("pdf.reportTitle"), MARGIN, yPos);
+  yPos += 10;
+
+  if (template.headerText.trim()) {
+    doc.setFontSize(fontSize - 1);
+    yPos = drawParagraph(doc, template.headerText.trim(), yPos - 4) + 6;
+  }
+
+  doc.setFontSize(fontSize + 1);
+  doc.text(
+    t("pdf.name", { name: `${report.lastName} ${report.firstName}` }),
+    MARGIN,
+    yPos
+  );
+  yPos += 7;
+  if (profile?.jobTitle || profile?.department) {
+    doc.text(
+      [
+        profile.jobTitle && t("pdf.jobTitle", { value: profile.jobTitle }),
+        profile.department &&
+          t("pdf.department", { value: profile.department }),
+      ]
+        .filter(Boolean)
+        .join("    "),
+      MARGIN,
+      yPos
+    );
+    yPos += 7;
+  }
+  doc.text(
+    t("pdf.date", { date: formatDate(report.date, locale) }),
+    MARGIN,
+    yPos
+  );
+  yPos += 7;
+  doc.text(
+    t("pdf.times", {
+      arrival: report.arrivalTime?.format("HH:mm") || "-",
+      departure: report.departureTime?.format("HH:mm") || "-",
+    }),
+    MARGIN,
+    yPos
+  );
+  yPos += 8;
+
+  // One table row per task
+  doc.setFontSize(fontSize);
+  const columns = getTaskColumns(template, t);
+  yPos = drawTable(
+    doc,
+    columns,
+    report.tasks.map((task) =>
+      columns.map((column) => getTaskCell(task, column.id, t))
+    ),
+    yPos,
+    hexToRgb(template.headerFill)
+  );
+
+  const plannedItems = getPlannedItemStatuses(report);
+  if (plannedItems.length) {
+    yPos = drawPlannedItems(doc, plannedItems, yPos + 8, t);
+  }
+
+  // Work planned for the next day, after the table
+  if (report.plannedTasks) {
+    yPos += 8;
+    doc.setFontSize(fontSize + 1);
+    setFontStyle(doc, "bold");
+    yPos = drawParagraph(doc, t("pdf.plannedTasks"), yPos);
+    setFontStyle(doc, "normal");
+    doc.setFontSize(fontSize);
+    yPos = drawParagraph(doc, report.plannedTasks, yPos + 2);
+  }
+
+  // The signature drawn when finalizing replaces the profile's
+  const signature =
+    report.finalization?.signature || profile?.signature || null;
+  if (template.signatureBlock) {
+    yPos = drawSignatureBlock(
+      doc,
+      template,
+      report,
+      signature,
+      yPos + 8,
+      locale
+    );
+  } else if (signature) {
+    yPos = drawSignature(doc, signature, yPos + 8, t);
+  }
+
+  if (report.finalization) {
+    drawFinalization(doc, report.finalization, yPos + 6, fontSize, locale);
+  }
+
+  if (annex.length) {
+    drawAnnex(doc, annex, fontSize, locale);
+  }
+
+  drawPageNumbers(doc, template.footerText.trim());
+
+  return doc;
+};
+
+export const getPeriodPdfFileName = (summary: PeriodSummary) =>
+  `releve-${formatPerson(summary.person).replace(/\s+/g, "-")}-${summary.start.format(
+    "YYYY-MM-DD"
+  )}-${summary.end.format("YYYY-MM-DD")}.pdf`;
+
+// Consolidated timesheet for a period: one section per day, then a summary
+export const renderPeriodPdf = (
+  summary: PeriodSummary,
+  locale: Locale = DEFAULT_LOCALE
+): jsPDF => {
+  const t = createTranslator(locale);
+  const doc = new jsPDF({
+    orientation: "landscape",
+    unit: "mm",
+    format: "a4",
+  });
+
+  let yPos = MARGIN;
+
+  doc.setFontSize(16);
+  doc.text(
+    t("pdf.period.title", { person: formatPerson(summary.person) }),
+    MARGIN,
+    yPos
+  );
+  yPos += 10;
+
+  doc.setFontSize(12);
+  doc.text(
+    t("pdf.period.range", {
+      start: formatDate(summary.start, locale),
+      end: formatDate(summary.end, locale),
+    }),
+    MARGIN,
+    yPos
+  );
+  yPos += 7;
+  doc.text(
+    t("pdf.period.dailyTarget", {
+      duration: formatDuration(summary.dailyTargetMinutes),
+    }),
+    MARGIN,
+    yPos
+  );
+  yPos += 10;
+
+  if (!summary.days.length) {
+    doc.text(t("pdf.period.empty"), MARGIN, yPos);
+  }
+
+  for (const day of summary.days) {
+    yPos = ensureSpace(doc, yPos, 30);
+    doc.setFontSize(13);
+    setFontStyle(doc, "bold");
+    doc.text(
+      `${formatWeekday(day.date, locale)} ${formatDate(day.date, locale)}`,
+      MARGIN,
+      yPos
+    );
+    setFontStyle(doc, "normal");
+    yPos += 6;
+
+    doc.setFontSize(11);
+    const presence = day.reports
+      .map(
+        (report) =>
+          `${report.arrivalTime?.format("HH:mm") || "-"} - ${
+            report.departureTime?.format("HH:mm") || "-"
+          }`
+      )
+      .join(", ");
+    yPos = drawParagraph(
+      doc,
+      t("pdf.period.dayTotals", {
+        worked: formatDuration(day.workedMinutes),
+        presence,
+        tasks: formatDuration(day.taskMinutes),
+        gap: formatDuration(day.gapMinutes),
+        overtime: formatDuration(day.overtimeMinutes),
+      }),
+      yPos
+    );
+    yPos += 2;
+
+    doc.setFontSize(10);
+    yPos = drawTable(
+      doc,
+      getPeriodTaskColumns(t),
+      day.reports.flatMap((report) =>
+        report.tasks.map((task) => [
+          task.startTime?.format("HH:mm") || "",
+          task.endTime?.format("HH:mm") || "",
+          formatDuration(durationMinutes(task.startTime, task.endTime)),
+          task.category || "",
+          task.plannedItem
+            ? t("pdf.plannedTask", { description: task.description })
+            : task.description,
+        ])
+      ),
+      yPos
+    );
+    if (day.plannedItems.length) {
+      yPos = drawPlannedItems(doc, day.plannedItems, yPos + 4, t);
+    }
+    yPos += 10;
+  }
+
+  // Summary and totals of the period
+  if (summary.days.length) {
+    yPos = ensureSpace(doc, yPos, 30);
+    doc.setFontSize(13);
+    setFontStyle(doc, "bold");
+    doc.text(t("pdf.period.summary"), MARGIN, yPos);
+    setFontStyle(doc, "normal");
+    yPos += 4;
+
+    doc.setFontSize(10);
+    const row = (label: string, values: PeriodSummary["totals"]) => [
+      label,
+      formatDuration(values.workedMinutes),
+      formatDuration(values.taskMinutes),
+      formatDuration(values.gapMinutes),
+      formatDuration(values.overtimeMinutes),
+    ];
+    yPos = drawTable(
+      doc,
+      getPeriodTotalColumns(t),
+      [
+        ...summary.days.map((day) =>
+          row(
+            `${formatWeekday(day.date, locale)} ${formatShortDate(day.date, locale)}`,
+            day
+          )
+        ),
+        row(
+          t("pdf.period.total", { count: summary.days.length }),
+          summary.totals
+        ),
+      ],
+      yPos
+    );
+
+    if (summary.categories.length) {
+      yPos = ensureSpace(doc, yPos + 8, 30);
+      doc.setFontSize(13);
+      setFontStyle(doc, "bold");
+      doc.text(t("pdf.period.categories"), MARGIN, yPos);
+      setFontStyle(doc, "normal");
+      yPos += 4;
+      doc.setFontSize(10);
+      yPos = drawTable(
+        doc,
+        getCategoryColumns(t),
+        summary.categories.map(({ name, minutes }) => [
+          name || t("category.uncategorized"),
+          formatDuration(minutes),
+          summary.totals.taskMinutes
+            ? t("format.percent", {
+                value: Math.round((minutes / summary.totals.taskMinutes) * 100),
+              })
+            : "-",
+        ]),
+        yPos
+      );
+    }
+
+    const plannedItems = summary.days.flatMap((day) => day.plannedItems);
+    if (plannedItems.length) {
+      yPos = ensureSpace(doc, yPos + 6, 10);
+      doc.setFontSize(11);
+      drawParagraph(
+        doc,
+        t("pdf.period.plannedItems", {
+          counts: countPlannedItems(plannedItems, t),
+        }),
+        yPos
+      );
+    }
+  }
+
+  drawPageNumbers(doc);
+
+  return doc;
+};
+
+export const getIncidentPdfFileName = (date: Dayjs) =>
+  `incidents-${date.format("YYYY-MM-DD")}.pdf`;
+
+// Summary of the incidents matching the log's filters
+export const renderIncidentPdf = (
+  incidents: Incident[],
+  filters: IncidentFilters,
+  locale: Locale = DEFAULT_LOCALE
+): jsPDF => {
+  const t = createTranslator(locale);
+  const doc = new jsPDF({
+    orientation: "landscape",
+    unit: "mm",
+    format: "a4",
+  });
+
+  let yPos = MARGIN;
+
+  doc.setFontSize(16);
+  doc.text(t("pdf.incidents.title"), MARGIN, yPos);
+  yPos += 10;
+
+  doc.setFontSize(12);
+  const period =
+    filters.start || filters.end
+      ? t("pdf.incidents.range", {
+          start: filters.start
+            ? formatDate(filters.start, locale)
+            : t("pdf.incidents.fromStart"),
+          end: filters.end
+            ? formatDate(filters.end, locale)
+            : t("pdf.incidents.toToday"),
+        })
+      : t("pdf.incidents.allDates");
+  doc.text(t("pdf.incidents.period", { period }), MARGIN, yPos);
+  yPos += 7;
+  if (filters.status !== "all") {
+    doc.text(
+      t("pdf.incidents.status", {
+        status: t(`incidentStatus.${filters.status}`),
+      }),
+      MARGIN,
+      yPos
+    );
+    yPos += 7;
+  }
+  const counts = countIncidents(incidents);
+  doc.text(
+    t("pdf.incidents.count", {
+      count: incidents.length,
+      open: counts.open,
+      resolved: counts.resolved,
+    }),
+    MARGIN,
+    yPos
+  );
+  yPos += 10;
+
+  if (!incidents.length) {
+    doc.text(t("pdf.incidents.empty"), MARGIN, yPos);
+  } else {
+    doc.setFontSize(10);
+    drawTable(
+      doc,
+      getIncidentColumns(t),
+      incidents.map((incident) => [
+        formatDate(incident.date, locale),
+        formatPerson(incident.author),
+        incident.startTime
+          ? `${incident.startTime.format("HH:mm")} ${incident.taskDescription}`
+          : incident.taskDescription,
+        incident.problem,
+        t(`incidentStatus.${incident.status}`),
+        incident.resolution,
+      ]),
+      yPos
+    );
+  }
+
+  drawPageNumbers(doc);
+
+  return doc;
+};
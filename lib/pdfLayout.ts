@@ -0,0 +1,211 @@
+import jsPDF from "jspdf";
+
+// Layout shared by every generated document (margins in mm)
+export const MARGIN = 20;
+const FOOTER_HEIGHT = 15;
+const CELL_PADDING = 2;
+const HEADER_FILL: [number, number, number] = [240, 240, 240];
+
+export interface TableColumn {
+  header: string;
+  // Fraction of the usable width
+  width: number;
+}
+
+export const setFontStyle = (doc: jsPDF, style: "normal" | "bold") => {
+  doc.setFont(undefined, style);
+};
+
+// internal.getLineHeight() is in points
+export const getLineHeight = (doc: jsPDF) =>
+  doc.internal.getLineHeight() / doc.internal.scaleFactor;
+
+export const getUsableWidth = (doc: jsPDF) =>
+  doc.internal.pageSize.getWidth() - 2 * MARGIN;
+
+export const getContentBottom = (doc: jsPDF) =>
+  doc.internal.pageSize.getHeight() - FOOTER_HEIGHT;
+
+// splitTextToSize breaks overlong words (URLs, references...) in the middle
+// of the current line, so they are first cut into pieces that each fit on a
+// whole line.
+const breakLongWords = (doc: jsPDF, text: string, width: number) =>
+  text
+    .split("\n")
+    .map((line) =>
+      line
+        .split(" ")
+        .map((word) => {
+          if (doc.getTextWidth(word) <= width) return word;
+
+          const chunks: string[] = [];
+          let chunk = "";
+          for (const char of word) {
+            if (chunk && doc.getTextWidth(chunk + char) > width) {
+              chunks.push(chunk);
+              chunk = "";
+            }
+            chunk += char;
+          }
+          chunks.push(chunk);
+          return chunks.join("\n");
+        })
+        .join(" ")
+    )
+    .join("\n");
+
+export const wrapText = (doc: jsPDF, text: string, width: number): string[] =>
+  text ? doc.splitTextToSize(breakLongWords(doc, text, width), width) : [];
+
+// Moves to the next page if the requested height no longer fits on this one.
+// Returns the vertical position to use.
+export const ensureSpace = (doc: jsPDF, y: number, height: number) => {
+  if (y + height <= getContentBottom(doc)) return y;
+  doc.addPage();
+  return MARGIN;
+};
+
+// Writes a paragraph line by line, starting new pages as needed
+export const drawParagraph = (doc: jsPDF, text: string, y: number) => {
+  const lineHeight = getLineHeight(doc);
+  let yPos = y;
+  for (const line of wrapText(doc, text, getUsableWidth(doc))) {
+    yPos = ensureSpace(doc, yPos, lineHeight);
+    doc.text(line, MARGIN, yPos + lineHeight * 0.8);
+    yPos += lineHeight;
+  }
+  return yPos;
+};
+
+// Draws a table with one row per entry of `rows`. The header is repeated on
+// each new page and a row too tall for a page continues on the next one.
+// Returns the position below the table.
+export const drawTable = (
+  doc: jsPDF,
+  columns: TableColumn[],
+  rows: string[][],
+  startY: number,
+  headerFill = HEADER_FILL
+) => {
+  const usableWidth = getUsableWidth(doc);
+  const widths = columns.map((column) => column.width * usableWidth);
+  const offsets = widths.map((_, i) =>
+    widths.slice(0, i).reduce((sum, width) => sum + width, MARGIN)
+  );
+  const lineHeight = getLineHeight(doc);
+  let y = startY;
+
+  const drawRow = (cells: string[][], height: number, fill = false) => {
+    if (fill) {
+      doc.setFillColor(...headerFill);
+      doc.rect(MARGIN, y, usableWidth, height, "F");
+    }
+    cells.forEach((lines, i) => {
+      doc.rect(offsets[i], y, widths[i], height);
+      lines.forEach((line, lineIndex) => {
+        doc.text(
+          line,
+          offsets[i] + CELL_PADDING,
+          y + CELL_PADDING + lineHeight * (lineIndex + 0.8)
+        );
+      });
+    });
+    y += height;
+  };
+
+  const wrapCells = (values: string[]) =>
+    values.map((value, i) =>
+      wrapText(doc, value, widths[i] - 2 * CELL_PADDING)
+    );
+
+  const headerCells = () => {
+    setFontStyle(doc, "bold");
+    const cells = wrapCells(columns.map((column) => column.header));
+    setFontStyle(doc, "normal");
+    return cells;
+  };
+  const rowHeight = (cells: string[][]) =>
+    Math.max(1, ...cells.map((lines) => lines.length)) * lineHeight +
+    2 * CELL_PADDING;
+
+  const drawHeader = () => {
+    const cells = headerCells();
+    setFontStyle(doc, "bold");
+    drawRow(cells, rowHeight(cells), true);
+    setFontStyle(doc, "normal");
+  };
+
+  const header = headerCells();
+  // The header is never left alone at the bottom of a page
+  y = ensureSpace(doc, y, rowHeight(header) + lineHeight + 2 * CELL_PADDING);
+  drawHeader();
+
+  const newPage = () => {
+    doc.addPage();
+    y = MARGIN;
+    drawHeader();
+  };
+
+  // Height available to a row on a page holding only the header
+  const fullPageHeight =
+    getContentBottom(doc) - MARGIN - rowHeight(header) - 2 * CELL_PADDING;
+  let freshPage = false;
+
+  for (const values of rows) {
+    let cells = wrapCells(values);
+    let done = false;
+
+    while (!done) {
+      const available = getContentBottom(doc) - y - 2 * CELL_PADDING;
+      const fitting = Math.floor(available / lineHeight);
+      const needed = Math.max(1, ...cells.map((lines) => lines.length));
+
+      if (needed <= fitting) {
+        drawRow(cells, rowHeight(cells));
+        freshPage = false;
+        done = true;
+        continue;
+      }
+
+      // The row would fit on a blank page: move it there whole
+      if (
+        !freshPage &&
+        (fitting < 1 || needed * lineHeight <= fullPageHeight)
+      ) {
+        newPage();
+        freshPage = true;
+        continue;
+      }
+
+      // Otherwise fill this page and continue on the next one
+      const count = Math.max(1, fitting);
+      drawRow(
+        cells.map((lines) => lines.slice(0, count)),
+        count * lineHeight + 2 * CELL_PADDING
+      );
+      cells = cells.map((lines) => lines.slice(count));
+      newPage();
+      freshPage = true;
+    }
+  }
+
+  return y;
+};
+
+// Numbers the pages, with an optional footer text on the left cut down to
+// one line
+export const drawPageNumbers = (doc: jsPDF, footer = "") => {
+  const pageCount = doc.internal.getNumberOfPages();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+
+  doc.setFontSize(9);
+  const [footerLine = ""] = wrapText(doc, footer, getUsableWidth(doc) - 30);
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    if (footerLine) doc.text(footerLine, MARGIN, pageHeight - 8);
+    doc.text(`Page ${page}/${pageCount}`, pageWidth - MARGIN, pageHeight - 8, {
+      align: "right",
+    });
+  }
+};
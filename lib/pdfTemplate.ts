@@ -0,0 +1,138 @@
+import { getSetting, saveSetting } from "./settingsRepository";
+
+const PDF_TEMPLATE_SETTING = "pdfTemplate";
+
+export type PdfColumnId =
+  "start" | "end" | "duration" | "category" | "description" | "problems";
+
+export interface PdfColumnSetting {
+  id: PdfColumnId;
+  enabled: boolean;
+  // Relative width, scaled to the page width among the shown columns
+  width: number;
+}
+
+// Fonts built into jsPDF, usable without embedding a file
+export type PdfFont = "helvetica" | "times" | "courier";
+
+export const PDF_FONTS: PdfFont[] = ["helvetica", "times", "courier"];
+
+export type PdfOrientation = "portrait" | "landscape";
+
+export interface PdfLogo {
+  // PNG or JPEG image as a data URL
+  data: string;
+  // Size in pixels, to keep the proportions
+  width: number;
+  height: number;
+}
+
+// Empty title and labels: those of the report language are used
+export interface PdfSignatory {
+  label: string;
+  // Empty for the first signatory: the name of the report's author is used
+  name: string;
+}
+
+export type SignatureDate = "report" | "blank";
+
+export interface PdfTemplate {
+  title: string;
+  logo: PdfLogo | null;
+  companyName: string;
+  companyAddress: string;
+  headerText: string;
+  footerText: string;
+  orientation: PdfOrientation;
+  font: PdfFont;
+  fontSize: number;
+  // Background of the table headers, as #rrggbb
+  headerFill: string;
+  columns: PdfColumnSetting[];
+  signatureBlock: boolean;
+  signatories: PdfSignatory[];
+  signatureDate: SignatureDate;
+}
+
+// Matches the original layout of the daily report
+export const createDefaultPdfTemplate = (): PdfTemplate => ({
+  title: "",
+  logo: null,
+  companyName: "",
+  companyAddress: "",
+  headerText: "",
+  footerText: "",
+  orientation: "landscape",
+  font: "helvetica",
+  fontSize: 11,
+  headerFill: "#f0f0f0",
+  columns: [
+    { id: "start", enabled: true, width: 9 },
+    { id: "end", enabled: true, width: 9 },
+    { id: "duration", enabled: false, width: 9 },
+    { id: "category", enabled: true, width: 14 },
+    { id: "description", enabled: true, width: 38 },
+    { id: "problems", enabled: true, width: 30 },
+  ],
+  signatureBlock: false,
+  signatories: [
+    { label: "", name: "" },
+    { label: "", name: "" },
+  ],
+  signatureDate: "report",
+});
+
+// Completes a template stored by an earlier version: new settings take their
+// default value and missing columns are added, hidden, at the end.
+export const getPdfTemplate = async (): Promise<PdfTemplate> => {
+  const defaults = createDefaultPdfTemplate();
+  const stored = await getSetting<Partial<PdfTemplate>>(PDF_TEMPLATE_SETTING);
+  if (!stored) return defaults;
+  const columns = stored.columns || defaults.columns;
+  return {
+    ...defaults,
+    ...stored,
+    columns: [
+      ...columns,
+      ...defaults.columns
+        .filter((column) => !columns.some((c) => c.id === column.id))
+        .map((column) => ({ ...column, enabled: false })),
+    ],
+  };
+};
+
+export const savePdfTemplate = (template: PdfTemplate) =>
+  saveSetting(PDF_TEMPLATE_SETTING, template);
+
+export const hexToRgb = (hex: string): [number, number, number] => {
+  const value = parseInt(hex.replace("#", ""), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+// Converts an image (SVG included, which jsPDF can't read) to PNG, at a size
+// suited to the header.
+export const loadLogo = (url: string, maxSize = 400): Promise<PdfLogo> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const width = image.naturalWidth || maxSize;
+      const height = image.naturalHeight || maxSize;
+      const scale = Math.min(1, maxSize / Math.max(width, height));
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.round(width * scale);
+      canvas.height = Math.round(height * scale);
+      const context = canvas.getContext("2d");
+      if (!context) {
+        reject(new Error("Canvas is not available"));
+        return;
+      }
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      resolve({
+        data: canvas.toDataURL("image/png"),
+        width: canvas.width,
+        height: canvas.height,
+      });
+    };
+    image.onerror = () => reject(new Error(`Could not load image ${url}`));
+    image.src = url;
+  });
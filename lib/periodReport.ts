@@ -0,0 +1,146 @@
+import { Dayjs } from "dayjs";
+import { formatPerson, getPersonKey, Person, Report } from "./report";
+import { UNCATEGORIZED } from "./catalogue";
+import { getPlannedItemStatuses, PlannedItem } from "./plannedTasks";
+import { durationMinutes } from "./time";
+
+export interface DaySummary {
+  date: Dayjs;
+  reports: Report[];
+  // Time present between arrival and departure
+  workedMinutes: number;
+  // Sum of the task durations
+  taskMinutes: number;
+  // Time present but not covered by a task
+  gapMinutes: number;
+  overtimeMinutes: number;
+  // Outcome of the work planned the day before
+  plannedItems: PlannedItem[];
+}
+
+export interface PeriodSummary {
+  person: Person;
+  start: Dayjs;
+  end: Dayjs;
+  dailyTargetMinutes: number;
+  days: DaySummary[];
+  // Time spent per task category, longest first
+  categories: { name: string; minutes: number }[];
+  totals: Omit<DaySummary, "date" | "reports" | "plannedItems">;
+}
+
+export const DEFAULT_DAILY_TARGET_MINUTES = 8 * 60;
+
+// People with at least one report, sorted by name
+export const listPeople = (reports: Person[]): Person[] => {
+  const people = new Map<string, Person>();
+  for (const report of reports) {
+    const key = getPersonKey(report);
+    if (key.trim() && !people.has(key)) {
+      people.set(key, {
+        firstName: report.firstName.trim(),
+        lastName: report.lastName.trim(),
+      });
+    }
+  }
+  return Array.from(people.values()).sort((a, b) =>
+    formatPerson(a).localeCompare(formatPerson(b))
+  );
+};
+
+const summarizeDay = (
+  date: Dayjs,
+  reports: Report[],
+  dailyTargetMinutes: number
+): DaySummary => {
+  const workedMinutes = reports.reduce(
+    (sum, report) =>
+      sum + durationMinutes(report.arrivalTime, report.departureTime),
+    0
+  );
+  const taskMinutes = reports.reduce(
+    (sum, report) =>
+      sum +
+      report.tasks.reduce(
+        (taskSum, task) =>
+          taskSum + durationMinutes(task.startTime, task.endTime),
+        0
+      ),
+    0
+  );
+
+  return {
+    date,
+    reports,
+    workedMinutes,
+    taskMinutes,
+    gapMinutes: workedMinutes - taskMinutes,
+    overtimeMinutes: workedMinutes - dailyTargetMinutes,
+    plannedItems: reports.flatMap(getPlannedItemStatuses),
+  };
+};
+
+export const buildPeriodSummary = (
+  reports: Report[],
+  person: Person,
+  start: Dayjs,
+  end: Dayjs,
+  dailyTargetMinutes = DEFAULT_DAILY_TARGET_MINUTES
+): PeriodSummary => {
+  const personKey = getPersonKey(person);
+  const byDay = new Map<string, Report[]>();
+
+  for (const report of reports) {
+    if (getPersonKey(report) !== personKey) continue;
+    if (report.date.isBefore(start, "day") || report.date.isAfter(end, "day")) {
+      continue;
+    }
+    const key = report.date.format("YYYY-MM-DD");
+    byDay.set(key, [...(byDay.get(key) || []), report]);
+  }
+
+  const days = Array.from(byDay.values())
+    .map((dayReports) =>
+      summarizeDay(
+        dayReports[0].date.startOf("day"),
+        dayReports,
+        dailyTargetMinutes
+      )
+    )
+    .sort((a, b) => a.date.valueOf() - b.date.valueOf());
+
+  const categories = new Map<string, number>();
+  for (const day of days) {
+    for (const report of day.reports) {
+      for (const task of report.tasks) {
+        const name = task.category || UNCATEGORIZED;
+        categories.set(
+          name,
+          (categories.get(name) || 0) +
+            durationMinutes(task.startTime, task.endTime)
+        );
+      }
+    }
+  }
+
+  const sum = (field: keyof PeriodSummary["totals"]) =>
+    days.reduce((total, day) => total + day[field], 0);
+
+  return {
+    person,
+    start,
+    end,
+    dailyTargetMinutes,
+    days,
+    categories: Array.from(categories, ([name, minutes]) => ({
+      name,
+      minutes,
+    })).sort((a, b) => b.minutes - a.minutes),
+    totals: {
+      workedMinutes: sum("workedMinutes"),
+      taskMinutes: sum("taskMinutes"),
+      gapMinutes: sum("gapMinutes"),
+      overtimeMinutes: sum("overtimeMinutes"),
+    },
+  };
+};
@@ -0,0 +1,113 @@
+import { Dayjs } from "dayjs";
+import {
+  createEmptyTask,
+  deserializeReport,
+  getPersonKey,
+  isTaskBlank,
+  Person,
+  Report,
+} from "./report";
+import { getReportsByAuthor } from "./reportRepository";
+
+export type PlannedItemStatus = "done" | "carriedOver" | "dropped";
+
+export interface PlannedItem {
+  text: string;
+  status: PlannedItemStatus;
+}
+
+export const PLANNED_STATUSES: PlannedItemStatus[] = [
+  "done",
+  "carriedOver",
+  "dropped",
+];
+
+// Days looked back through to find the previous working day
+const LOOKBACK_DAYS = 14;
+
+const BULLET = /^\s*(?:[-*•·]|\d+[.)])\s*/;
+
+// One item per non-empty line, without bullet or numbering
+export const parsePlannedItems = (plannedTasks: string): string[] =>
+  plannedTasks
+    .split(/\r?\n/)
+    .map((line) => line.replace(BULLET, "").trim())
+    .filter(Boolean);
+
+const normalize = (text: string) => text.trim().toLowerCase();
+
+// Outcome of each item planned the day before and carried over into this
+// report: a finished task completes it, otherwise it is carried over if it
+// is planned again, or dropped.
+export const getPlannedItemStatuses = (report: Report): PlannedItem[] => {
+  const nextPlan = parsePlannedItems(report.plannedTasks).map(normalize);
+
+  return (report.carriedOverItems || []).map((text) => {
+    const done = report.tasks.some(
+      (task) =>
+        task.plannedItem !== undefined &&
+        normalize(task.plannedItem) === normalize(text) &&
+        task.startTime &&
+        task.endTime
+    );
+    if (done) return { text, status: "done" };
+    if (nextPlan.includes(normalize(text))) {
+      return { text, status: "carriedOver" };
+    }
+    return { text, status: "dropped" };
+  });
+};
+
+// The person's last report before the given date, i.e. that of the previous
+// working day (weekends and days off have no report).
+export const findPreviousReport = async (
+  person: Person,
+  date: Dayjs
+): Promise<Report | null> => {
+  const reports = await getReportsByAuthor(
+    person,
+    date.subtract(LOOKBACK_DAYS, "day"),
+    date.subtract(1, "day")
+  );
+  const latest = reports
+    .map(deserializeReport)
+    .filter((report) => getPersonKey(report) === getPersonKey(person))
+    .sort((a, b) => b.date.valueOf() - a.date.valueOf())[0];
+  return latest || null;
+};
+
+// Adds the planned items as "planned" tasks, in place of the form's tasks
+// that are still blank.
+export const applyPlannedItems = (report: Report, items: string[]): Report => {
+  const filledTasks = report.tasks.filter((task) => !isTaskBlank(task));
+  return {
+    ...report,
+    carriedOverItems: items,
+    tasks: [
+      ...filledTasks,
+      ...items.map((text) => ({
+        ...createEmptyTask(),
+        description: text,
+        plannedItem: text,
+      })),
+    ],
+  };
+};
+
+// Removes a planned task that wasn't done and puts it back in the planned
+// work
+export const postponeTask = (report: Report, index: number): Report => {
+  const task = report.tasks[index];
+  const item = task.plannedItem || task.description;
+  const alreadyPlanned = parsePlannedItems(report.plannedTasks)
+    .map(normalize)
+    .includes(normalize(item));
+
+  return {
+    ...report,
+    tasks: report.tasks.filter((_, i) => i !== index),
+    plannedTasks: alreadyPlanned
+      ? report.plannedTasks
+      : [report.plannedTasks.trimEnd(), `- ${item}`].filter(Boolean).join("\n"),
+  };
+};
@@ -0,0 +1,87 @@
+import dayjs, { Dayjs } from "dayjs";
+import { createEmptyReport, Person, Report } from "./report";
+import {
+  getActiveMember,
+  getMembers,
+  saveMember,
+  setActiveMember,
+  TeamMember,
+} from "./team";
+
+export interface Profile extends Person {
+  jobTitle: string;
+  department: string;
+  // Usual times as "HH:mm"
+  usualArrival: string | null;
+  usualDeparture: string | null;
+  // PNG or JPEG image as a data URL
+  signature: string | null;
+}
+
+export const createEmptyProfile = (): Profile => ({
+  firstName: "",
+  lastName: "",
+  jobTitle: "",
+  department: "",
+  usualArrival: null,
+  usualDeparture: null,
+  signature: null,
+});
+
+// The profile is that of the active team member
+export const getProfile = (): Promise<TeamMember | undefined> =>
+  getActiveMember();
+
+// Without an active member, saving the profile creates one; the first member
+// of the team is its manager.
+export const saveProfile = async (profile: Profile): Promise<TeamMember> => {
+  const active = await getActiveMember();
+  // The profile may come from a backup made on another device
+  const member: TeamMember = { ...profile, manager: false };
+  delete member.id;
+  if (active) {
+    member.id = active.id;
+    member.manager = active.manager;
+  } else {
+    member.manager = !(await getMembers()).length;
+  }
+  const saved = await saveMember(member);
+  if (!active) await setActiveMember(saved.id);
+  return saved;
+};
+
+export const parseTimeOfDay = (value: string | null): Dayjs | null => {
+  if (!value) return null;
+  const [hour, minute] = value.split(":").map(Number);
+  return dayjs().hour(hour).minute(minute).second(0).millisecond(0);
+};
+
+// New report pre-filled with the name and usual times
+export const createReportFromProfile = (profile?: Profile | null): Report => {
+  const report = createEmptyReport();
+  if (!profile) return report;
+
+  return {
+    ...report,
+    firstName: profile.firstName,
+    lastName: profile.lastName,
+    arrivalTime: parseTimeOfDay(profile.usualArrival),
+    departureTime: parseTimeOfDay(profile.usualDeparture),
+  };
+};
+
+export const isProfile = (value: unknown): value is Profile => {
+  if (typeof value !== "object" || value === null) return false;
+  const profile = value as Record<string, unknown>;
+  const isOptionalString = (field: unknown) =>
+    field === null || typeof field === "string";
+  return (
+    typeof profile.firstName === "string" &&
+    typeof profile.lastName === "string" &&
+    typeof profile.jobTitle === "string" &&
+    typeof profile.department === "string" &&
+    isOptionalString(profile.usualArrival) &&
+    isOptionalString(profile.usualDeparture) &&
+    isOptionalString(profile.signature)
+  );
+};
@@ -0,0 +1,75 @@
+import dayjs, { Dayjs } from "dayjs";
+import { createEmptyTask, isTaskBlank, Report } from "./report";
+
+// Key of the setting telling that punch clock mode is on
+export const PUNCH_CLOCK_SETTING = "punchClock";
+
+const now = () => dayjs().second(0).millisecond(0);
+
+// Task started but not finished yet
+export const getRunningTaskIndex = (report: Report) =>
+  report.tasks.findIndex((task) => task.startTime && !task.endTime);
+
+export const isDayStarted = (report: Report) => !!report.arrivalTime;
+
+export const isDayClosed = (report: Report) => !!report.departureTime;
+
+// A report pre-filled with the usual times hasn't been punched yet
+export const clearClockTimes = (report: Report): Report => ({
+  ...report,
+  arrivalTime: null,
+  departureTime: null,
+});
+
+export const punchIn = (report: Report, time: Dayjs = now()): Report => ({
+  ...report,
+  arrivalTime: time,
+  departureTime: null,
+});
+
+export const stopRunningTask = (
+  report: Report,
+  time: Dayjs = now()
+): Report => {
+  const running = getRunningTaskIndex(report);
+  if (running === -1) return report;
+  return {
+    ...report,
+    tasks: report.tasks.map((task, i) =>
+      i === running ? { ...task, endTime: time } : task
+    ),
+  };
+};
+
+// Starts a task and ends the current one; the arrival is punched along the
+// way if it wasn't yet.
+export const startTask = (
+  report: Report,
+  description: string,
+  time: Dayjs = now()
+): Report => {
+  const stopped = stopRunningTask(
+    report.arrivalTime ? report : punchIn(report, time),
+    time
+  );
+  return {
+    ...stopped,
+    tasks: [
+      ...stopped.tasks.filter((task) => !isTaskBlank(task)),
+      { ...createEmptyTask(), description, startTime: time },
+    ],
+  };
+};
+
+export const punchOut = (report: Report, time: Dayjs = now()): Report => ({
+  ...stopRunningTask(report, time),
+  departureTime: time,
+});
+
+export const formatElapsed = (from: Dayjs, to: Dayjs) => {
+  const seconds = Math.max(0, to.diff(from, "second"));
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${pad(Math.floor(seconds / 3600))}:${pad(
+    Math.floor((seconds % 3600) / 60)
+  )}:${pad(seconds % 60)}`;
+};
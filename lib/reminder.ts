@@ -0,0 +1,129 @@
+import dayjs, { Dayjs } from "dayjs";
+import { getDayKey } from "./report";
+import { getSetting, saveSetting } from "./settingsRepository";
+import { isWorkingDay, WorkCalendar } from "./workCalendar";
+
+const REMINDER_SETTING = "reminder";
+
+// The service worker doesn't read IndexedDB: the page leaves it the reminder
+// time, its text and the days it doesn't apply to in the cache. These names
+// are repeated in worker/service-worker.js.
+const REMINDER_CACHE = "reminder";
+const REMINDER_STATE_URL = "/reminder-state";
+const REMINDER_SYNC_TAG = "report-reminder";
+const REMINDER_MESSAGE = "CHECK_REMINDER";
+
+// Days ahead covered by the state handed over, in case the app isn't opened
+// again meanwhile
+const REMINDER_HORIZON = 31;
+const REMINDER_SYNC_INTERVAL = 15 * 60 * 1000;
+
+// End-of-day reminder when today's report isn't saved
+export interface Reminder {
+  enabled: boolean;
+  // Time as HH:mm
+  time: string;
+}
+
+export interface ReminderState {
+  time: string;
+  title: string;
+  body: string;
+  // Days (YYYY-MM-DD) off or that already have a report
+  skipDays: string[];
+}
+
+// Periodic Background Sync, available in Chrome for an installed app; missing
+// from the DOM types
+interface PeriodicSyncRegistration extends ServiceWorkerRegistration {
+  periodicSync?: {
+    register: (tag: string, options: { minInterval: number }) => Promise<void>;
+    unregister: (tag: string) => Promise<void>;
+  };
+}
+
+export const createDefaultReminder = (): Reminder => ({
+  enabled: false,
+  time: "17:30",
+});
+
+export const getReminder = async (): Promise<Reminder> => ({
+  ...createDefaultReminder(),
+  ...(await getSetting<Partial<Reminder>>(REMINDER_SETTING)),
+});
+
+export const saveReminder = (reminder: Reminder) =>
+  saveSetting(REMINDER_SETTING, reminder);
+
+export const isReminderSupported = () =>
+  typeof window !== "undefined" &&
+  "Notification" in window &&
+  "serviceWorker" in navigator;
+
+export const requestReminderPermission = async () =>
+  isReminderSupported() &&
+  (await Notification.requestPermission()) === "granted";
+
+export const getSkipDays = (
+  calendar: WorkCalendar,
+  reportDays: Set<string>,
+  today: Dayjs = dayjs()
+) =>
+  Array.from({ length: REMINDER_HORIZON }, (_, i) => today.add(i, "day"))
+    .filter(
+      (day) => !isWorkingDay(calendar, day) || reportDays.has(getDayKey(day))
+    )
+    .map((day) => getDayKey(day));
+
+// Delay in milliseconds until today's reminder, null if it has passed
+export const getReminderDelay = (time: string, now: Dayjs = dayjs()) => {
+  const [hour, minute] = time.split(":").map(Number);
+  const at = now.hour(hour).minute(minute).second(0).millisecond(0);
+  return at.isAfter(now) ? at.diff(now) : null;
+};
+
+// Hands the state over to the service worker, or clears it when the reminder
+// is off
+export const publishReminder = async (state: ReminderState | null) => {
+  if (!("caches" in window)) return;
+  const cache = await caches.open(REMINDER_CACHE);
+  if (!state) {
+    await cache.delete(REMINDER_STATE_URL);
+    return;
+  }
+  await cache.put(
+    REMINDER_STATE_URL,
+    new Response(JSON.stringify(state), {
+      headers: { "Content-Type": "application/json" },
+    })
+  );
+};
+
+// The service worker regularly checks whether to show the reminder, even
+// with the app closed, where the browser allows it
+export const registerReminderSync = async (enabled: boolean) => {
+  if (!("serviceWorker" in navigator)) return;
+  const registration = (await navigator.serviceWorker.getRegistration()) as
+    PeriodicSyncRegistration | undefined;
+  if (!registration?.periodicSync) return;
+  if (!enabled) {
+    await registration.periodicSync.unregister(REMINDER_SYNC_TAG);
+    return;
+  }
+  try {
+    await registration.periodicSync.register(REMINDER_SYNC_TAG, {
+      minInterval: REMINDER_SYNC_INTERVAL,
+    });
+  } catch {
+    // Refused until the app is installed: the reminder then only shows while
+    // the page is open
+  }
+};
+
+// Asks the service worker to show the reminder if it is due; it only shows
+// it once a day
+export const checkReminder = async () => {
+  if (!("serviceWorker" in navigator)) return;
+  const registration = await navigator.serviceWorker.getRegistration();
+  registration?.active?.postMessage({ type: REMINDER_MESSAGE });
+};
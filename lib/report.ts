@@ -0,0 +1,210 @@
+import dayjs, { Dayjs } from "dayjs";
+
+export interface Task {
+  // Identity of the task in the form, e.g. to keep its inputs when tasks are
+  // reordered. It is assigned on load and never stored.
+  id: string;
+  startTime: Dayjs | null;
+  endTime: Dayjs | null;
+  description: string;
+  problems?: string;
+  // Set on tasks created from the previous day's planned work
+  plannedItem?: string;
+  category?: string;
+  // Ids of the files attached to the task, see lib/attachments
+  attachments?: string[];
+}
+
+export type ReviewStatus = "validated" | "returned";
+
+// A manager's decision on a submitted report
+export interface ReportReview {
+  status: ReviewStatus;
+  comment: string;
+  // Name of the reviewing manager
+  reviewer: string;
+  reviewedAt: string;
+}
+
+// Set when the author finalizes the report, which locks it against edits
+export interface ReportFinalization {
+  finalizedAt: string;
+  // Signature drawn when finalizing, as a PNG data URL
+  signature: string;
+  // SHA-256 of the content, date and signature, see lib/finalization
+  hash: string;
+}
+
+export interface Report {
+  id?: number;
+  date: Dayjs;
+  firstName: string;
+  lastName: string;
+  arrivalTime: Dayjs | null;
+  departureTime: Dayjs | null;
+  tasks: Task[];
+  plannedTasks: string;
+  // Items of the previous day's plan that were carried over into this report
+  carriedOverItems?: string[];
+  review?: ReportReview;
+  finalization?: ReportFinalization;
+  // Identity shared by every device syncing the report, and the server
+  // revision the local copy is based on
+  uid?: string;
+  revision?: number;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface Person {
+  firstName: string;
+  lastName: string;
+}
+
+// crypto.randomUUID only exists in secure contexts, which a self-hosted server
+// on the local network may not be
+export const createUid = () =>
+  typeof crypto !== "undefined" && crypto.randomUUID
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+
+// Add a new interface for serialized data
+export interface SerializedTask {
+  startTime: string | null;
+  endTime: string | null;
+  description: string;
+  problems?: string;
+  plannedItem?: string;
+  category?: string;
+  attachments?: string[];
+}
+
+export interface SerializedReport {
+  id?: number;
+  date: string;
+  firstName: string;
+  lastName: string;
+  arrivalTime: string | null;
+  departureTime: string | null;
+  tasks: SerializedTask[];
+  plannedTasks: string;
+  carriedOverItems?: string[];
+  review?: ReportReview;
+  finalization?: ReportFinalization;
+  uid?: string;
+  revision?: number;
+  createdAt?: string;
+  updatedAt?: string;
+  // Index keys maintained by the repository, see getIndexKeys
+  day?: string;
+  author?: string;
+}
+
+export const createEmptyTask = (): Task => ({
+  id: createUid(),
+  startTime: null,
+  endTime: null,
+  description: "",
+  problems: "",
+});
+
+export const createEmptyReport = (): Report => ({
+  date: dayjs(),
+  firstName: "",
+  lastName: "",
+  arrivalTime: null,
+  departureTime: null,
+  tasks: [createEmptyTask()],
+  plannedTasks: "",
+});
+
+export const getPersonKey = (person: Person) =>
+  `${person.lastName.trim()} ${person.firstName.trim()}`.toLowerCase();
+
+export const formatPerson = (person: Person) =>
+  `${person.lastName} ${person.firstName}`.trim();
+
+export const getDayKey = (date: string | Dayjs) =>
+  dayjs(date).format("YYYY-MM-DD");
+
+// Values of the "day" and "author" indexes of the reports store. The day is
+// taken in local time, as picked in the form, rather than from the UTC string.
+export const getIndexKeys = (report: SerializedReport) => ({
+  day: getDayKey(report.date),
+  author: getPersonKey(report),
+});
+
+export const serializeReport = (report: Report): SerializedReport => {
+  return {
+    ...report,
+    date: report.date.toISOString(),
+    arrivalTime: report.arrivalTime?.toISOString() || null,
+    departureTime: report.departureTime?.toISOString() || null,
+    tasks: report.tasks.map((task) => {
+      const serialized: SerializedTask & { id?: string } = {
+        ...task,
+        startTime: task.startTime?.toISOString() || null,
+        endTime: task.endTime?.toISOString() || null,
+      };
+      delete serialized.id;
+      return serialized;
+    }),
+  };
+};
+
+export const deserializeReport = (report: SerializedReport): Report => {
+  return {
+    ...report,
+    date: dayjs(report.date),
+    arrivalTime: report.arrivalTime ? dayjs(report.arrivalTime) : null,
+    departureTime: report.departureTime ? dayjs(report.departureTime) : null,
+    tasks: report.tasks.map((task: SerializedTask) => ({
+      ...task,
+      id: createUid(),
+      startTime: task.startTime ? dayjs(task.startTime) : null,
+      endTime: task.endTime ? dayjs(task.endTime) : null,
+    })),
+  };
+};
+
+// Moves a task to another position, the others keeping their order
+export const moveTask = (report: Report, from: number, to: number): Report => {
+  if (from === to || to < 0 || to >= report.tasks.length) return report;
+  const tasks = [...report.tasks];
+  const [moved] = tasks.splice(from, 1);
+  tasks.splice(to, 0, moved);
+  return { ...report, tasks };
+};
+
+// The copy is inserted right after the original and starts when it ends, as
+// repeated tasks usually follow each other. It isn't tied to a planned item.
+export const duplicateTask = (report: Report, index: number): Report => {
+  const original = report.tasks[index];
+  if (!original) return report;
+  const copy: Task = {
+    ...original,
+    id: createUid(),
+    startTime: original.endTime,
+    endTime: null,
+  };
+  delete copy.plannedItem;
+  const tasks = [...report.tasks];
+  tasks.splice(index + 1, 0, copy);
+  return { ...report, tasks };
+};
+
+export const isTaskBlank = (task: Task): boolean =>
+  !task.startTime &&
+  !task.endTime &&
+  !task.description &&
+  !task.problems &&
+  !task.attachments?.length;
+
+// A report with nothing typed in yet isn't worth keeping as a draft.
+export const isReportBlank = (report: Report): boolean =>
+  !report.firstName &&
+  !report.lastName &&
+  !report.arrivalTime &&
+  !report.departureTime &&
+  !report.plannedTasks &&
+  report.tasks.every(isTaskBlank);
@@ -0,0 +1,212 @@
+import { Dayjs } from "dayjs";
+import {
+  AUTHOR_DAY_INDEX,
+  DAY_INDEX,
+  initDB,
+  OUTBOX_STORE_NAME,
+  requestToPromise,
+  STORE_NAME,
+  transactionDone,
+  UID_INDEX,
+} from "./db";
+import { canReplaceReport, FinalizedReportError } from "./finalization";
+import {
+  createUid,
+  getDayKey,
+  getIndexKeys,
+  getPersonKey,
+  Person,
+  SerializedReport,
+} from "./report";
+import { queueChange } from "./syncRepository";
+
+export type ReportState = "saved" | "modified";
+
+export const getReportState = (
+  report: Pick<SerializedReport, "createdAt" | "updatedAt">
+): ReportState =>
+  report.updatedAt && report.updatedAt !== report.createdAt
+    ? "modified"
+    : "saved";
+
+export const getAllReports = async (): Promise<SerializedReport[]> => {
+  const db = await initDB();
+  const store = db.transaction(STORE_NAME, "readonly").objectStore(STORE_NAME);
+  return requestToPromise<SerializedReport[]>(store.getAll());
+};
+
+const getFromIndex = async (
+  indexName: string,
+  query: IDBKeyRange
+): Promise<SerializedReport[]> => {
+  const db = await initDB();
+  const index = db
+    .transaction(STORE_NAME, "readonly")
+    .objectStore(STORE_NAME)
+    .index(indexName);
+  return requestToPromise<SerializedReport[]>(index.getAll(query));
+};
+
+export const getReportsBetween = (start?: Dayjs | null, end?: Dayjs | null) =>
+  getFromIndex(
+    DAY_INDEX,
+    IDBKeyRange.bound(
+      start ? getDayKey(start) : "",
+      end ? getDayKey(end) : "\uffff"
+    )
+  );
+
+export const getReportsForDay = (day: Dayjs) =>
+  getFromIndex(DAY_INDEX, IDBKeyRange.only(getDayKey(day)));
+
+export const getReportsByAuthor = (
+  person: Person,
+  start?: Dayjs | null,
+  end?: Dayjs | null
+) => {
+  const author = getPersonKey(person);
+  // Array keys compare element-wise and "\uffff" sorts after any day key
+  return getFromIndex(
+    AUTHOR_DAY_INDEX,
+    IDBKeyRange.bound(
+      [author, start ? getDayKey(start) : ""],
+      [author, end ? getDayKey(end) : "\uffff"]
+    )
+  );
+};
+
+const withIndexKeys = (report: SerializedReport): SerializedReport => ({
+  ...report,
+  ...getIndexKeys(report),
+  uid: report.uid || createUid(),
+});
+
+// Every write also queues the change for server sync, in the same transaction.
+// A write that would change a finalized report aborts the whole transaction,
+// and done() then rejects with a FinalizedReportError.
+const openWrite = (db: IDBDatabase) => {
+  const transaction = db.transaction(
+    [STORE_NAME, OUTBOX_STORE_NAME],
+    "readwrite"
+  );
+  let refusal: FinalizedReportError | undefined;
+
+  const allows = (
+    stored: SerializedReport | undefined,
+    next: SerializedReport | null
+  ) => {
+    if (!stored || canReplaceReport(stored, next)) return true;
+    refusal = new FinalizedReportError(stored.uid);
+    transaction.abort();
+    return false;
+  };
+
+  const done = () =>
+    transactionDone(transaction).catch((error) => {
+      throw refusal ?? error;
+    });
+
+  return {
+    transaction,
+    store: transaction.objectStore(STORE_NAME),
+    allows,
+    done,
+  };
+};
+
+export const getReport = async (
+  id: number
+): Promise<SerializedReport | undefined> => {
+  const db = await initDB();
+  const store = db.transaction(STORE_NAME, "readonly").objectStore(STORE_NAME);
+  return requestToPromise<SerializedReport | undefined>(store.get(id));
+};
+
+// Inserts the report when it has no id yet, IndexedDB assigning one, otherwise
+// replaces the stored record so that corrections don't create duplicates. A
+// report without id whose uid is already stored, e.g. a form detached from its
+// record by a deletion that was then undone, replaces that record too.
+export const saveReport = async (
+  report: SerializedReport
+): Promise<SerializedReport> => {
+  const db = await initDB();
+  const { transaction, store, allows, done } = openWrite(db);
+  const now = new Date().toISOString();
+
+  let saved = withIndexKeys({
+    ...report,
+    createdAt: report.createdAt || now,
+    updatedAt: now,
+  });
+  const request =
+    report.id !== undefined
+      ? store.get(report.id)
+      : store.index(UID_INDEX).get(saved.uid as string);
+  request.onsuccess = () => {
+    const existing = request.result as SerializedReport | undefined;
+    if (!allows(existing, saved)) return;
+    if (existing) {
+      saved = { ...saved, id: existing.id, createdAt: existing.createdAt };
+      store.put(saved);
+    } else if (saved.id !== undefined) {
+      store.put(saved);
+    } else {
+      saved = { ...saved, createdAt: now };
+      const added = store.add(saved);
+      added.onsuccess = () => {
+        saved = { ...saved, id: added.result as number };
+      };
+    }
+    queueChange(transaction, "put", saved);
+  };
+
+  await done();
+  return saved;
+};
+
+// Writes the record over the stored one with the same id, if any, or as a new
+// record whose id IndexedDB assigns
+const putRecord = (
+  { transaction, store, allows }: ReturnType<typeof openWrite>,
+  report: SerializedReport
+) => {
+  const record = withIndexKeys(report);
+  const write = () => {
+    store.put(record);
+    queueChange(transaction, "put", record);
+  };
+  if (record.id === undefined) {
+    write();
+    return;
+  }
+  const request = store.get(record.id);
+  request.onsuccess = () => {
+    if (allows(request.result, record)) write();
+  };
+};
+
+// Writes a record back as-is, e.g. to undo a deletion.
+export const restoreReport = async (report: SerializedReport) => {
+  const write = openWrite(await initDB());
+  putRecord(write, report);
+  await write.done();
+};
+
+// Writes several records at once in a single transaction, e.g. on import.
+export const putReports = async (reports: SerializedReport[]) => {
+  const write = openWrite(await initDB());
+  reports.forEach((report) => putRecord(write, report));
+  await write.done();
+};
+
+export const deleteReport = async (id: number) => {
+  const db = await initDB();
+  const { transaction, store, allows, done } = openWrite(db);
+  const request = store.get(id);
+  request.onsuccess = () => {
+    if (!request.result || !allows(request.result, null)) return;
+    store.delete(id);
+    queueChange(transaction, "delete", request.result);
+  };
+  await done();
+};
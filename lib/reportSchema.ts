@@ -0,0 +1,62 @@
+import dayjs from "dayjs";
+import {
+  ReportFinalization,
+  ReportReview,
+  SerializedReport,
+  SerializedTask,
+} from "./report";
+
+// Shape checks for reports coming from outside the app: backup files and
+// the sync API
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null;
+
+const isDateString = (value: unknown): value is string =>
+  typeof value === "string" && dayjs(value).isValid();
+
+const isOptionalDateString = (value: unknown): value is string | null =>
+  value === null || value === undefined || isDateString(value);
+
+const isReview = (value: unknown): value is ReportReview =>
+  isObject(value) &&
+  (value.status === "validated" || value.status === "returned") &&
+  typeof value.comment === "string" &&
+  typeof value.reviewer === "string" &&
+  isDateString(value.reviewedAt);
+
+const isFinalization = (value: unknown): value is ReportFinalization =>
+  isObject(value) &&
+  isDateString(value.finalizedAt) &&
+  typeof value.signature === "string" &&
+  typeof value.hash === "string";
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === "string");
+
+const isTask = (value: unknown): value is SerializedTask =>
+  isObject(value) &&
+  typeof value.description === "string" &&
+  isOptionalDateString(value.startTime) &&
+  isOptionalDateString(value.endTime) &&
+  (value.problems === undefined || typeof value.problems === "string") &&
+  (value.plannedItem === undefined || typeof value.plannedItem === "string") &&
+  (value.category === undefined || typeof value.category === "string") &&
+  (value.attachments === undefined || isStringArray(value.attachments));
+
+export const isSerializedReport = (value: unknown): value is SerializedReport =>
+  isObject(value) &&
+  (value.id === undefined || typeof value.id === "number") &&
+  isDateString(value.date) &&
+  typeof value.firstName === "string" &&
+  typeof value.lastName === "string" &&
+  isOptionalDateString(value.arrivalTime) &&
+  isOptionalDateString(value.departureTime) &&
+  Array.isArray(value.tasks) &&
+  value.tasks.every(isTask) &&
+  typeof value.plannedTasks === "string" &&
+  (value.carriedOverItems === undefined ||
+    isStringArray(value.carriedOverItems)) &&
+  (value.review === undefined || isReview(value.review)) &&
+  (value.finalization === undefined || isFinalization(value.finalization)) &&
+  (value.uid === undefined || typeof value.uid === "string") &&
+  (value.revision === undefined || typeof value.revision === "number");
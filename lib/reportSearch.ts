@@ -0,0 +1,166 @@
+import { Dayjs } from "dayjs";
+import {
+  deserializeReport,
+  getPersonKey,
+  isTaskBlank,
+  Person,
+  Report,
+} from "./report";
+import { getReportsBetween, getReportsByAuthor } from "./reportRepository";
+import { durationMinutes } from "./time";
+
+export interface SearchCriteria {
+  start: Dayjs | null;
+  end: Dayjs | null;
+  author: Person | null;
+  // Space-separated keywords, all required
+  query: string;
+}
+
+export type SearchField = "description" | "problems" | "plannedTasks";
+
+// Text excerpt around a matched keyword
+export interface SearchSnippet {
+  field: SearchField;
+  before: string;
+  match: string;
+  after: string;
+}
+
+export interface SearchResult {
+  report: Report;
+  snippets: SearchSnippet[];
+  workedMinutes: number;
+  taskCount: number;
+  hasProblems: boolean;
+}
+
+export type SearchSort = "dateDesc" | "dateAsc" | "author" | "workedMinutes";
+
+export const SEARCH_SORTS: SearchSort[] = [
+  "dateDesc",
+  "dateAsc",
+  "author",
+  "workedMinutes",
+];
+
+// Characters kept on each side of a keyword in an excerpt
+const SNIPPET_CONTEXT = 30;
+
+// Lowercase without accents, character by character so that positions stay
+// aligned with the original text
+const normalize = (text: string) =>
+  text
+    .split("")
+    .map((char) => char.normalize("NFD")[0].toLowerCase())
+    .join("");
+
+export const parseKeywords = (query: string) =>
+  normalize(query).split(/\s+/).filter(Boolean);
+
+const findSnippet = (
+  field: SearchField,
+  text: string,
+  keyword: string
+): SearchSnippet | null => {
+  const index = normalize(text).indexOf(keyword);
+  if (index === -1) return null;
+  const end = index + keyword.length;
+  const from = Math.max(0, index - SNIPPET_CONTEXT);
+  const to = Math.min(text.length, end + SNIPPET_CONTEXT);
+  return {
+    field,
+    before: (from > 0 ? "…" : "") + text.slice(from, index),
+    match: text.slice(index, end),
+    after: text.slice(end, to) + (to < text.length ? "…" : ""),
+  };
+};
+
+const getSearchableTexts = (report: Report) => [
+  ...report.tasks.flatMap((task) => [
+    { field: "description" as const, text: task.description },
+    { field: "problems" as const, text: task.problems || "" },
+  ]),
+  { field: "plannedTasks" as const, text: report.plannedTasks },
+];
+
+export const summarizeReport = (
+  report: Report,
+  snippets: SearchSnippet[] = []
+): SearchResult => {
+  const tasks = report.tasks.filter((task) => !isTaskBlank(task));
+  return {
+    report,
+    snippets,
+    workedMinutes: durationMinutes(report.arrivalTime, report.departureTime),
+    taskCount: tasks.length,
+    hasProblems: tasks.some((task) => !!task.problems?.trim()),
+  };
+};
+
+// A report matches if every keyword appears in at least one field; the first
+// excerpt found is kept for each keyword.
+export const matchReport = (
+  report: Report,
+  keywords: string[]
+): SearchResult | null => {
+  const texts = getSearchableTexts(report);
+  const snippets: SearchSnippet[] = [];
+  for (const keyword of keywords) {
+    const snippet = texts
+      .map(({ field, text }) => findSnippet(field, text, keyword))
+      .find(Boolean);
+    if (!snippet) return null;
+    snippets.push(snippet);
+  }
+  return summarizeReport(report, snippets);
+};
+
+export const filterReports = (
+  reports: Report[],
+  criteria: SearchCriteria
+): SearchResult[] => {
+  const keywords = parseKeywords(criteria.query);
+  const authorKey = criteria.author ? getPersonKey(criteria.author) : null;
+
+  return reports
+    .filter(
+      (report) =>
+        (!criteria.start || !report.date.isBefore(criteria.start, "day")) &&
+        (!criteria.end || !report.date.isAfter(criteria.end, "day")) &&
+        (!authorKey || getPersonKey(report) === authorKey)
+    )
+    .map((report) => matchReport(report, keywords))
+    .filter((result): result is SearchResult => result !== null);
+};
+
+// Reads the reports through the most selective index, then applies every
+// criterion in memory.
+export const searchReports = async (
+  criteria: SearchCriteria
+): Promise<SearchResult[]> => {
+  const records = criteria.author
+    ? await getReportsByAuthor(criteria.author, criteria.start, criteria.end)
+    : await getReportsBetween(criteria.start, criteria.end);
+  return filterReports(records.map(deserializeReport), criteria);
+};
+
+export const sortResults = (
+  results: SearchResult[],
+  sort: SearchSort
+): SearchResult[] => {
+  const byDate = (a: SearchResult, b: SearchResult) =>
+    b.report.date.valueOf() - a.report.date.valueOf();
+  const compare: Record<
+    SearchSort,
+    (a: SearchResult, b: SearchResult) => number
+  > = {
+    dateDesc: byDate,
+    dateAsc: (a, b) => -byDate(a, b),
+    author: (a, b) =>
+      getPersonKey(a.report).localeCompare(getPersonKey(b.report)) ||
+      byDate(a, b),
+    workedMinutes: (a, b) => b.workedMinutes - a.workedMinutes || byDate(a, b),
+  };
+  return [...results].sort(compare[sort]);
+};
@@ -0,0 +1,106 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { SerializedReport } from "../report";
+import { SyncRecord } from "../syncProtocol";
+
+// Server-side store behind app/api/reports: a single JSON file, enough for a
+// team-sized history and trivial to back up. Mount REPORTS_DATA_DIR on a
+// volume when running the standalone build in a container.
+
+interface StoreFile {
+  revision: number;
+  records: Record<string, SyncRecord>;
+}
+
+export type WriteResult =
+  { ok: true; record: SyncRecord } | { ok: false; current: SyncRecord };
+
+const getDataFile = () =>
+  path.join(
+    process.env.REPORTS_DATA_DIR || path.join(process.cwd(), "data"),
+    "reports.json"
+  );
+
+// Requests are handled one at a time so read-modify-write cycles on the file
+// never interleave within this process
+let queue: Promise<unknown> = Promise.resolve();
+
+const exclusive = <T>(task: () => Promise<T>): Promise<T> => {
+  const result = queue.then(task, task);
+  queue = result.catch(() => undefined);
+  return result;
+};
+
+const readStore = async (): Promise<StoreFile> => {
+  try {
+    return JSON.parse(await fs.readFile(getDataFile(), "utf8")) as StoreFile;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return { revision: 0, records: {} };
+    }
+    throw error;
+  }
+};
+
+// Written to a temporary file first so a crash never leaves half a file
+const writeStore = async (store: StoreFile) => {
+  const file = getDataFile();
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const temporary = `${file}.tmp`;
+  await fs.writeFile(temporary, JSON.stringify(store));
+  await fs.rename(temporary, file);
+};
+
+export const getChangesSince = (since: number) =>
+  exclusive(async () => {
+    const store = await readStore();
+    return {
+      revision: store.revision,
+      records: Object.values(store.records)
+        .filter((record) => record.revision > since)
+        .sort((a, b) => a.revision - b.revision),
+    };
+  });
+
+// Applies a put, or a delete when report is null. The write is refused when
+// the client edited an older revision than the one stored.
+export const writeRecord = (
+  uid: string,
+  baseRevision: number | null,
+  report: SerializedReport | null
+) =>
+  exclusive(async (): Promise<WriteResult> => {
+    const store = await readStore();
+    const current = store.records[uid];
+    if (current && current.revision !== baseRevision) {
+      return { ok: false, current };
+    }
+
+    let stored: SerializedReport | null = null;
+    if (report) {
+      // Local ids and revisions mean nothing to other devices
+      stored = { ...report, uid };
+      delete stored.id;
+      delete stored.revision;
+    }
+    const revision = store.revision + 1;
+    const record: SyncRecord = {
+      uid,
+      revision,
+      deleted: !stored,
+      report: stored,
+      updatedAt: new Date().toISOString(),
+    };
+    await writeStore({
+      revision,
+      records: { ...store.records, [uid]: record },
+    });
+    return { ok: true, record };
+  });
+
+// Optional shared secret; without SYNC_TOKEN the API is open, which only
+// suits a private network
+export const isAuthorized = (request: Request) => {
+  const token = process.env.SYNC_TOKEN;
+  return !token || request.headers.get("authorization") === `Bearer ${token}`;
+};
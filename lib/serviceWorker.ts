@@ -0,0 +1,51 @@
+// The worker itself is generated by the build (see next.config.js), so
+// nothing is registered by the development server.
+const SW_URL = "/service-worker.js";
+
+// Registers the worker and reports a new version once it is installed and
+// waiting, which only happens when an older version controls the page.
+export const registerServiceWorker = async (
+  onUpdateReady: (worker: ServiceWorker) => void
+) => {
+  if (
+    process.env.NODE_ENV !== "production" ||
+    !("serviceWorker" in navigator)
+  ) {
+    return;
+  }
+
+  const registration = await navigator.serviceWorker.register(SW_URL, {
+    scope: "/",
+  });
+  if (registration.waiting && navigator.serviceWorker.controller) {
+    onUpdateReady(registration.waiting);
+  }
+  registration.addEventListener("updatefound", () => {
+    const worker = registration.installing;
+    worker?.addEventListener("statechange", () => {
+      if (worker.state === "installed" && navigator.serviceWorker.controller) {
+        onUpdateReady(worker);
+      }
+    });
+  });
+
+  // Long-lived tabs look for a deployment whenever they come back to front
+  document.addEventListener("visibilitychange", () => {
+    if (document.visibilityState === "visible") {
+      registration
+        .update()
+        .catch((error) => console.error("Error checking for updates:", error));
+    }
+  });
+  return registration;
+};
+
+// Lets the waiting worker take over, then reloads onto the new version
+export const activateUpdate = (worker: ServiceWorker) => {
+  navigator.serviceWorker.addEventListener(
+    "controllerchange",
+    () => window.location.reload(),
+    { once: true }
+  );
+  worker.postMessage({ type: "SKIP_WAITING" });
+};
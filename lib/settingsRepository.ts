@@ -0,0 +1,22 @@
+import {
+  initDB,
+  requestToPromise,
+  SETTINGS_STORE_NAME,
+  transactionDone,
+} from "./db";
+
+// Key-value storage for app-wide settings such as the user profile
+export const getSetting = async <T>(key: string): Promise<T | undefined> => {
+  const db = await initDB();
+  const store = db
+    .transaction(SETTINGS_STORE_NAME, "readonly")
+    .objectStore(SETTINGS_STORE_NAME);
+  return requestToPromise<T | undefined>(store.get(key));
+};
+
+export const saveSetting = async <T>(key: string, value: T) => {
+  const db = await initDB();
+  const transaction = db.transaction(SETTINGS_STORE_NAME, "readwrite");
+  transaction.objectStore(SETTINGS_STORE_NAME).put(value, key);
+  await transactionDone(transaction);
+};
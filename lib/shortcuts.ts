@@ -0,0 +1,63 @@
+// Keyboard shortcuts of the report form. Keys are read from event.code,
+// regardless of the keyboard layout and of the characters Alt produces on
+// macOS; combinations taken by browsers (Alt+D, Ctrl+N...) are avoided.
+export type ShortcutAction =
+  | "newTask"
+  | "duplicateTask"
+  | "save"
+  | "nextTask"
+  | "previousTask"
+  | "moveTaskUp"
+  | "moveTaskDown";
+
+interface Shortcut {
+  action: ShortcutAction;
+  code: string;
+  alt?: boolean;
+  shift?: boolean;
+  // Ctrl, or Cmd on macOS
+  mod?: boolean;
+}
+
+export const SHORTCUTS: Shortcut[] = [
+  { action: "newTask", code: "KeyN", alt: true },
+  { action: "duplicateTask", code: "KeyC", alt: true },
+  { action: "save", code: "KeyS", mod: true },
+  { action: "nextTask", code: "ArrowDown", alt: true },
+  { action: "previousTask", code: "ArrowUp", alt: true },
+  { action: "moveTaskDown", code: "ArrowDown", alt: true, shift: true },
+  { action: "moveTaskUp", code: "ArrowUp", alt: true, shift: true },
+];
+
+type KeyInput = Pick<
+  KeyboardEvent,
+  "code" | "altKey" | "shiftKey" | "ctrlKey" | "metaKey"
+>;
+
+export const getShortcutAction = (event: KeyInput): ShortcutAction | null =>
+  SHORTCUTS.find(
+    (shortcut) =>
+      shortcut.code === event.code &&
+      !!shortcut.alt === event.altKey &&
+      !!shortcut.shift === event.shiftKey &&
+      !!shortcut.mod === (event.ctrlKey || event.metaKey)
+  )?.action ?? null;
+
+const KEY_NAMES: Record<string, string> = {
+  ArrowDown: "↓",
+  ArrowUp: "↑",
+};
+
+// Label shown in the help, e.g. "Alt+Shift+↑"
+export const formatShortcut = (
+  shortcut: Shortcut,
+  names: { alt: string; shift: string; mod: string }
+) =>
+  [
+    shortcut.mod && names.mod,
+    shortcut.alt && names.alt,
+    shortcut.shift && names.shift,
+    KEY_NAMES[shortcut.code] ?? shortcut.code.replace(/^Key/, ""),
+  ]
+    .filter(Boolean)
+    .join("+");
@@ -0,0 +1,215 @@
+import dayjs, { Dayjs } from "dayjs";
+import { UNCATEGORIZED } from "./catalogue";
+import { formatShortDate, Locale } from "./i18n";
+import { getDayKey, getPersonKey, Person, Report } from "./report";
+import { durationMinutes, minutesOfDay, startOfWeek } from "./time";
+import { isWorkingDay, WorkCalendar } from "./workCalendar";
+
+export interface ChartPoint {
+  label: string;
+  value: number;
+}
+
+// Run of consecutive working days without a report
+export interface MissingStreak {
+  start: Dayjs;
+  end: Dayjs;
+  days: number;
+}
+
+export interface Statistics {
+  reportCount: number;
+  // Time present per day (working or worked) and per week, in minutes
+  dailyMinutes: ChartPoint[];
+  weeklyMinutes: ChartPoint[];
+  averageWorkedMinutes: number | null;
+  // Average times in minutes since midnight
+  averageArrival: number | null;
+  averageDeparture: number | null;
+  categories: ChartPoint[];
+  keywords: ChartPoint[];
+  daysWithReports: number;
+  daysWithProblems: number;
+  workingDays: number;
+  missingStreaks: MissingStreak[];
+}
+
+// Number of keywords kept in the breakdown
+const KEYWORD_LIMIT = 10;
+const MIN_KEYWORD_LENGTH = 4;
+
+// Words too common to tell an activity apart
+const STOP_WORDS = new Set([
+  "avec",
+  "dans",
+  "pour",
+  "sans",
+  "sous",
+  "entre",
+  "vers",
+  "chez",
+  "mise",
+  "suite",
+  "faire",
+  "fait",
+  "tout",
+  "tous",
+  "plus",
+  "leur",
+  "leurs",
+  "cette",
+  "celle",
+]);
+
+const average = (values: number[]) =>
+  values.length
+    ? values.reduce((sum, value) => sum + value, 0) / values.length
+    : null;
+
+const toPoints = (values: Map<string, number>, limit?: number) =>
+  Array.from(values, ([label, value]) => ({ label, value }))
+    .sort((a, b) => b.value - a.value)
+    .slice(0, limit);
+
+const addTo = (values: Map<string, number>, key: string, amount: number) =>
+  values.set(key, (values.get(key) || 0) + amount);
+
+export const extractKeywords = (description: string) =>
+  Array.from(
+    new Set(
+      description
+        .toLowerCase()
+        .split(/[^0-9a-zà-öø-ÿœæ]+/)
+        .filter(
+          (word) => word.length >= MIN_KEYWORD_LENGTH && !STOP_WORDS.has(word)
+        )
+    )
+  );
+
+const listDays = (start: Dayjs, end: Dayjs): Dayjs[] => {
+  const days: Dayjs[] = [];
+  for (
+    let day = start.startOf("day");
+    !day.isAfter(end, "day");
+    day = day.add(1, "day")
+  ) {
+    days.push(day);
+  }
+  return days;
+};
+
+// Working days of the period according to the work calendar
+export const listWorkingDays = (
+  calendar: WorkCalendar,
+  start: Dayjs,
+  end: Dayjs
+): Dayjs[] => listDays(start, end).filter((day) => isWorkingDay(calendar, day));
+
+export const findMissingStreaks = (
+  workingDays: Dayjs[],
+  reportedDays: Set<string>
+): MissingStreak[] => {
+  const streaks: MissingStreak[] = [];
+  let current: MissingStreak | null = null;
+  for (const day of workingDays) {
+    if (reportedDays.has(getDayKey(day))) {
+      current = null;
+    } else if (current) {
+      current.end = day;
+      current.days++;
+    } else {
+      current = { start: day, end: day, days: 1 };
+      streaks.push(current);
+    }
+  }
+  return streaks.sort(
+    (a, b) => b.days - a.days || b.start.valueOf() - a.start.valueOf()
+  );
+};
+
+// Statistics over the period, for one person or for every report if none is
+// picked. The period stops today so that days to come aren't counted as
+// missing, and neither are the days off and holidays of the work calendar.
+// Chart labels follow the interface language.
+export const buildStatistics = (
+  reports: Report[],
+  person: Person | null,
+  start: Dayjs,
+  end: Dayjs,
+  today: Dayjs,
+  calendar: WorkCalendar,
+  locale: Locale
+): Statistics => {
+  const lastDay = end.isAfter(today, "day") ? today : end;
+  const personKey = person ? getPersonKey(person) : null;
+  const selected = reports.filter(
+    (report) =>
+      (!personKey || getPersonKey(report) === personKey) &&
+      !report.date.isBefore(start, "day") &&
+      !report.date.isAfter(lastDay, "day")
+  );
+
+  const byDay = new Map<string, number>();
+  const byWeek = new Map<string, number>();
+  const categories = new Map<string, number>();
+  const keywords = new Map<string, number>();
+  const problemDays = new Set<string>();
+
+  for (const report of selected) {
+    const worked = durationMinutes(report.arrivalTime, report.departureTime);
+    addTo(byDay, getDayKey(report.date), worked);
+    addTo(byWeek, getDayKey(startOfWeek(report.date)), worked);
+
+    for (const task of report.tasks) {
+      const minutes = durationMinutes(task.startTime, task.endTime);
+      addTo(categories, task.category || UNCATEGORIZED, minutes);
+      extractKeywords(task.description).forEach((word) =>
+        addTo(keywords, word, minutes)
+      );
+      if (task.problems?.trim()) problemDays.add(getDayKey(report.date));
+    }
+  }
+
+  const workingDays = listWorkingDays(calendar, start, lastDay);
+  const weeks = Array.from(
+    new Set(workingDays.map((day) => getDayKey(startOfWeek(day))))
+  );
+  const workedDays = Array.from(byDay.values()).filter((value) => value > 0);
+
+  return {
+    reportCount: selected.length,
+    dailyMinutes: listDays(start, lastDay)
+      .filter((day) => isWorkingDay(calendar, day) || byDay.has(getDayKey(day)))
+      .map((day) => ({
+        label: formatShortDate(day, locale),
+        value: byDay.get(getDayKey(day)) || 0,
+      })),
+    weeklyMinutes: weeks.map((week) => ({
+      label: formatShortDate(dayjs(week), locale),
+      value: byWeek.get(week) || 0,
+    })),
+    averageWorkedMinutes: average(workedDays),
+    averageArrival: average(
+      selected.flatMap((report) =>
+        report.arrivalTime ? [minutesOfDay(report.arrivalTime)] : []
+      )
+    ),
+    averageDeparture: average(
+      selected.flatMap((report) =>
+        report.departureTime ? [minutesOfDay(report.departureTime)] : []
+      )
+    ),
+    categories: toPoints(categories).filter((point) => point.value > 0),
+    keywords: toPoints(keywords, KEYWORD_LIMIT).filter(
+      (point) => point.value > 0
+    ),
+    daysWithReports: byDay.size,
+    daysWithProblems: problemDays.size,
+    workingDays: workingDays.length,
+    // Today's report may not be written yet
+    missingStreaks: findMissingStreaks(
+      workingDays.filter((day) => day.isBefore(today, "day")),
+      new Set(byDay.keys())
+    ),
+  };
+};
@@ -0,0 +1,186 @@
+import { SerializedReport } from "./report";
+import { getSetting, saveSetting } from "./settingsRepository";
+import { PullResponse, PushResponse, SyncRecord } from "./syncProtocol";
+import {
+  applyRemoteRecord,
+  dropOutboxEntry,
+  getOutbox,
+  getReportByUid,
+  markConflict,
+  markSynced,
+  OutboxEntry,
+  saveOutboxEntry,
+} from "./syncRepository";
+
+const SYNC_SETTING = "sync";
+
+// Tag of the background sync, see worker/service-worker.js
+export const SYNC_TAG = "sync-reports";
+
+export interface SyncSettings {
+  enabled: boolean;
+  // Empty for the server that serves the app
+  serverUrl: string;
+  token: string;
+  // Last server revision already pulled
+  lastRevision: number;
+  lastSyncAt: string | null;
+}
+
+export interface SyncResult {
+  pushed: number;
+  pulled: number;
+  conflicts: number;
+}
+
+export const createDefaultSyncSettings = (): SyncSettings => ({
+  enabled: false,
+  serverUrl: "",
+  token: "",
+  lastRevision: 0,
+  lastSyncAt: null,
+});
+
+export const getSyncSettings = async (): Promise<SyncSettings> => ({
+  ...createDefaultSyncSettings(),
+  ...(await getSetting<SyncSettings>(SYNC_SETTING)),
+});
+
+export const saveSyncSettings = (settings: SyncSettings) =>
+  saveSetting(SYNC_SETTING, settings);
+
+const apiUrl = (settings: SyncSettings, path: string) =>
+  `${settings.serverUrl.trim().replace(/\/+$/, "")}/api/reports${path}`;
+
+const request = async <T>(
+  settings: SyncSettings,
+  path: string,
+  init: RequestInit = {}
+): Promise<{ status: number; body: T }> => {
+  const response = await fetch(apiUrl(settings, path), {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      ...(settings.token && { Authorization: `Bearer ${settings.token}` }),
+    },
+  });
+  if (!response.ok && response.status !== 409) {
+    throw new Error(`Sync request failed with status ${response.status}`);
+  }
+  return { status: response.status, body: (await response.json()) as T };
+};
+
+// Pushes a pending change; returns false on conflict
+const pushEntry = async (settings: SyncSettings, entry: OutboxEntry) => {
+  let report: SerializedReport | undefined;
+  if (entry.op === "put") {
+    report = await getReportByUid(entry.uid);
+    // Deleted meanwhile: the deletion entry has already taken over
+    if (!report) return true;
+  }
+  const { status, body } = await request<PushResponse>(
+    settings,
+    `/${encodeURIComponent(entry.uid)}`,
+    {
+      method: entry.op === "put" ? "PUT" : "DELETE",
+      body: JSON.stringify({ baseRevision: entry.baseRevision, report }),
+    }
+  );
+  if (status === 409) {
+    await markConflict(entry.uid, body.record);
+    return false;
+  }
+  await markSynced(entry, body.record.revision);
+  return true;
+};
+
+const run = async (): Promise<SyncResult> => {
+  const settings = await getSyncSettings();
+  const result: SyncResult = { pushed: 0, pulled: 0, conflicts: 0 };
+  if (!settings.enabled) return result;
+
+  // Local changes go first; those in conflict wait for the user's choice
+  const outbox = await getOutbox();
+  for (const entry of outbox.filter((e) => !e.conflict)) {
+    if (await pushEntry(settings, entry)) {
+      result.pushed++;
+    } else {
+      result.conflicts++;
+    }
+  }
+
+  // Then the reports written elsewhere since the last sync
+  const { body } = await request<PullResponse>(
+    settings,
+    `?since=${settings.lastRevision}`
+  );
+  const pending = new Map(
+    (await getOutbox()).map((entry) => [entry.uid, entry])
+  );
+  for (const record of body.records) {
+    const entry = pending.get(record.uid);
+    if (entry && entry.baseRevision !== record.revision) {
+      if (!entry.conflict) result.conflicts++;
+      await markConflict(record.uid, record);
+      continue;
+    }
+    if (await applyRemoteRecord(record)) result.pulled++;
+  }
+
+  await saveSyncSettings({
+    ...settings,
+    lastRevision: body.revision,
+    lastSyncAt: new Date().toISOString(),
+  });
+  return result;
+};
+
+// One sync at a time: simultaneous calls (network back, save, service
+// worker) share the same run
+let running: Promise<SyncResult> | null = null;
+
+export const syncReports = (): Promise<SyncResult> => {
+  if (!running) {
+    running = run().finally(() => {
+      running = null;
+    });
+  }
+  return running;
+};
+
+export const getConflicts = async () =>
+  (await getOutbox()).filter(
+    (entry): entry is OutboxEntry & { conflict: SyncRecord } => !!entry.conflict
+  );
+
+// Keeps the local version: it will be pushed over the server's
+export const keepLocalVersion = (
+  entry: OutboxEntry & { conflict: SyncRecord }
+) => {
+  const resolved: OutboxEntry = {
+    ...entry,
+    baseRevision: entry.conflict.revision,
+  };
+  delete resolved.conflict;
+  return saveOutboxEntry(resolved);
+};
+
+// Drops the local change in favour of the server version
+export const keepServerVersion = async (
+  entry: OutboxEntry & { conflict: SyncRecord }
+) => {
+  await dropOutboxEntry(entry.uid);
+  await applyRemoteRecord(entry.conflict);
+};
+
+// Asks the service worker to sync again once the network is back, where the
+// Background Sync API exists
+export const requestBackgroundSync = async () => {
+  if (!("serviceWorker" in navigator)) return;
+  const registration = (await navigator.serviceWorker.getRegistration()) as
+    | (ServiceWorkerRegistration & {
+        sync?: { register: (tag: string) => Promise<void> };
+      })
+    | undefined;
+  await registration?.sync?.register(SYNC_TAG);
+};
@@ -0,0 +1,34 @@
+import { SerializedReport } from "./report";
+
+// Shapes exchanged between the sync engine and the app/api/reports routes.
+
+// Server copy of a report. Deletions are kept as tombstones so that other
+// devices learn about them on their next pull.
+export interface SyncRecord {
+  uid: string;
+  // Server-wide counter value of the last write to this record
+  revision: number;
+  deleted: boolean;
+  report: SerializedReport | null;
+  updatedAt: string;
+}
+
+// GET /api/reports?since=<revision>
+export interface PullResponse {
+  // Latest server revision, to pass as "since" on the next pull
+  revision: number;
+  records: SyncRecord[];
+}
+
+// PUT /api/reports/<uid>, and DELETE with no report
+export interface PushRequest {
+  // Revision the client edited, null for a report the server never saw
+  baseRevision: number | null;
+  report?: SerializedReport;
+}
+
+// Returned with 200 once written, and with 409 holding the server copy when
+// baseRevision is stale
+export interface PushResponse {
+  record: SyncRecord;
+}
@@ -0,0 +1,165 @@
+import {
+  getAllFromStore,
+  initDB,
+  OUTBOX_STORE_NAME,
+  requestToPromise,
+  STORE_NAME,
+  transactionDone,
+  UID_INDEX,
+} from "./db";
+import { canReplaceReport } from "./finalization";
+import { getIndexKeys, SerializedReport } from "./report";
+import { SyncRecord } from "./syncProtocol";
+
+export type OutboxOperation = "put" | "delete";
+
+// Local change waiting to be pushed, one per report uid
+export interface OutboxEntry {
+  uid: string;
+  op: OutboxOperation;
+  // Server revision the change was made on, null if never synced
+  baseRevision: number | null;
+  queuedAt: string;
+  // Server copy that changed meanwhile; the entry is held until the user
+  // picks a version
+  conflict?: SyncRecord;
+}
+
+// Called by the report repository inside its own write transaction, so a
+// report and its outbox entry are always written together.
+export const queueChange = (
+  transaction: IDBTransaction,
+  op: OutboxOperation,
+  report: SerializedReport
+) => {
+  if (!report.uid) return;
+  const uid = report.uid;
+  const outbox = transaction.objectStore(OUTBOX_STORE_NAME);
+  const request = outbox.get(uid);
+  request.onsuccess = () => {
+    const pending = request.result as OutboxEntry | undefined;
+    const entry: OutboxEntry = {
+      uid,
+      op,
+      baseRevision: pending ? pending.baseRevision : (report.revision ?? null),
+      queuedAt: new Date().toISOString(),
+    };
+    if (pending?.conflict) entry.conflict = pending.conflict;
+    outbox.put(entry);
+  };
+};
+
+export const getOutbox = () => getAllFromStore<OutboxEntry>(OUTBOX_STORE_NAME);
+
+export const getReportByUid = async (
+  uid: string
+): Promise<SerializedReport | undefined> => {
+  const db = await initDB();
+  const index = db
+    .transaction(STORE_NAME, "readonly")
+    .objectStore(STORE_NAME)
+    .index(UID_INDEX);
+  return requestToPromise<SerializedReport | undefined>(index.get(uid));
+};
+
+// Records the revision the server gave to a pushed change. The entry is only
+// dropped if the report wasn't edited again while the request was in flight;
+// otherwise the newer edit is pushed on top of that revision.
+export const markSynced = async (entry: OutboxEntry, revision: number) => {
+  const db = await initDB();
+  const transaction = db.transaction(
+    [STORE_NAME, OUTBOX_STORE_NAME],
+    "readwrite"
+  );
+  const outbox = transaction.objectStore(OUTBOX_STORE_NAME);
+  const reports = transaction.objectStore(STORE_NAME);
+
+  const pending = outbox.get(entry.uid);
+  pending.onsuccess = () => {
+    const current = pending.result as OutboxEntry | undefined;
+    if (!current) return;
+    if (current.queuedAt === entry.queuedAt) {
+      outbox.delete(entry.uid);
+    } else {
+      outbox.put({ ...current, baseRevision: revision });
+    }
+  };
+
+  const local = reports.index(UID_INDEX).get(entry.uid);
+  local.onsuccess = () => {
+    if (local.result) reports.put({ ...local.result, revision });
+  };
+
+  await transactionDone(transaction);
+};
+
+export const markConflict = async (uid: string, record: SyncRecord) => {
+  const db = await initDB();
+  const transaction = db.transaction(OUTBOX_STORE_NAME, "readwrite");
+  const outbox = transaction.objectStore(OUTBOX_STORE_NAME);
+  const pending = outbox.get(uid);
+  pending.onsuccess = () => {
+    if (pending.result) outbox.put({ ...pending.result, conflict: record });
+  };
+  await transactionDone(transaction);
+};
+
+export const saveOutboxEntry = async (entry: OutboxEntry) => {
+  const db = await initDB();
+  const transaction = db.transaction(OUTBOX_STORE_NAME, "readwrite");
+  transaction.objectStore(OUTBOX_STORE_NAME).put(entry);
+  await transactionDone(transaction);
+};
+
+export const dropOutboxEntry = async (uid: string) => {
+  const db = await initDB();
+  const transaction = db.transaction(OUTBOX_STORE_NAME, "readwrite");
+  transaction.objectStore(OUTBOX_STORE_NAME).delete(uid);
+  await transactionDone(transaction);
+};
+
+// Writes a server record into the local store without queuing it back. The
+// local id is kept when the report is already known on this device. Resolves
+// to false when the local copy was already up to date, or is finalized and
+// would be changed: that copy is then queued to be pushed back on top of the
+// server one.
+export const applyRemoteRecord = async (record: SyncRecord) => {
+  const db = await initDB();
+  const transaction = db.transaction(
+    [STORE_NAME, OUTBOX_STORE_NAME],
+    "readwrite"
+  );
+  const reports = transaction.objectStore(STORE_NAME);
+  let changed = false;
+  const request = reports.index(UID_INDEX).get(record.uid);
+  request.onsuccess = () => {
+    const local = request.result as SerializedReport | undefined;
+    if (local?.revision === record.revision) return;
+    if (local && !canReplaceReport(local, record.report)) {
+      const kept = { ...local, revision: record.revision };
+      reports.put(kept);
+      queueChange(transaction, "put", kept);
+      return;
+    }
+    if (record.deleted || !record.report) {
+      if (local?.id !== undefined) reports.delete(local.id);
+      changed = local !== undefined;
+      return;
+    }
+    changed = true;
+    const report: SerializedReport = {
+      ...record.report,
+      ...getIndexKeys(record.report),
+      uid: record.uid,
+      revision: record.revision,
+    };
+    if (local?.id !== undefined) {
+      report.id = local.id;
+    } else {
+      delete report.id;
+    }
+    reports.put(report);
+  };
+  await transactionDone(transaction);
+  return changed;
+};
@@ -0,0 +1,122 @@
+import { Dayjs } from "dayjs";
+import {
+  ACTIVE_MEMBER_KEY,
+  deleteFromStore,
+  getAllFromStore,
+  MEMBER_STORE_NAME,
+  putInStore,
+} from "./db";
+import { isProfile, Profile } from "./profile";
+import {
+  formatPerson,
+  getPersonKey,
+  Person,
+  Report,
+  ReportReview,
+  ReviewStatus,
+  serializeReport,
+} from "./report";
+import { restoreReport } from "./reportRepository";
+import { getSetting, saveSetting } from "./settingsRepository";
+import { isWorkingDay, WorkCalendar } from "./workCalendar";
+
+// Person using the device; the profile of the active person pre-fills the
+// reports and the PDF header.
+export interface TeamMember extends Profile {
+  id?: number;
+  // Access to the review of the whole team's reports
+  manager: boolean;
+}
+
+export const isTeamMember = (value: unknown): value is TeamMember =>
+  isProfile(value) &&
+  typeof (value as unknown as Record<string, unknown>).manager === "boolean";
+
+export const getMembers = async () =>
+  (await getAllFromStore<TeamMember>(MEMBER_STORE_NAME)).sort((a, b) =>
+    formatPerson(a).localeCompare(formatPerson(b))
+  );
+
+export const saveMember = (member: TeamMember) =>
+  putInStore(MEMBER_STORE_NAME, member);
+
+export const deleteMember = (id: number) =>
+  deleteFromStore(MEMBER_STORE_NAME, id);
+
+export const getActiveMemberId = () => getSetting<number>(ACTIVE_MEMBER_KEY);
+
+export const setActiveMember = (id: number) =>
+  saveSetting(ACTIVE_MEMBER_KEY, id);
+
+export const getActiveMember = async (): Promise<TeamMember | undefined> => {
+  const [members, id] = await Promise.all([getMembers(), getActiveMemberId()]);
+  return members.find((member) => member.id === id);
+};
+
+// Members of a backup missing from the device, recognized by their name
+export const findNewMembers = (
+  stored: TeamMember[],
+  incoming: TeamMember[]
+): TeamMember[] => {
+  const known = new Set(stored.map(getPersonKey));
+  return incoming.filter((member) => !known.has(getPersonKey(member)));
+};
+
+// Adds the members of a backup without touching those of the device. On a
+// device without a team, the first one becomes the active member and, if none
+// is, the manager, as saveProfile would do.
+export const restoreMembers = async (
+  members: TeamMember[]
+): Promise<TeamMember[]> => {
+  const stored = await getMembers();
+  const missing = findNewMembers(stored, members);
+  const withManager =
+    !stored.length && missing.length && !missing.some((m) => m.manager)
+      ? missing.map((member, index) => ({ ...member, manager: index === 0 }))
+      : missing;
+
+  const added: TeamMember[] = [];
+  for (const member of withManager) {
+    const record = { ...member };
+    delete record.id;
+    added.push(await saveMember(record));
+  }
+  if (added.length && (await getActiveMember()) === undefined) {
+    await setActiveMember(added[0].id as number);
+  }
+  return added;
+};
+
+// Members without a report for the given day. None is expected on a holiday
+// or a day off of the work calendar.
+export const findMissingMembers = (
+  members: TeamMember[],
+  reports: Report[],
+  day: Dayjs,
+  calendar: WorkCalendar
+): TeamMember[] => {
+  if (!isWorkingDay(calendar, day)) return [];
+  const authors = new Set(
+    reports.filter((report) => report.date.isSame(day, "day")).map(getPersonKey)
+  );
+  return members.filter((member) => !authors.has(getPersonKey(member)));
+};
+
+// Records the manager's decision without touching the report's creation and
+// modification dates, which remain its author's.
+export const reviewReport = async (
+  report: Report,
+  status: ReviewStatus,
+  comment: string,
+  reviewer: Person
+): Promise<Report> => {
+  const review: ReportReview = {
+    status,
+    comment: comment.trim(),
+    reviewer: formatPerson(reviewer),
+    reviewedAt: new Date().toISOString(),
+  };
+  const reviewed = { ...report, review };
+  await restoreReport(serializeReport(reviewed));
+  return reviewed;
+};
@@ -0,0 +1,35 @@
+import { Dayjs } from "dayjs";
+
+// Time pickers keep the calendar day they were opened on, which isn't
+// necessarily the report date, so durations only look at the time of day.
+export const minutesOfDay = (time: Dayjs) => time.hour() * 60 + time.minute();
+
+// Duration between two times of the same day. Spans past midnight aren't
+// supported: validateReport rejects an end before its start, and such a span
+// counts for nothing in reports saved before validation existed.
+export const durationMinutes = (
+  start: Dayjs | null,
+  end: Dayjs | null
+): number => {
+  if (!start || !end) return 0;
+  return Math.max(minutesOfDay(end) - minutesOfDay(start), 0);
+};
+
+export const formatDuration = (minutes: number) => {
+  const sign = minutes < 0 ? "-" : "";
+  const absolute = Math.abs(Math.round(minutes));
+  return `${sign}${Math.floor(absolute / 60)}h${String(absolute % 60).padStart(
+    2,
+    "0"
+  )}`;
+};
+
+export const startOfWeek = (date: Dayjs) =>
+  date.subtract((date.day() + 6) % 7, "day").startOf("day");
+
+export const formatTimeOfDay = (minutes: number) => {
+  const rounded = Math.round(minutes);
+  return `${String(Math.floor(rounded / 60) % 24).padStart(2, "0")}:${String(
+    rounded % 60
+  ).padStart(2, "0")}`;
+};
@@ -0,0 +1,170 @@
+import { Translate } from "./i18n";
+import { Report } from "./report";
+import { formatDuration, minutesOfDay } from "./time";
+
+export type ValidationSeverity = "error" | "warning";
+
+export interface ValidationIssue {
+  // Path of the field at fault, e.g. "tasks[2].endTime"
+  path: string;
+  message: string;
+  severity: ValidationSeverity;
+}
+
+// Time not covered by any task beyond which a warning is shown
+const GAP_WARNING_MINUTES = 15;
+
+export const taskPath = (index: number, field: string) =>
+  `tasks[${index}].${field}`;
+
+// Messages are written in the interface language
+export const validateReport = (
+  report: Report,
+  t: Translate
+): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const error = (path: string, message: string) =>
+    issues.push({ path, message, severity: "error" });
+  const warning = (path: string, message: string) =>
+    issues.push({ path, message, severity: "warning" });
+
+  if (!report.firstName.trim()) {
+    error("firstName", t("validation.firstNameRequired"));
+  }
+  if (!report.lastName.trim()) {
+    error("lastName", t("validation.lastNameRequired"));
+  }
+
+  const arrival = report.arrivalTime ? minutesOfDay(report.arrivalTime) : null;
+  const departure = report.departureTime
+    ? minutesOfDay(report.departureTime)
+    : null;
+
+  if (arrival === null) {
+    error("arrivalTime", t("validation.arrivalRequired"));
+  }
+  if (departure === null) {
+    error("departureTime", t("validation.departureRequired"));
+  }
+  if (arrival !== null && departure !== null && departure <= arrival) {
+    error("departureTime", t("validation.departureBeforeArrival"));
+  }
+
+  if (!report.tasks.length) {
+    error("tasks", t("validation.noTask"));
+  }
+
+  report.tasks.forEach((task, index) => {
+    const params = { task: index + 1 };
+    if (!task.description.trim()) {
+      error(
+        taskPath(index, "description"),
+        t("validation.taskDescriptionRequired", params)
+      );
+    }
+    if (!task.startTime) {
+      error(
+        taskPath(index, "startTime"),
+        t("validation.taskStartRequired", params)
+      );
+    }
+    if (!task.endTime) {
+      error(
+        taskPath(index, "endTime"),
+        t("validation.taskEndRequired", params)
+      );
+    }
+    if (!task.startTime || !task.endTime) return;
+
+    const start = minutesOfDay(task.startTime);
+    const end = minutesOfDay(task.endTime);
+    if (end <= start) {
+      error(
+        taskPath(index, "endTime"),
+        t("validation.taskEndBeforeStart", params)
+      );
+    }
+    if (arrival !== null && start < arrival) {
+      error(
+        taskPath(index, "startTime"),
+        t("validation.taskBeforeArrival", params)
+      );
+    }
+    if (departure !== null && end > departure) {
+      error(
+        taskPath(index, "endTime"),
+        t("validation.taskAfterDeparture", params)
+      );
+    }
+  });
+
+  // Overlaps and gaps between tasks, in chronological order
+  const timed = report.tasks
+    .map((task, index) => ({
+      index,
+      start: task.startTime ? minutesOfDay(task.startTime) : null,
+      end: task.endTime ? minutesOfDay(task.endTime) : null,
+    }))
+    .filter(
+      (task): task is { index: number; start: number; end: number } =>
+        task.start !== null && task.end !== null && task.end > task.start
+    )
+    .sort((a, b) => a.start - b.start);
+
+  timed.forEach((task, position) => {
+    const previous = timed[position - 1];
+    if (!previous) return;
+
+    if (task.start < previous.end) {
+      error(
+        taskPath(task.index, "startTime"),
+        t("validation.taskOverlap", {
+          task: task.index + 1,
+          other: previous.index + 1,
+        })
+      );
+    } else if (task.start - previous.end > GAP_WARNING_MINUTES) {
+      warning(
+        taskPath(task.index, "startTime"),
+        t("validation.gapBetweenTasks", {
+          duration: formatDuration(task.start - previous.end),
+          previous: previous.index + 1,
+          task: task.index + 1,
+        })
+      );
+    }
+  });
+
+  if (timed.length && arrival !== null && departure !== null) {
+    const first = timed[0];
+    const last = timed.reduce((latest, task) =>
+      task.end > latest.end ? task : latest
+    );
+    if (first.start - arrival > GAP_WARNING_MINUTES) {
+      warning(
+        "arrivalTime",
+        t("validation.gapAfterArrival", {
+          duration: formatDuration(first.start - arrival),
+        })
+      );
+    }
+    if (departure - last.end > GAP_WARNING_MINUTES) {
+      warning(
+        "departureTime",
+        t("validation.gapBeforeDeparture", {
+          duration: formatDuration(departure - last.end),
+        })
+      );
+    }
+  }
+
+  return issues;
+};
+
+export const hasBlockingErrors = (issues: ValidationIssue[]) =>
+  issues.some((issue) => issue.severity === "error");
+
+// First blocking issue on a field, or else its first warning
+export const getFieldIssue = (issues: ValidationIssue[], path: string) =>
+  issues.find((issue) => issue.path === path && issue.severity === "error") ||
+  issues.find((issue) => issue.path === path);
@@ -0,0 +1,160 @@
+import dayjs, { Dayjs } from "dayjs";
+import { getDayKey } from "./report";
+import { getSetting, saveSetting } from "./settingsRepository";
+
+const WORK_CALENDAR_SETTING = "workCalendar";
+
+// Public holiday or closing day, when no report is expected
+export interface Holiday {
+  // Day as YYYY-MM-DD
+  date: string;
+  name: string;
+}
+
+export interface WorkCalendar {
+  // Working days of the week, numbered like Dayjs.day() (0 = Sunday)
+  workingDays: number[];
+  holidays: Holiday[];
+}
+
+export type DayState =
+  "report" | "draft" | "missing" | "weekend" | "holiday" | "future";
+
+export interface CalendarDay {
+  date: Dayjs;
+  state: DayState;
+  // Name of the holiday
+  holiday?: string;
+  // Day of another month shown to fill the first or last week
+  outside: boolean;
+}
+
+export const createDefaultWorkCalendar = (): WorkCalendar => ({
+  workingDays: [1, 2, 3, 4, 5],
+  holidays: [],
+});
+
+export const getWorkCalendar = async (): Promise<WorkCalendar> => ({
+  ...createDefaultWorkCalendar(),
+  ...(await getSetting<Partial<WorkCalendar>>(WORK_CALENDAR_SETTING)),
+});
+
+export const saveWorkCalendar = (calendar: WorkCalendar) =>
+  saveSetting(WORK_CALENDAR_SETTING, calendar);
+
+export const findHoliday = (calendar: WorkCalendar, date: Dayjs) =>
+  calendar.holidays.find((holiday) => holiday.date === getDayKey(date));
+
+export const isWorkingDay = (calendar: WorkCalendar, date: Dayjs) =>
+  calendar.workingDays.includes(date.day()) && !findHoliday(calendar, date);
+
+// Adds holidays, replacing those already entered for the same date, sorted
+// by date
+export const mergeHolidays = (
+  holidays: Holiday[],
+  added: Holiday[]
+): Holiday[] => {
+  const byDate = new Map(holidays.map((holiday) => [holiday.date, holiday]));
+  added.forEach((holiday) => byDate.set(holiday.date, holiday));
+  return Array.from(byDate.values()).sort((a, b) =>
+    a.date.localeCompare(b.date)
+  );
+};
+
+// A saved report wins over the draft, which wins over the kind of day: a
+// report written on a holiday stays visible
+export const getDayState = (
+  date: Dayjs,
+  calendar: WorkCalendar,
+  reportDays: Set<string>,
+  draftDay: string | null,
+  today: Dayjs = dayjs()
+): DayState => {
+  const key = getDayKey(date);
+  if (reportDays.has(key)) return "report";
+  if (key === draftDay) return "draft";
+  if (findHoliday(calendar, date)) return "holiday";
+  if (!calendar.workingDays.includes(date.day())) return "weekend";
+  return date.isAfter(today, "day") ? "future" : "missing";
+};
+
+// Whole weeks, Monday to Sunday, covering the month
+export const getMonthDays = (
+  month: Dayjs,
+  calendar: WorkCalendar,
+  reportDays: Set<string>,
+  draftDay: string | null,
+  today: Dayjs = dayjs()
+): CalendarDay[] => {
+  const first = month.startOf("month");
+  const start = first.subtract((first.day() + 6) % 7, "day");
+  const last = month.endOf("month").startOf("day");
+  const count = Math.ceil((last.diff(start, "day") + 1) / 7) * 7;
+
+  return Array.from({ length: count }, (_, i) => {
+    const date = start.add(i, "day");
+    return {
+      date,
+      state: getDayState(date, calendar, reportDays, draftDay, today),
+      holiday: findHoliday(calendar, date)?.name,
+      outside: !date.isSame(month, "month"),
+    };
+  });
+};
+
+// Reads an iCalendar file (RFC 5545): each VEVENT becomes one holiday per day
+// it covers. Recurrence rules aren't expanded, as published holiday calendars
+// list every date.
+const unfoldLines = (text: string) =>
+  text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+
+const unescapeText = (value: string) =>
+  value
+    .replace(/\\[nN]/g, " ")
+    .replace(/\\([,;\\])/g, "$1")
+    .trim();
+
+// DTSTART;VALUE=DATE:20250714 or DTSTART:20250714T000000Z
+const parseIcsDate = (value: string) => {
+  const match = /^(\d{4})(\d{2})(\d{2})/.exec(value);
+  return match ? dayjs(`${match[1]}-${match[2]}-${match[3]}`) : null;
+};
+
+export const parseIcsHolidays = (text: string): Holiday[] => {
+  const holidays: Holiday[] = [];
+  let event: { start?: Dayjs; end?: Dayjs; name: string } | null = null;
+
+  for (const line of unfoldLines(text)) {
+    const separator = line.indexOf(":");
+    if (separator === -1) continue;
+    const name = line.slice(0, separator).split(";")[0].toUpperCase();
+    const value = line.slice(separator + 1);
+
+    if (name === "BEGIN" && value.toUpperCase() === "VEVENT") {
+      event = { name: "" };
+    } else if (event && name === "DTSTART") {
+      event.start = parseIcsDate(value) ?? undefined;
+    } else if (event && name === "DTEND") {
+      event.end = parseIcsDate(value) ?? undefined;
+    } else if (event && name === "SUMMARY") {
+      event.name = unescapeText(value);
+    } else if (event && name === "END" && value.toUpperCase() === "VEVENT") {
+      const { start, end } = event;
+      if (start?.isValid()) {
+        // DTEND is exclusive; without DTEND the event lasts one day
+        const days =
+          end?.isValid() && end.isAfter(start, "day")
+            ? end.diff(start, "day")
+            : 1;
+        for (let i = 0; i < days; i++) {
+          holidays.push({
+            date: getDayKey(start.add(i, "day")),
+            name: event.name,
+          });
+        }
+      }
+      event = null;
+    }
+  }
+  return mergeHolidays([], holidays);
+};
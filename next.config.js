@@ -1,3 +1,16 @@
+// Builds public/service-worker.js from worker/service-worker.js with the
+// precache manifest of the build. The page registers it and drives updates
+// itself, so next-pwa's own registration and fallbacks are turned off.
+const withPWA = require("next-pwa")({
+  dest: "public",
+  sw: "service-worker.js",
+  swSrc: "worker/service-worker.js",
+  register: false,
+  fallbacks: false,
+  // Turbopack doesn't run webpack plugins anyway
+  disable: process.env.NODE_ENV === "development",
+});
+
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
@@ -12,10 +25,15 @@ const nextConfig = {
             key: "Service-Worker-Allowed",
             value: "/",
           },
+          // Always revalidated so that a deployment is noticed
+          {
+            key: "Cache-Control",
+            value: "no-cache",
+          },
         ],
       },
     ];
   },
 };
 
-module.exports = nextConfig;
+module.exports = withPWA(nextConfig);
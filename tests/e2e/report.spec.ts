@@ -0,0 +1,56 @@
+import { expect, Locator, test } from "@playwright/test";
+
+// The MUI time fields are split into hour and minute sections that only
+// take keystrokes, not fill()
+const typeTime = async (field: Locator, digits: string) => {
+  await field.click();
+  await field.press("Home");
+  await field.pressSequentially(digits);
+};
+
+test("fills, saves and reloads a report", async ({ page }) => {
+  await page.goto("/");
+
+  await page.getByLabel("Prénom").fill("Jean");
+  await page.getByLabel("Nom", { exact: true }).fill("Dupont");
+  await typeTime(page.getByLabel("Heure d'arrivée"), "0800");
+  await typeTime(page.getByLabel("Heure de départ"), "1200");
+
+  const task = page.getByRole("group", { name: "Tâche 1" });
+  await typeTime(task.getByLabel("Heure de début"), "0800");
+  await typeTime(task.getByLabel("Heure de fin"), "1200");
+  await task.getByLabel("Description de la tâche").fill("Pose de cloisons");
+
+  await page.getByRole("button", { name: "Enregistrer", exact: true }).click();
+  await expect(page.getByRole("status")).toHaveText("Rapport enregistré");
+  await expect(
+    page.getByRole("button", { name: "Mettre à jour" })
+  ).toBeVisible();
+
+  await page.reload();
+
+  const saved = page.getByRole("button", { name: /Dupont Jean/ });
+  await expect(saved).toContainText("enregistré");
+  await saved.click();
+
+  await expect(page.getByLabel("Prénom")).toHaveValue("Jean");
+  await expect(page.getByLabel("Heure d'arrivée")).toHaveValue("08:00");
+  await expect(page.getByLabel("Heure de départ")).toHaveValue("12:00");
+  await expect(task.getByLabel("Heure de fin")).toHaveValue("12:00");
+  await expect(task.getByLabel("Description de la tâche")).toHaveValue(
+    "Pose de cloisons"
+  );
+});
+
+test("points to the missing fields instead of saving", async ({ page }) => {
+  await page.goto("/");
+
+  await page.getByRole("button", { name: "Enregistrer", exact: true }).click();
+
+  const firstName = page.getByLabel("Prénom");
+  await expect(firstName).toHaveAttribute("aria-invalid", "true");
+  await expect(firstName).toHaveAccessibleDescription("Le prénom est requis");
+  await expect(page.getByRole("button", { name: "Mettre à jour" })).toHaveCount(
+    0
+  );
+});
@@ -0,0 +1,246 @@
+import { describe, expect, it } from "vitest";
+import {
+  BACKUP_FORMAT,
+  BackupError,
+  createBackup,
+  parseBackup,
+  planImport,
+  reportsToCsv,
+  resolveImport,
+} from "@/lib/backup";
+import { createEmptyProfile } from "@/lib/profile";
+import { SerializedReport, serializeReport } from "@/lib/report";
+import {
+  getActiveMember,
+  getMembers,
+  restoreMembers,
+  saveMember,
+  TeamMember,
+} from "@/lib/team";
+import { at, createReport } from "./fixtures";
+
+const member = (
+  firstName: string,
+  lastName: string,
+  manager = false
+): TeamMember => ({ ...createEmptyProfile(), firstName, lastName, manager });
+
+const reports = [serializeReport(createReport())];
+
+describe("team members in backups", () => {
+  it("round-trips every member with the manager flag", () => {
+    const members = [
+      { ...member("Jean", "Dupont", true), id: 1 },
+      { ...member("Claire", "Martin"), id: 2 },
+    ];
+    const parsed = parseBackup(
+      JSON.stringify(createBackup({ reports, members }))
+    );
+
+    expect(parsed.members).toEqual([
+      member("Jean", "Dupont", true),
+      member("Claire", "Martin"),
+    ]);
+  });
+
+  it("reads the single profile of a version 3 backup", () => {
+    const profile = { ...createEmptyProfile(), firstName: "Jean" };
+    const parsed = parseBackup(
+      JSON.stringify({ format: BACKUP_FORMAT, version: 3, reports, profile })
+    );
+
+    expect(parsed.members).toEqual([{ ...profile, manager: false }]);
+  });
+
+  it("rejects an invalid member", () => {
+    const backup = {
+      ...createBackup({ reports }),
+      members: [member("Jean", "Dupont"), { firstName: "Claire" }],
+    };
+
+    expect(() => parseBackup(JSON.stringify(backup))).toThrow(
+      new BackupError("invalidMember", { index: 2 })
+    );
+  });
+
+  it("adds only the members missing from the device", async () => {
+    await saveMember(member("Jean", "Dupont", true));
+
+    await restoreMembers([
+      { ...member("jean", "DUPONT"), jobTitle: "Chef" },
+      member("Claire", "Martin"),
+    ]);
+
+    const stored = await getMembers();
+    expect(stored.map((m) => [m.lastName, m.jobTitle, m.manager])).toEqual([
+      ["Dupont", "", true],
+      ["Martin", "", false],
+    ]);
+  });
+
+  it("sets up a new device with an active manager", async () => {
+    await restoreMembers([
+      member("Jean", "Dupont"),
+      member("Claire", "Martin"),
+    ]);
+
+    expect(await getActiveMember()).toMatchObject({
+      lastName: "Dupont",
+      manager: true,
+    });
+  });
+});
+
+// Report as stored on a device, with its local id and sync identity
+const stored = (
+  id: number,
+  uid: string,
+  extra: Partial<SerializedReport> = {}
+): SerializedReport => ({
+  ...serializeReport(createReport()),
+  id,
+  uid,
+  revision: 2,
+  ...extra,
+});
+
+describe("import plan", () => {
+  it("ignores a local id that belongs to another report", () => {
+    const local = stored(3, "uid-martin", { lastName: "Martin" });
+    const incoming = stored(3, "uid-dupont", {
+      date: at("00:00").add(7, "day").toISOString(),
+    });
+
+    expect(planImport([local], [incoming])).toEqual([
+      { report: incoming, kind: "new" },
+    ]);
+  });
+
+  it("matches the same report by uid, even on another day", () => {
+    const local = stored(3, "uid-1");
+    const incoming = stored(8, "uid-1", {
+      date: at("00:00").add(1, "day").toISOString(),
+    });
+
+    expect(planImport([local], [incoming])).toEqual([
+      { report: incoming, existing: local, kind: "conflict" },
+    ]);
+  });
+
+  it("falls back to the day and person", () => {
+    const local = stored(3, "uid-1");
+    const incoming = stored(8, "uid-2", { plannedTasks: "Peinture" });
+
+    expect(planImport([local], [incoming])[0]).toMatchObject({
+      existing: local,
+      kind: "conflict",
+    });
+  });
+
+  it("finds identical content whatever the metadata", () => {
+    const local = stored(3, "uid-1");
+    const incoming = stored(8, "uid-1", { revision: 5 });
+
+    expect(planImport([local], [incoming])[0].kind).toBe("identical");
+  });
+});
+
+describe("import resolution", () => {
+  it("adds new reports without their original id", () => {
+    const incoming = stored(3, "uid-1");
+
+    expect(resolveImport([{ report: incoming, kind: "new" }], {})).toEqual([
+      { ...incoming, id: undefined },
+    ]);
+  });
+
+  it("skips conflicts unless told otherwise", () => {
+    const plan = planImport(
+      [stored(3, "uid-1")],
+      [stored(8, "uid-1", { plannedTasks: "Peinture" })]
+    );
+
+    expect(resolveImport(plan, {})).toEqual([]);
+  });
+
+  it("overwrites in place, keeping the stored identity", () => {
+    const local = stored(3, "uid-1", { revision: 4 });
+    const incoming = stored(8, "uid-2", { plannedTasks: "Peinture" });
+    const plan = planImport([local], [incoming]);
+
+    expect(resolveImport(plan, { 0: "overwrite" })).toEqual([
+      { ...incoming, id: 3, uid: "uid-1", revision: 4 },
+    ]);
+  });
+
+  it("never gives a report the identity of another one", () => {
+    const local = stored(3, "uid-1", { lastName: "Martin" });
+    const incoming = stored(3, "uid-2", { plannedTasks: "Peinture" });
+    const plan = [
+      { report: incoming, existing: local, kind: "conflict" as const },
+    ];
+
+    const [written] = resolveImport(plan, { 0: "overwrite" });
+    expect(written).not.toHaveProperty("id");
+    expect(written).not.toHaveProperty("uid");
+    expect(written).not.toHaveProperty("revision");
+  });
+
+  it("keeps both reports, the copy getting a new identity", () => {
+    const incoming = stored(8, "uid-1", { plannedTasks: "Peinture" });
+    const plan = planImport([stored(3, "uid-1")], [incoming]);
+
+    const [copy] = resolveImport(plan, { 0: "keepBoth" });
+    expect(copy).toEqual(expect.objectContaining({ plannedTasks: "Peinture" }));
+    expect(copy).not.toHaveProperty("id");
+    expect(copy).not.toHaveProperty("uid");
+    expect(copy).not.toHaveProperty("revision");
+  });
+});
+
+describe("CSV export", () => {
+  const lines = (csv: string) => csv.replace(/^\uFEFF/, "").split("\r\n");
+
+  it("starts with a BOM and writes one line per task", () => {
+    const csv = reportsToCsv([serializeReport(createReport())]);
+
+    expect(csv.startsWith("\uFEFF")).toBe(true);
+    expect(lines(csv)).toEqual([
+      "Date;Nom;Prénom;Arrivée;Départ;Début;Fin;Catégorie;Tâche;Problèmes",
+      "2024-03-12;Dupont;Jean;08:00;12:00;08:00;10:00;;Pose de cloisons;",
+      "2024-03-12;Dupont;Jean;08:00;12:00;10:00;12:00;Chantier;Réunion de chantier;Livraison en retard",
+    ]);
+  });
+
+  it("sorts the reports by date and keeps those without tasks", () => {
+    const later = serializeReport(
+      createReport({ date: at("00:00").add(1, "day"), tasks: [] })
+    );
+    const earlier = serializeReport(
+      createReport({ tasks: [createReport().tasks[0]] })
+    );
+
+    expect(lines(reportsToCsv([later, earlier])).slice(1)).toEqual([
+      "2024-03-12;Dupont;Jean;08:00;12:00;08:00;10:00;;Pose de cloisons;",
+      "2024-03-13;Dupont;Jean;08:00;12:00;;;;;",
+    ]);
+  });
+
+  it("writes the headers in the language chosen for reports", () => {
+    const csv = reportsToCsv([], "en");
+
+    expect(lines(csv)).toEqual([
+      "Date;Last name;First name;Arrival;Departure;Start;End;Category;Task;Problems",
+    ]);
+  });
+
+  it("quotes the cells holding a separator, a quote or a line break", () => {
+    const report = createReport();
+    report.tasks[0].description = 'Pose; "rapide"';
+    report.tasks[0].problems = "Ligne 1\nLigne 2";
+
+    expect(lines(reportsToCsv([serializeReport(report)]))[1]).toBe(
+      '2024-03-12;Dupont;Jean;08:00;12:00;08:00;10:00;;"Pose; ""rapide""";"Ligne 1\nLigne 2"'
+    );
+  });
+});
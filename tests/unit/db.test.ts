@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+import {
+  ACTIVE_MEMBER_KEY,
+  AUTHOR_DAY_INDEX,
+  AUTHOR_INDEX,
+  CATALOGUE_STORE_NAME,
+  CATEGORY_STORE_NAME,
+  DAY_INDEX,
+  DB_NAME,
+  DB_VERSION,
+  DRAFT_STORE_NAME,
+  INCIDENT_STORE_NAME,
+  initDB,
+  LEGACY_PROFILE_KEY,
+  requestToPromise,
+  SETTINGS_STORE_NAME,
+  STORE_NAME,
+  TEMPLATE_STORE_NAME,
+  UID_INDEX,
+} from "@/lib/db";
+import { SerializedReport, serializeReport } from "@/lib/report";
+import { getOutbox } from "@/lib/syncRepository";
+import { getMembers } from "@/lib/team";
+import { createReport } from "./fixtures";
+
+// Creates a database as an older release left it, then closes it
+const createLegacyDB = (
+  version: number,
+  setup: (db: IDBDatabase, transaction: IDBTransaction) => void
+) =>
+  new Promise<void>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, version);
+    request.onupgradeneeded = () => setup(request.result, request.transaction!);
+    request.onsuccess = () => {
+      request.result.close();
+      resolve();
+    };
+    request.onerror = () => reject(request.error);
+  });
+
+const readAll = async <T>(storeName: string) => {
+  const db = await initDB();
+  const store = db.transaction(storeName, "readonly").objectStore(storeName);
+  return requestToPromise<T[]>(store.getAll());
+};
+
+describe("initDB", () => {
+  it("creates the latest schema", async () => {
+    const db = await initDB();
+
+    expect(db.version).toBe(DB_VERSION);
+    const indexes = db
+      .transaction(STORE_NAME, "readonly")
+      .objectStore(STORE_NAME).indexNames;
+    [DAY_INDEX, AUTHOR_INDEX, AUTHOR_DAY_INDEX, UID_INDEX].forEach((name) =>
+      expect(indexes.contains(name)).toBe(true)
+    );
+  });
+
+  it("indexes and queues the reports of a version 1 database", async () => {
+    // Reports had neither index keys nor uid back then
+    const legacy = { ...serializeReport(createReport()), id: 1 };
+    await createLegacyDB(1, (db) => {
+      db.createObjectStore(STORE_NAME, {
+        keyPath: "id",
+        autoIncrement: true,
+      }).add(legacy);
+    });
+
+    const [report] = await readAll<SerializedReport>(STORE_NAME);
+    expect(report).toMatchObject({
+      ...legacy,
+      day: "2024-03-12",
+      author: "dupont jean",
+      uid: expect.any(String),
+    });
+    expect(await getOutbox()).toEqual([
+      expect.objectContaining({ op: "put", baseRevision: null }),
+    ]);
+  });
+
+  it("turns the profile of a version 6 database into a manager", async () => {
+    const profile = { firstName: "Jean", lastName: "Dupont" };
+    await createLegacyDB(6, (db) => {
+      const reports = db.createObjectStore(STORE_NAME, {
+        keyPath: "id",
+        autoIncrement: true,
+      });
+      reports.createIndex(DAY_INDEX, "day");
+      reports.createIndex(AUTHOR_INDEX, "author");
+      reports.createIndex(AUTHOR_DAY_INDEX, ["author", "day"]);
+      db.createObjectStore(DRAFT_STORE_NAME).put({ tasks: [] }, "current");
+      db.createObjectStore(SETTINGS_STORE_NAME).put(
+        profile,
+        LEGACY_PROFILE_KEY
+      );
+      [CATEGORY_STORE_NAME, CATALOGUE_STORE_NAME, TEMPLATE_STORE_NAME].forEach(
+        (name) =>
+          db.createObjectStore(name, { keyPath: "id", autoIncrement: true })
+      );
+      db.createObjectStore(INCIDENT_STORE_NAME, { keyPath: "key" });
+    });
+
+    const [member] = await getMembers();
+    expect(member).toMatchObject({ ...profile, manager: true });
+
+    const db = await initDB();
+    const settings = db
+      .transaction(SETTINGS_STORE_NAME, "readonly")
+      .objectStore(SETTINGS_STORE_NAME);
+    expect(await requestToPromise(settings.get(ACTIVE_MEMBER_KEY))).toBe(
+      member.id
+    );
+    expect(await requestToPromise(settings.get(LEGACY_PROFILE_KEY))).toBe(
+      undefined
+    );
+
+    const drafts = db
+      .transaction(DRAFT_STORE_NAME, "readonly")
+      .objectStore(DRAFT_STORE_NAME);
+    expect(await requestToPromise(drafts.getAllKeys())).toEqual([
+      `member-${member.id}`,
+    ]);
+  });
+});
@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { planImport, resolveImport } from "@/lib/backup";
+import {
+  FinalizedReportError,
+  finalizeReport,
+  verifyReport,
+} from "@/lib/finalization";
+import { SerializedReport, serializeReport } from "@/lib/report";
+import {
+  deleteReport,
+  getReport,
+  restoreReport,
+  saveReport,
+} from "@/lib/reportRepository";
+import {
+  applyRemoteRecord,
+  dropOutboxEntry,
+  getOutbox,
+} from "@/lib/syncRepository";
+import { createReport } from "./fixtures";
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(new Date("2024-03-12T18:00:00Z"));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+const saveFinalized = async () => {
+  const saved = await saveReport(serializeReport(createReport()));
+  return saveReport(await finalizeReport(saved, "data:image/png;base64,"));
+};
+
+describe("finalization", () => {
+  it("detects a change made after finalizing", async () => {
+    const finalized = await saveFinalized();
+
+    expect((await verifyReport(finalized)).status).toBe("valid");
+    expect(
+      (await verifyReport({ ...finalized, plannedTasks: "Peinture" })).status
+    ).toBe("modified");
+  });
+});
+
+describe("finalized reports", () => {
+  it("can't be overwritten or deleted", async () => {
+    const finalized = await saveFinalized();
+
+    await expect(
+      saveReport({
+        ...finalized,
+        plannedTasks: "Peinture",
+        finalization: undefined,
+      })
+    ).rejects.toThrow(FinalizedReportError);
+    await expect(deleteReport(finalized.id!)).rejects.toThrow(
+      FinalizedReportError
+    );
+    expect(await getReport(finalized.id!)).toEqual(finalized);
+  });
+
+  it("can still be reviewed", async () => {
+    const finalized = await saveFinalized();
+    const review = {
+      status: "validated" as const,
+      comment: "",
+      reviewer: "Martin Claire",
+      reviewedAt: "2024-03-13T08:00:00.000Z",
+    };
+    await restoreReport({ ...finalized, review });
+
+    expect((await getReport(finalized.id!))?.review).toEqual(review);
+  });
+
+  it("are kept on import", async () => {
+    const finalized = await saveFinalized();
+    const incoming: SerializedReport = {
+      ...serializeReport(createReport()),
+      plannedTasks: "Peinture",
+    };
+    const plan = planImport([finalized], [incoming]);
+
+    expect(plan[0].kind).toBe("conflict");
+    expect(resolveImport(plan, { 0: "overwrite" })).toEqual([]);
+  });
+
+  it("are pushed back over a server change", async () => {
+    const finalized = await saveFinalized();
+    // As if the report had already been pushed
+    await dropOutboxEntry(finalized.uid!);
+    const record = {
+      uid: finalized.uid!,
+      revision: 4,
+      deleted: true,
+      report: null,
+      updatedAt: "2024-03-13T08:00:00.000Z",
+    };
+
+    expect(await applyRemoteRecord(record)).toBe(false);
+    expect(await getReport(finalized.id!)).toEqual({
+      ...finalized,
+      revision: 4,
+    });
+    expect(await getOutbox()).toEqual([
+      expect.objectContaining({
+        uid: finalized.uid,
+        op: "put",
+        baseRevision: 4,
+      }),
+    ]);
+  });
+});
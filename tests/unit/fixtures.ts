@@ -0,0 +1,38 @@
+import dayjs from "dayjs";
+import { createUid, Report, Task } from "@/lib/report";
+
+export const DAY = "2024-03-12";
+
+// Local time on the test day, e.g. at("08:30")
+export const at = (time: string) => dayjs(`${DAY}T${time}`);
+
+export const createTask = (
+  start: string,
+  end: string,
+  description: string,
+  extra: Partial<Task> = {}
+): Task => ({
+  id: createUid(),
+  startTime: at(start),
+  endTime: at(end),
+  description,
+  problems: "",
+  ...extra,
+});
+
+export const createReport = (extra: Partial<Report> = {}): Report => ({
+  date: at("00:00"),
+  firstName: "Jean",
+  lastName: "Dupont",
+  arrivalTime: at("08:00"),
+  departureTime: at("12:00"),
+  tasks: [
+    createTask("08:00", "10:00", "Pose de cloisons"),
+    createTask("10:00", "12:00", "Réunion de chantier", {
+      problems: "Livraison en retard",
+      category: "Chantier",
+    }),
+  ],
+  plannedTasks: "Finir les cloisons",
+  ...extra,
+});
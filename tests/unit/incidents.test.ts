@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { createBackup, parseBackup } from "@/lib/backup";
+import {
+  extractIncidents,
+  getIncidentFollowUps,
+  getIncidentKey,
+  IncidentFollowUp,
+  putIncidentFollowUps,
+} from "@/lib/incidents";
+import { serializeReport } from "@/lib/report";
+import { createReport, createTask } from "./fixtures";
+
+const followUp = (
+  key: string,
+  updatedAt = "2024-03-12T18:00:00.000Z"
+): IncidentFollowUp => ({
+  key,
+  status: "resolved",
+  resolution: "Livré le lendemain",
+  updatedAt,
+});
+
+const report = createReport({
+  id: 7,
+  uid: "report-uid",
+  tasks: [
+    createTask("08:00", "10:00", "Pose", { problems: "Livraison en retard" }),
+    createTask("10:00", "12:00", "Reprise", {
+      problems: "livraison en retard ",
+    }),
+  ],
+});
+
+describe("extractIncidents", () => {
+  it("gives each task of a report its own key", () => {
+    const keys = extractIncidents([report], []).map((incident) => incident.key);
+
+    expect(keys).toEqual([
+      getIncidentKey("report-uid", "Livraison en retard", 0),
+      getIncidentKey("report-uid", "Livraison en retard", 1),
+    ]);
+  });
+
+  it("follows the report uid rather than its local id", () => {
+    const key = getIncidentKey("report-uid", "Livraison en retard", 1);
+    const [, incident] = extractIncidents(
+      [{ ...report, id: 12 }],
+      [followUp(key)]
+    );
+
+    expect(incident).toMatchObject({ key, reportId: 12, status: "resolved" });
+  });
+
+  it("still reads follow-ups keyed on the local id", () => {
+    const [first, second] = extractIncidents(
+      [report],
+      [followUp("7:livraison en retard")]
+    );
+
+    expect(first.status).toBe("resolved");
+    expect(second.status).toBe("open");
+  });
+});
+
+describe("incident follow-ups", () => {
+  it("round-trip through a backup", () => {
+    const incidents = [followUp("report-uid:livraison en retard:0")];
+    const parsed = parseBackup(
+      JSON.stringify(
+        createBackup({ reports: [serializeReport(report)], incidents })
+      )
+    );
+
+    expect(parsed.incidents).toEqual(incidents);
+  });
+
+  it("keep the most recent version on restore", async () => {
+    await putIncidentFollowUps([
+      followUp("a", "2024-03-12T18:00:00.000Z"),
+      followUp("b", "2024-03-12T18:00:00.000Z"),
+    ]);
+    await putIncidentFollowUps([
+      { ...followUp("a", "2024-03-13T08:00:00.000Z"), status: "open" },
+      { ...followUp("b", "2024-03-11T08:00:00.000Z"), status: "open" },
+    ]);
+
+    const stored = await getIncidentFollowUps();
+    expect(stored.map(({ key, status }) => [key, status])).toEqual([
+      ["a", "open"],
+      ["b", "resolved"],
+    ]);
+  });
+});
@@ -0,0 +1,78 @@
+import type jsPDF from "jspdf";
+import { describe, expect, it } from "vitest";
+import { renderReportPdf } from "@/lib/pdf";
+import { createDefaultPdfTemplate } from "@/lib/pdfTemplate";
+import { at, createReport, createTask } from "./fixtures";
+
+// Text drawn on the pages, one entry per text operator, in drawing order.
+// jsPDF leaves the content streams uncompressed unless asked to compress.
+const getPdfText = (doc: jsPDF) => {
+  const raw: string = doc.output();
+  return Array.from(raw.matchAll(/^\(((?:\\.|[^\\)])*)\) Tj$/gm), (match) =>
+    match[1].replace(/\\(.)/g, "$1")
+  );
+};
+
+describe("renderReportPdf", () => {
+  it("lays out a report on one page", () => {
+    const doc = renderReportPdf(createReport());
+
+    expect(doc.internal.getNumberOfPages()).toBe(1);
+    expect(getPdfText(doc)).toMatchSnapshot();
+  });
+
+  it("follows the report language", () => {
+    const doc = renderReportPdf(
+      createReport(),
+      null,
+      createDefaultPdfTemplate(),
+      "en"
+    );
+
+    expect(getPdfText(doc)).toMatchSnapshot();
+  });
+
+  it("keeps special characters of the content", () => {
+    const text = getPdfText(
+      renderReportPdf(
+        createReport({
+          tasks: [createTask("08:00", "12:00", "Découpe (lot 2) \\ étage")],
+        })
+      )
+    );
+
+    expect(text).toContain("Découpe (lot 2) \\ étage");
+  });
+
+  it("continues long reports on numbered pages", () => {
+    const tasks = Array.from({ length: 80 }, (_, index) =>
+      createTask("08:00", "08:03", `Contrôle du lot ${index + 1}`)
+    );
+    const doc = renderReportPdf(createReport({ tasks }));
+    const text = getPdfText(doc);
+    const pageCount = doc.internal.getNumberOfPages();
+
+    expect(pageCount).toBeGreaterThan(1);
+    for (let page = 1; page <= pageCount; page++) {
+      expect(text).toContain(`Page ${page}/${pageCount}`);
+    }
+    tasks.forEach((task) => expect(text).toContain(task.description));
+  });
+
+  it("prints the hash of a finalized report", () => {
+    const hash = "a".repeat(64);
+    const text = getPdfText(
+      renderReportPdf(
+        createReport({
+          finalization: {
+            finalizedAt: at("18:00").toISOString(),
+            signature: "",
+            hash,
+          },
+        })
+      )
+    ).join("\n");
+
+    expect(text).toContain(hash);
+  });
+});
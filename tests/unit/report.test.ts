@@ -0,0 +1,170 @@
+import dayjs from "dayjs";
+import { describe, expect, it } from "vitest";
+import {
+  createEmptyReport,
+  deserializeReport,
+  duplicateTask,
+  getIndexKeys,
+  moveTask,
+  Report,
+  serializeReport,
+} from "@/lib/report";
+import { at, createReport, createTask } from "./fixtures";
+
+// Dayjs instances are compared by instant and task ids, given anew on each
+// load, are ignored; the rest of the report as is
+const expectSameReport = (actual: Report, expected: Report) => {
+  const instant = (value: dayjs.Dayjs | null) => value?.valueOf() ?? null;
+  const comparable = (report: Report) => ({
+    ...report,
+    date: instant(report.date),
+    arrivalTime: instant(report.arrivalTime),
+    departureTime: instant(report.departureTime),
+    tasks: report.tasks.map((task) => ({
+      ...task,
+      id: expect.any(String),
+      startTime: instant(task.startTime),
+      endTime: instant(task.endTime),
+    })),
+  });
+  expect(comparable(actual)).toEqual(comparable(expected));
+};
+
+describe("serializeReport / deserializeReport", () => {
+  it("round-trips a complete report", () => {
+    const report = createReport({
+      id: 42,
+      uid: "uid-1",
+      revision: 3,
+      carriedOverItems: ["Commander le placo"],
+      review: {
+        status: "validated",
+        comment: "RAS",
+        reviewer: "Martin Claire",
+        reviewedAt: "2024-03-13T09:00:00.000Z",
+      },
+    });
+    report.tasks[0].attachments = ["attachment-1"];
+    report.tasks[1].plannedItem = "Réunion de chantier";
+
+    expectSameReport(deserializeReport(serializeReport(report)), report);
+  });
+
+  it("doesn't store the task ids", () => {
+    const { tasks } = serializeReport(createReport());
+
+    tasks.forEach((task) => expect(task).not.toHaveProperty("id"));
+  });
+
+  it("survives a JSON round trip, as in storage and backups", () => {
+    const report = createReport();
+    const json = JSON.stringify(serializeReport(report));
+    expectSameReport(deserializeReport(JSON.parse(json)), report);
+  });
+
+  it("keeps null times", () => {
+    const report = createReport({
+      arrivalTime: null,
+      departureTime: null,
+      tasks: [{ ...createTask("08:00", "09:00", "Tri"), endTime: null }],
+    });
+    report.tasks.push({ ...report.tasks[0], startTime: null });
+
+    const serialized = serializeReport(report);
+    expect(serialized.arrivalTime).toBeNull();
+    expect(serialized.departureTime).toBeNull();
+    expect(serialized.tasks[0].endTime).toBeNull();
+    expect(serialized.tasks[1].startTime).toBeNull();
+
+    const restored = deserializeReport(serialized);
+    expect(restored.arrivalTime).toBeNull();
+    expect(restored.tasks[0].endTime).toBeNull();
+    expect(restored.tasks[1].startTime).toBeNull();
+    expectSameReport(restored, report);
+  });
+
+  it("round-trips an empty report", () => {
+    const report = createEmptyReport();
+    expectSameReport(deserializeReport(serializeReport(report)), report);
+  });
+
+  it("stores times as UTC instants", () => {
+    const serialized = serializeReport(createReport());
+    // Paris is UTC+1 in March
+    expect(serialized.arrivalTime).toBe("2024-03-12T07:00:00.000Z");
+    expect(serialized.tasks[1].endTime).toBe("2024-03-12T11:00:00.000Z");
+  });
+
+  it("keeps the local day of a report entered just after midnight", () => {
+    const report = createReport({ date: at("00:30") });
+    const serialized = serializeReport(report);
+
+    expect(serialized.date).toBe("2024-03-11T23:30:00.000Z");
+    expect(getIndexKeys(serialized).day).toBe("2024-03-12");
+    expect(deserializeReport(serialized).date.format("YYYY-MM-DD")).toBe(
+      "2024-03-12"
+    );
+  });
+
+  it("keeps wall-clock times across a daylight saving change", () => {
+    // Clocks went from 02:00 to 03:00 in Paris on 2024-03-31
+    const report = createReport({
+      date: dayjs("2024-03-31T00:00"),
+      arrivalTime: dayjs("2024-03-31T01:30"),
+      departureTime: dayjs("2024-03-31T04:30"),
+    });
+    const restored = deserializeReport(serializeReport(report));
+
+    expect(restored.arrivalTime?.format("HH:mm")).toBe("01:30");
+    expect(restored.departureTime?.format("HH:mm")).toBe("04:30");
+    expect(restored.departureTime?.diff(restored.arrivalTime, "minute")).toBe(
+      120
+    );
+  });
+
+  it("shows times written in another time zone in local time", () => {
+    const serialized = serializeReport(createReport());
+    serialized.arrivalTime = "2024-03-12T08:00:00-04:00";
+
+    expect(deserializeReport(serialized).arrivalTime?.format("HH:mm")).toBe(
+      "13:00"
+    );
+  });
+});
+
+describe("moveTask", () => {
+  const descriptions = (report: Report) =>
+    report.tasks.map((task) => task.description);
+
+  it("moves a task to another position", () => {
+    const report = createReport({
+      tasks: ["A", "B", "C"].map((name) => createTask("08:00", "09:00", name)),
+    });
+
+    expect(descriptions(moveTask(report, 0, 2))).toEqual(["B", "C", "A"]);
+    expect(descriptions(moveTask(report, 2, 0))).toEqual(["C", "A", "B"]);
+    expect(descriptions(report)).toEqual(["A", "B", "C"]);
+  });
+});
+
+describe("duplicateTask", () => {
+  it("inserts a copy starting when the original ends", () => {
+    const report = createReport();
+    report.tasks[0].plannedItem = "Pose de cloisons";
+
+    const { tasks } = duplicateTask(report, 0);
+
+    expect(tasks).toHaveLength(3);
+    expect(tasks[1].description).toBe("Pose de cloisons");
+    expect(tasks[1].startTime?.format("HH:mm")).toBe("10:00");
+    expect(tasks[1].endTime).toBeNull();
+    expect(tasks[1].plannedItem).toBeUndefined();
+    expect(tasks[2].description).toBe("Réunion de chantier");
+  });
+
+  it("gives the copy its own id", () => {
+    const { tasks } = duplicateTask(createReport(), 0);
+
+    expect(new Set(tasks.map((task) => task.id)).size).toBe(3);
+  });
+});
@@ -0,0 +1,154 @@
+import dayjs from "dayjs";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { deserializeReport, serializeReport } from "@/lib/report";
+import {
+  deleteReport,
+  getAllReports,
+  getReport,
+  getReportsBetween,
+  getReportsByAuthor,
+  getReportsForDay,
+  getReportState,
+  putReports,
+  restoreReport,
+  saveReport,
+} from "@/lib/reportRepository";
+import { getOutbox } from "@/lib/syncRepository";
+import { at, createReport } from "./fixtures";
+
+// Only Date is faked: fake-indexeddb relies on the real timers
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(new Date("2024-03-12T18:00:00Z"));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// Moves the clock on so that the next write gets a later updatedAt
+const tick = () => vi.setSystemTime(Date.now() + 1000);
+
+describe("saveReport", () => {
+  it("stores a new report with its index keys", async () => {
+    const saved = await saveReport(serializeReport(createReport()));
+
+    expect(saved.id).toEqual(expect.any(Number));
+    expect(saved.createdAt).toBe("2024-03-12T18:00:00.000Z");
+    expect(saved.updatedAt).toBe(saved.createdAt);
+    expect(saved.day).toBe("2024-03-12");
+    expect(saved.author).toBe("dupont jean");
+    expect(saved.uid).toEqual(expect.any(String));
+    expect(getReportState(saved)).toBe("saved");
+
+    expect(await getReport(saved.id!)).toEqual(saved);
+  });
+
+  it("gives reports saved at the same time their own id", async () => {
+    const first = await saveReport(serializeReport(createReport()));
+    const second = await saveReport(
+      serializeReport(createReport({ firstName: "Claire" }))
+    );
+
+    expect(second.id).not.toBe(first.id);
+    expect(await getAllReports()).toHaveLength(2);
+  });
+
+  it("reads back an identical report", async () => {
+    const report = createReport();
+    report.tasks[0].endTime = null;
+    const saved = await saveReport(serializeReport(report));
+    const restored = deserializeReport((await getReport(saved.id!))!);
+
+    expect(restored.tasks[0].endTime).toBeNull();
+    expect(restored.tasks[1].startTime?.isSame(report.tasks[1].startTime)).toBe(
+      true
+    );
+    expect(serializeReport(restored)).toEqual(saved);
+  });
+
+  it("replaces the stored report on update", async () => {
+    const saved = await saveReport(serializeReport(createReport()));
+    tick();
+    const updated = await saveReport({ ...saved, plannedTasks: "Peinture" });
+
+    expect(updated.id).toBe(saved.id);
+    expect(updated.createdAt).toBe(saved.createdAt);
+    expect(updated.updatedAt).not.toBe(saved.updatedAt);
+    expect(getReportState(updated)).toBe("modified");
+
+    const all = await getAllReports();
+    expect(all).toHaveLength(1);
+    expect(all[0].plannedTasks).toBe("Peinture");
+  });
+
+  it("updates a report restored after deletion instead of duplicating it", async () => {
+    const saved = await saveReport(serializeReport(createReport()));
+    await deleteReport(saved.id!);
+    await restoreReport(saved);
+    tick();
+    // The form lost its id when the report was deleted
+    const resaved = await saveReport({
+      ...saved,
+      id: undefined,
+      plannedTasks: "Peinture",
+    });
+
+    expect(resaved.id).toBe(saved.id);
+    expect(resaved.createdAt).toBe(saved.createdAt);
+    const all = await getAllReports();
+    expect(all).toHaveLength(1);
+    expect(all[0].plannedTasks).toBe("Peinture");
+    expect(await getOutbox()).toEqual([
+      expect.objectContaining({ uid: saved.uid, op: "put" }),
+    ]);
+  });
+
+  it("queues every change for sync", async () => {
+    const saved = await saveReport(serializeReport(createReport()));
+    await deleteReport(saved.id!);
+
+    expect(await getReport(saved.id!)).toBeUndefined();
+    expect(await getOutbox()).toEqual([
+      expect.objectContaining({ uid: saved.uid, op: "delete" }),
+    ]);
+  });
+});
+
+describe("queries", () => {
+  beforeEach(async () => {
+    const reports = [
+      createReport({ id: 1 }),
+      createReport({ id: 2, date: dayjs("2024-03-13T00:30") }),
+      createReport({ id: 3, firstName: "Claire", lastName: "Martin" }),
+      createReport({ id: 4, date: dayjs("2024-02-28T00:00") }),
+    ];
+    await putReports(reports.map(serializeReport));
+  });
+
+  const ids = async (reports: Promise<{ id?: number }[]>) =>
+    (await reports).map((report) => report.id).sort();
+
+  it("finds the reports of a day in local time", async () => {
+    expect(await ids(getReportsForDay(at("12:00")))).toEqual([1, 3]);
+    expect(await ids(getReportsForDay(dayjs("2024-03-13")))).toEqual([2]);
+  });
+
+  it("finds the reports of a period, open ended or not", async () => {
+    expect(
+      await ids(getReportsBetween(dayjs("2024-03-01"), dayjs("2024-03-12")))
+    ).toEqual([1, 3]);
+    expect(await ids(getReportsBetween(dayjs("2024-03-13")))).toEqual([2]);
+    expect(await ids(getReportsBetween(null, dayjs("2024-03-01")))).toEqual([
+      4,
+    ]);
+  });
+
+  it("finds the reports of an author", async () => {
+    const author = { firstName: "jean ", lastName: "DUPONT" };
+    expect(await ids(getReportsByAuthor(author))).toEqual([1, 2, 4]);
+    expect(
+      await ids(getReportsByAuthor(author, dayjs("2024-03-01"), null))
+    ).toEqual([1, 2]);
+  });
+});
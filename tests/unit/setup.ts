@@ -0,0 +1,8 @@
+import "fake-indexeddb/auto";
+import { IDBFactory } from "fake-indexeddb";
+import { beforeEach } from "vitest";
+
+// Every test starts from an empty in-memory database
+beforeEach(() => {
+  globalThis.indexedDB = new IDBFactory();
+});
@@ -0,0 +1,37 @@
+import dayjs from "dayjs";
+import { describe, expect, it } from "vitest";
+import { buildStatistics } from "@/lib/statistics";
+import { createDefaultWorkCalendar } from "@/lib/workCalendar";
+import { createReport } from "./fixtures";
+
+// Tuesday 12 to Monday 18 March 2024, with a report on the Tuesday only
+const start = dayjs("2024-03-12");
+const end = dayjs("2024-03-18");
+const build = (calendar = createDefaultWorkCalendar()) =>
+  buildStatistics([createReport()], null, start, end, end, calendar, "en");
+
+describe("buildStatistics", () => {
+  it("counts Monday to Friday as working days by default", () => {
+    const statistics = build();
+
+    expect(statistics.workingDays).toBe(5);
+    expect(statistics.missingStreaks).toEqual([
+      expect.objectContaining({ days: 3 }),
+    ]);
+  });
+
+  it("leaves out the holidays and days off of the work calendar", () => {
+    const statistics = build({
+      workingDays: [1, 2, 3, 4],
+      holidays: [{ date: "2024-03-14", name: "Fermeture" }],
+    });
+
+    expect(statistics.workingDays).toBe(3);
+    expect(statistics.missingStreaks).toEqual([
+      expect.objectContaining({ days: 1 }),
+    ]);
+    expect(statistics.missingStreaks[0].start.format("YYYY-MM-DD")).toBe(
+      "2024-03-13"
+    );
+  });
+});
@@ -0,0 +1,58 @@
+import dayjs from "dayjs";
+import { describe, expect, it } from "vitest";
+import { createEmptyProfile } from "@/lib/profile";
+import { findMissingMembers, TeamMember } from "@/lib/team";
+import { createDefaultWorkCalendar } from "@/lib/workCalendar";
+import { createReport } from "./fixtures";
+
+const member = (
+  id: number,
+  firstName: string,
+  lastName: string
+): TeamMember => ({
+  ...createEmptyProfile(),
+  id,
+  firstName,
+  lastName,
+  manager: false,
+});
+
+const members = [member(1, "Jean", "Dupont"), member(2, "Claire", "Martin")];
+
+// Jean Dupont's report is on Tuesday 12 March 2024
+const reports = [createReport()];
+
+describe("findMissingMembers", () => {
+  it("lists the members without a report on a working day", () => {
+    const missing = findMissingMembers(
+      members,
+      reports,
+      dayjs("2024-03-12"),
+      createDefaultWorkCalendar()
+    );
+
+    expect(missing.map((member) => member.lastName)).toEqual(["Martin"]);
+  });
+
+  it("expects no report on a holiday", () => {
+    const calendar = {
+      ...createDefaultWorkCalendar(),
+      holidays: [{ date: "2024-03-13", name: "Fermeture" }],
+    };
+
+    expect(
+      findMissingMembers(members, reports, dayjs("2024-03-13"), calendar)
+    ).toEqual([]);
+  });
+
+  it("expects no report on a day off", () => {
+    expect(
+      findMissingMembers(
+        members,
+        reports,
+        dayjs("2024-03-16"),
+        createDefaultWorkCalendar()
+      )
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { createTranslator } from "@/lib/i18n";
+import { durationMinutes } from "@/lib/time";
+import { validateReport } from "@/lib/validation";
+import { at, createReport } from "./fixtures";
+
+describe("durationMinutes", () => {
+  it("counts the minutes between two times of day", () => {
+    expect(durationMinutes(at("08:15"), at("12:00"))).toBe(225);
+    expect(durationMinutes(at("08:15"), null)).toBe(0);
+  });
+
+  // Same model as validateReport, which refuses such spans
+  it("does not wrap past midnight", () => {
+    const nightShift = createReport({
+      arrivalTime: at("22:00"),
+      departureTime: at("06:00"),
+      tasks: [],
+    });
+
+    expect(
+      durationMinutes(nightShift.arrivalTime, nightShift.departureTime)
+    ).toBe(0);
+    expect(
+      validateReport(nightShift, createTranslator("en")).map(
+        (issue) => issue.path
+      )
+    ).toContain("departureTime");
+  });
+});
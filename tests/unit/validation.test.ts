@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import { createTranslator } from "@/lib/i18n";
+import {
+  getFieldIssue,
+  hasBlockingErrors,
+  taskPath,
+  validateReport,
+} from "@/lib/validation";
+import { createReport, createTask } from "./fixtures";
+
+const t = createTranslator("en");
+
+const summarize = (issues: ReturnType<typeof validateReport>) =>
+  issues.map(({ path, severity }) => `${severity} ${path}`);
+
+describe("validateReport", () => {
+  it("accepts a complete report", () => {
+    expect(validateReport(createReport(), t)).toEqual([]);
+  });
+
+  it("requires the name and times", () => {
+    const issues = validateReport(
+      createReport({
+        firstName: " ",
+        lastName: "",
+        arrivalTime: null,
+        departureTime: null,
+      }),
+      t
+    );
+
+    expect(summarize(issues)).toEqual([
+      "error firstName",
+      "error lastName",
+      "error arrivalTime",
+      "error departureTime",
+    ]);
+    expect(issues[0].message).toBe("First name is required");
+  });
+
+  it("requires at least one task", () => {
+    const issues = validateReport(createReport({ tasks: [] }), t);
+    expect(summarize(issues)).toEqual(["error tasks"]);
+  });
+
+  it("checks each task against the day", () => {
+    const issues = validateReport(
+      createReport({
+        tasks: [
+          createTask("07:30", "09:00", ""),
+          createTask("11:00", "10:00", "Rangement"),
+          createTask("11:00", "12:30", "Nettoyage"),
+        ],
+      }),
+      t
+    );
+
+    expect(summarize(issues)).toContain(`error ${taskPath(0, "description")}`);
+    expect(summarize(issues)).toContain(`error ${taskPath(0, "startTime")}`);
+    expect(summarize(issues)).toContain(`error ${taskPath(1, "endTime")}`);
+    expect(summarize(issues)).toContain(`error ${taskPath(2, "endTime")}`);
+    expect(getFieldIssue(issues, taskPath(1, "endTime"))?.message).toBe(
+      "Task 2: end must be after start"
+    );
+  });
+
+  it("reports overlapping tasks as errors", () => {
+    const issues = validateReport(
+      createReport({
+        tasks: [
+          createTask("08:00", "10:30", "Pose"),
+          createTask("10:00", "12:00", "Réunion"),
+        ],
+      }),
+      t
+    );
+
+    expect(getFieldIssue(issues, taskPath(1, "startTime"))?.message).toBe(
+      "Task 2: overlaps task 1"
+    );
+    expect(hasBlockingErrors(issues)).toBe(true);
+  });
+
+  it("warns about uncovered time without blocking the save", () => {
+    const issues = validateReport(
+      createReport({
+        tasks: [
+          createTask("08:30", "09:00", "Pose"),
+          createTask("10:00", "11:00", "Réunion"),
+        ],
+      }),
+      t
+    );
+
+    expect(summarize(issues)).toEqual([
+      `warning ${taskPath(1, "startTime")}`,
+      "warning arrivalTime",
+      "warning departureTime",
+    ]);
+    expect(hasBlockingErrors(issues)).toBe(false);
+  });
+});
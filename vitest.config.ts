@@ -0,0 +1,17 @@
+import { fileURLToPath } from "node:url";
+import { defineConfig } from "vitest/config";
+
+// Reports are serialized in UTC: a zone ahead of it makes a report entered
+// just after midnight fall on the previous day, which the tests check for.
+// Set before the workers start so that they inherit it.
+process.env.TZ = "Europe/Paris";
+
+export default defineConfig({
+  resolve: {
+    alias: { "@": fileURLToPath(new URL(".", import.meta.url)) },
+  },
+  test: {
+    include: ["tests/unit/**/*.test.ts"],
+    setupFiles: ["tests/unit/setup.ts"],
+  },
+});
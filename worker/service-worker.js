@@ -0,0 +1,159 @@
+// Source of public/service-worker.js. The build (next-pwa's InjectManifest,
+// see next.config.js) bundles it and fills self.__WB_MANIFEST with every
+// hashed Next.js asset and public file, so each deployment ships a new
+// precache and stale chunks are cleaned up on activation.
+import { ExpirationPlugin } from "workbox-expiration";
+import {
+  cleanupOutdatedCaches,
+  matchPrecache,
+  precacheAndRoute,
+} from "workbox-precaching";
+import { registerRoute, setCatchHandler } from "workbox-routing";
+import {
+  CacheFirst,
+  NetworkFirst,
+  StaleWhileRevalidate,
+} from "workbox-strategies";
+
+const PAGES_CACHE = "pages";
+const OFFLINE_URL = "/offline.html";
+
+precacheAndRoute(self.__WB_MANIFEST);
+cleanupOutdatedCaches();
+
+// The start page is rendered by the server, so it isn't part of the build
+// manifest; fetch it on install so the app opens offline right away
+self.addEventListener("install", (event) => {
+  event.waitUntil(caches.open(PAGES_CACHE).then((cache) => cache.add("/")));
+});
+
+// Pages come from the network whenever it answers, so a deployment shows up
+// on the next visit; the cached copy only serves when offline
+registerRoute(
+  ({ request, url }) =>
+    request.mode === "navigate" && !url.pathname.startsWith("/api/"),
+  new NetworkFirst({
+    cacheName: PAGES_CACHE,
+    networkTimeoutSeconds: 3,
+    plugins: [new ExpirationPlugin({ maxEntries: 20 })],
+  })
+);
+
+// Hashed build assets never change under the same URL
+registerRoute(
+  ({ url }) => url.pathname.startsWith("/_next/static/"),
+  new CacheFirst({
+    cacheName: "next-static",
+    plugins: [new ExpirationPlugin({ maxEntries: 200 })],
+  })
+);
+
+registerRoute(
+  ({ request, url }) =>
+    url.origin === self.location.origin &&
+    ["image", "font", "style"].includes(request.destination),
+  new StaleWhileRevalidate({
+    cacheName: "assets",
+    plugins: [new ExpirationPlugin({ maxEntries: 60 })],
+  })
+);
+
+// API calls (report sync) are never cached: no route matches them
+
+// Navigation that neither the network nor the cache could answer
+setCatchHandler(async ({ request }) => {
+  if (request.mode === "navigate") {
+    return (await matchPrecache(OFFLINE_URL)) || Response.error();
+  }
+  return Response.error();
+});
+
+// A new version waits until the user accepts it from the update banner
+self.addEventListener("message", (event) => {
+  if (event.data && event.data.type === "SKIP_WAITING") {
+    self.skipWaiting();
+  }
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+// Connectivity is back: let the open pages replay their queued changes, since
+// only they hold the sync settings and the IndexedDB connection logic
+self.addEventListener("sync", (event) => {
+  if (event.tag === "sync-reports") {
+    event.waitUntil(
+      self.clients.matchAll({ type: "window" }).then((clients) => {
+        clients.forEach((client) =>
+          client.postMessage({ type: "SYNC_REPORTS" })
+        );
+      })
+    );
+  }
+});
+
+// End-of-day reminder. The page keeps its settings and the days without a
+// reminder in the cache (see lib/reminder.ts), checked here whenever the
+// browser wakes the worker up or the open page asks for it.
+const REMINDER_CACHE = "reminder";
+const REMINDER_STATE_URL = "/reminder-state";
+const REMINDER_SHOWN_URL = "/reminder-shown";
+
+const localDayKey = (date) =>
+  [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, "0"),
+    String(date.getDate()).padStart(2, "0"),
+  ].join("-");
+
+const checkReminder = async () => {
+  const cache = await caches.open(REMINDER_CACHE);
+  const stateResponse = await cache.match(REMINDER_STATE_URL);
+  if (!stateResponse) return;
+  const state = await stateResponse.json();
+
+  const now = new Date();
+  const today = localDayKey(now);
+  const [hour, minute] = state.time.split(":").map(Number);
+  if (
+    state.skipDays.includes(today) ||
+    now.getHours() * 60 + now.getMinutes() < hour * 60 + minute
+  ) {
+    return;
+  }
+
+  const shown = await cache.match(REMINDER_SHOWN_URL);
+  if (shown && (await shown.text()) === today) return;
+  await self.registration.showNotification(state.title, {
+    body: state.body,
+    tag: "report-reminder",
+    icon: "/logo.svg",
+  });
+  await cache.put(REMINDER_SHOWN_URL, new Response(today));
+};
+
+self.addEventListener("periodicsync", (event) => {
+  if (event.tag === "report-reminder") {
+    event.waitUntil(checkReminder());
+  }
+});
+
+self.addEventListener("message", (event) => {
+  if (event.data && event.data.type === "CHECK_REMINDER") {
+    event.waitUntil(checkReminder());
+  }
+});
+
+// Brings the app to the front, or opens it, to write the report
+self.addEventListener("notificationclick", (event) => {
+  if (event.notification.tag !== "report-reminder") return;
+  event.notification.close();
+  event.waitUntil(
+    self.clients
+      .matchAll({ type: "window", includeUncontrolled: true })
+      .then((clients) =>
+        clients.length ? clients[0].focus() : self.clients.openWindow("/")
+      )
+  );
+});